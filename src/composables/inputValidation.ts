@@ -0,0 +1,131 @@
+import { isPrime } from "@/utils/openAddressingTable";
+
+// Type of data structure, deciding which values can be inserted
+export type InputStructureType = "lists" | "stack" | "queue" | "deque" | "tables" | "heap";
+
+// Validate an inserted value based on structure type and rules, returns the key of the error message
+export function validateInput(input: string, structureType: InputStructureType): string | null {
+    const trimmed = input.trim();
+
+    // Check for empty input
+    if (trimmed.length === 0) {
+        return "errors.emptyInput";  // Returns error message for empty input
+    }
+
+    // Specific validation based on the data structure type
+    switch (structureType) {
+        case "stack":
+        case "queue":
+        case "deque":
+            if (trimmed.length > 3) {
+                return "errors.max3Chars";  // Maximum 3 characters allowed
+            }
+            break;
+
+        case "tables":
+        case "heap":
+            if (!/^[+-]?\d+$/.test(trimmed)) {
+                return "errors.onlyDigits";  // Only digits allowed
+            }
+
+            let normalizedValue = trimmed.startsWith('+') ? trimmed.slice(1) : trimmed;
+            const digitCount = normalizedValue.startsWith('-')
+                ? normalizedValue.slice(1).length
+                : normalizedValue.length;
+
+            if (digitCount > 3) {
+                return "errors.max3Digits";  // Maximum 3 digits allowed
+            }
+            break;
+
+        case "lists":
+            if (trimmed.length > 4) {
+                return "errors.max4Chars";  // Maximum 4 characters allowed
+            }
+            break;
+    }
+
+    return null;
+}
+
+// Normalize input to remove unnecessary characters or leading zeros
+export function normalizeInput(input: string, structureType: InputStructureType): string {
+    let trimmed = input.trim();
+
+    if (structureType === "tables" || structureType === "heap") {
+        let normalizedValue = trimmed.startsWith('+') ? trimmed.slice(1) : trimmed;
+        const isNegative = normalizedValue.startsWith('-');
+        let numberPart = isNegative ? normalizedValue.slice(1) : normalizedValue;
+        numberPart = numberPart.replace(/^0+(?!$)/, ''); // Remove leading zeros
+        normalizedValue = isNegative ? `-${numberPart}` : numberPart;
+        return normalizedValue;
+    }
+
+    return trimmed;
+}
+
+// Validate a list of values separated by commas or spaces, returns the key of the error message of the first invalid value
+export function validateValueList(input: string, structureType: InputStructureType): string | null {
+    const values = input.trim().split(/[\s,]+/).filter(value => value.length > 0);
+
+    // Check for empty input
+    if (values.length === 0) {
+        return "errors.emptyInput";
+    }
+
+    for (const value of values) {
+        const error = validateInput(value, structureType);
+        if (error) return error;
+    }
+
+    return null;
+}
+
+// Normalize each value of the list and separate the values by commas
+export function normalizeValueList(input: string, structureType: InputStructureType): string {
+    return input.trim().split(/[\s,]+/)
+        .filter(value => value.length > 0)
+        .map(value => normalizeInput(value, structureType))
+        .join(", ");
+}
+
+// Validate the capacity of a structure, returns the key of the error message
+export function validateCapacity(input: string, primeOnly: boolean = false): string | null {
+    const trimmed = input.trim();  // Remove extra spaces from the input
+
+    // Validate the input number (only digits, can be negative)
+    if (!/^-?\d+$/.test(trimmed)) {
+        return "errors.inputNumber";  // Error for invalid input
+    }
+
+    const number = parseInt(trimmed, 10);  // Convert the input string to an integer
+
+    // Validate the number range (greater than 0 and less than 100)
+    if (number <= 0) {
+        return "errors.biggerThanZero";  // Error if the number is less than or equal to 0
+    }
+    if (number > 99) {
+        return "errors.lessThanHundred";  // Error if the number is greater than 99
+    }
+    if (primeOnly && !isPrime(number)) {
+        return "errors.primeNumber";  // Error if the size of a table must be a prime number
+    }
+
+    return null;
+}
+
+// Value of a method that works with a position in the structure, the value is used only by insertions
+export interface IndexedValue {
+    index: number;
+    value?: string;
+}
+
+// Validate the position in a structure, returns the key of the error message
+export function validateIndex(input: string): string | null {
+    // The position is a non-negative whole number
+    if (!/^\d+$/.test(input.trim())) {
+        return "errors.inputIndex";
+    }
+
+    return null;
+}
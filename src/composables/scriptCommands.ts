@@ -0,0 +1,344 @@
+import { validateInput, normalizeInput, validateCapacity, validateValueList, normalizeValueList, validateIndex } from "@/composables/inputValidation";
+import type { InputStructureType, IndexedValue } from "@/composables/inputValidation";
+import { hashFunctions } from "@/utils/base/hashStructure";
+import { probingMethods } from "@/utils/openAddressingTable";
+import { heapTypes } from "@/utils/binaryHeap";
+import { stackModes } from "@/utils/stack";
+import { sortAlgorithms } from "@/utils/singlyLinkedList";
+
+// Kind of argument following the structure name in a command
+export type ScriptArgument = "none" | "value" | "values" | "capacity" | "option" | "index" | "indexValue";
+
+// Command of the script language, mirroring a button of the method bar
+export interface ScriptCommand {
+    name: string;            // Name of the command as shown on the button
+    aliases?: string[];      // Other accepted names of the command
+    methodName: string;      // Method called through the method handlers
+    argument: ScriptArgument; // Argument expected after the structure name
+    options?: string[];      // Accepted values of the "option" argument
+    indexSymbol?: string;    // Symbol of the "index" argument shown in the signature (default: "i")
+    primeOnly?: boolean;     // Whether the "capacity" argument must be a prime number
+}
+
+// Commands available for one type of structure
+export interface ScriptLanguage {
+    symbol: string;                  // Name of the structure used in the commands
+    inputType: InputStructureType;   // Rules used to validate the inserted values
+    commands: ScriptCommand[];       // Commands in the order of the method bar
+}
+
+// Single parsed command ready to be executed
+export interface ScriptStep {
+    line: number;            // Line of the script containing the command
+    methodName: string;      // Method called through the method handlers
+    value?: string | number | IndexedValue; // Value passed to the method
+}
+
+// Error found in the script
+export interface ScriptError {
+    line: number;                       // Line of the script containing the error
+    key: string;                        // Key of the error message
+    params: Record<string, unknown>;    // Parameters of the error message
+}
+
+// Commands shared by the array and linked stack
+const stackCommands: ScriptCommand[] = [
+    { name: "InitStack", methodName: "initStructure", argument: "capacity" },
+    { name: "Push", methodName: "addElement", argument: "value" },
+    { name: "Pop", methodName: "removeElement", argument: "none" },
+    { name: "IsEmpty", methodName: "isEmpty", argument: "none" },
+    { name: "Top", methodName: "foremostElement", argument: "none" },
+    { name: "IsFull", methodName: "isFull", argument: "none" },
+];
+
+// Commands shared by the array and linked queue
+const queueCommands: ScriptCommand[] = [
+    { name: "InitQueue", methodName: "initStructure", argument: "capacity" },
+    { name: "Add", methodName: "addElement", argument: "value" },
+    { name: "Remove", methodName: "removeElement", argument: "none" },
+    { name: "IsEmpty", methodName: "isEmpty", argument: "none" },
+    { name: "Front", methodName: "foremostElement", argument: "none" },
+    { name: "IsFull", methodName: "isFull", argument: "none" },
+];
+
+// Commands shared by the singly and circular singly linked list
+const singlyLinkedListCommands: ScriptCommand[] = [
+    { name: "InitList", methodName: "initStructure", argument: "none" },
+    { name: "InsertFirst", methodName: "insertFirstNode", argument: "value" },
+    { name: "DeleteFirst", methodName: "deleteFirstNode", argument: "none" },
+    { name: "GetFirst", methodName: "getFirstNodeValue", argument: "none" },
+    { name: "First", methodName: "activateFirstNode", argument: "none" },
+    { name: "Next", aliases: ["Succ"], methodName: "activateNextNode", argument: "none" },
+    { name: "InsertAfter", methodName: "insertAfterActiveNode", argument: "value" },
+    { name: "DeleteAfter", methodName: "deleteAfterActiveNode", argument: "none" },
+    { name: "GetValue", methodName: "getActiveNodeValue", argument: "none" },
+    { name: "SetValue", methodName: "setActiveNodeValue", argument: "value" },
+    { name: "IsActive", methodName: "isListActive", argument: "none" },
+];
+
+// Commands shared by the doubly and circular doubly linked list
+const doublyLinkedListCommands: ScriptCommand[] = [
+    { name: "InitList", methodName: "initStructure", argument: "none" },
+    { name: "InsertFirst", methodName: "insertFirstNode", argument: "value" },
+    { name: "DeleteFirst", methodName: "deleteFirstNode", argument: "none" },
+    { name: "InsertLast", methodName: "insertLastNode", argument: "value" },
+    { name: "DeleteLast", methodName: "deleteLastNode", argument: "none" },
+    { name: "GetFirst", methodName: "getFirstNodeValue", argument: "none" },
+    { name: "GetLast", methodName: "getLastNodeValue", argument: "none" },
+    { name: "First", methodName: "activateFirstNode", argument: "none" },
+    { name: "Next", aliases: ["Succ"], methodName: "activateNextNode", argument: "none" },
+    { name: "Last", methodName: "activateLastNode", argument: "none" },
+    { name: "Previous", aliases: ["Pred"], methodName: "activatePreviousNode", argument: "none" },
+    { name: "GetValue", methodName: "getActiveNodeValue", argument: "none" },
+    { name: "SetValue", methodName: "setActiveNodeValue", argument: "value" },
+    { name: "InsertAfter", methodName: "insertAfterActiveNode", argument: "value" },
+    { name: "DeleteAfter", methodName: "deleteAfterActiveNode", argument: "none" },
+    { name: "InsertBefore", methodName: "insertBeforeActiveNode", argument: "value" },
+    { name: "DeleteBefore", methodName: "deleteBeforeActiveNode", argument: "none" },
+    { name: "IsActive", methodName: "isListActive", argument: "none" },
+];
+
+// Commands shared by the binary search tree and the balanced trees
+const treeCommands: ScriptCommand[] = [
+    { name: "InitTable", methodName: "initStructure", argument: "none" },
+    { name: "Insert", methodName: "insertNode", argument: "value" },
+    { name: "Delete", methodName: "deleteNode", argument: "value" },
+    { name: "Search", methodName: "searchNode", argument: "value" },
+    { name: "PreOrder", methodName: "preOrderTraversal", argument: "none" },
+    { name: "InOrder", methodName: "inOrderTraversal", argument: "none" },
+    { name: "PostOrder", methodName: "postOrderTraversal", argument: "none" },
+    { name: "LevelOrder", methodName: "levelOrderTraversal", argument: "none" },
+    { name: "Height", methodName: "showHeight", argument: "none" },
+];
+
+// Script languages of all structures, keyed by the structure type
+export const scriptLanguages: Record<string, ScriptLanguage> = {
+    stack: {
+        symbol: "S",
+        inputType: "stack",
+        commands: [
+            ...stackCommands,
+            { name: "Mode", methodName: "setMode", argument: "option", options: stackModes },
+        ],
+    },
+    linkedStack: {
+        symbol: "S",
+        inputType: "stack",
+        commands: stackCommands,
+    },
+    queue: {
+        symbol: "Q",
+        inputType: "queue",
+        commands: queueCommands,
+    },
+    linkedQueue: {
+        symbol: "Q",
+        inputType: "queue",
+        commands: queueCommands,
+    },
+    deque: {
+        symbol: "D",
+        inputType: "deque",
+        commands: [
+            { name: "InitDeque", methodName: "initStructure", argument: "capacity" },
+            { name: "AddFront", methodName: "addFront", argument: "value" },
+            { name: "AddRear", methodName: "addRear", argument: "value" },
+            { name: "RemoveFront", methodName: "removeFront", argument: "none" },
+            { name: "RemoveRear", methodName: "removeRear", argument: "none" },
+            { name: "PeekFront", methodName: "peekFront", argument: "none" },
+            { name: "PeekRear", methodName: "peekRear", argument: "none" },
+            { name: "IsEmpty", methodName: "isEmpty", argument: "none" },
+            { name: "IsFull", methodName: "isFull", argument: "none" },
+        ],
+    },
+    singlyLinkedList: {
+        symbol: "L",
+        inputType: "lists",
+        commands: [
+            ...singlyLinkedListCommands,
+            { name: "Search", methodName: "searchNode", argument: "value" },
+            { name: "Length", methodName: "showLength", argument: "none" },
+            { name: "InsertAt", methodName: "insertAt", argument: "indexValue" },
+            { name: "DeleteAt", methodName: "deleteAt", argument: "index" },
+            { name: "Reverse", methodName: "reverseList", argument: "none" },
+            { name: "Sort", methodName: "sortList", argument: "option", options: sortAlgorithms },
+            { name: "Corrupt", methodName: "corruptList", argument: "index" },
+            { name: "DetectCycle", methodName: "detectCycle", argument: "none" },
+        ],
+    },
+    circularSinglyLinkedList: {
+        symbol: "L",
+        inputType: "lists",
+        commands: [
+            ...singlyLinkedListCommands,
+            { name: "Josephus", methodName: "josephus", argument: "index", indexSymbol: "k" },
+            { name: "Rotate", methodName: "rotateList", argument: "index", indexSymbol: "n" },
+        ],
+    },
+    doublyLinkedList: {
+        symbol: "L",
+        inputType: "lists",
+        commands: [
+            ...doublyLinkedListCommands,
+            { name: "Reverse", methodName: "reverseList", argument: "none" },
+            { name: "Sort", methodName: "sortList", argument: "option", options: sortAlgorithms },
+        ],
+    },
+    circularDoublyLinkedList: {
+        symbol: "L",
+        inputType: "lists",
+        commands: doublyLinkedListCommands,
+    },
+    binarySearchTree: {
+        symbol: "T",
+        inputType: "tables",
+        commands: treeCommands,
+    },
+    avlTree: {
+        symbol: "T",
+        inputType: "tables",
+        commands: treeCommands,
+    },
+    redBlackTree: {
+        symbol: "T",
+        inputType: "tables",
+        commands: treeCommands,
+    },
+    hashTable: {
+        symbol: "T",
+        inputType: "tables",
+        commands: [
+            { name: "InitTable", methodName: "initStructure", argument: "capacity" },
+            { name: "Insert", methodName: "insertKey", argument: "value" },
+            { name: "Delete", methodName: "deleteKey", argument: "value" },
+            { name: "Search", methodName: "searchKey", argument: "value" },
+            { name: "HashFunction", methodName: "setHashFunction", argument: "option", options: hashFunctions },
+        ],
+    },
+    openAddressingTable: {
+        symbol: "T",
+        inputType: "tables",
+        commands: [
+            { name: "InitTable", methodName: "initStructure", argument: "capacity", primeOnly: true },
+            { name: "Insert", methodName: "insertKey", argument: "value" },
+            { name: "Delete", methodName: "deleteKey", argument: "value" },
+            { name: "Search", methodName: "searchKey", argument: "value" },
+            { name: "HashFunction", methodName: "setHashFunction", argument: "option", options: hashFunctions },
+            { name: "Probing", methodName: "setProbing", argument: "option", options: probingMethods },
+        ],
+    },
+    binaryHeap: {
+        symbol: "H",
+        inputType: "heap",
+        commands: [
+            { name: "InitHeap", methodName: "initStructure", argument: "capacity" },
+            { name: "Insert", methodName: "insertKey", argument: "value" },
+            { name: "Extract", aliases: ["ExtractMin", "ExtractMax"], methodName: "extractTop", argument: "none" },
+            { name: "BuildHeap", methodName: "buildHeap", argument: "values" },
+            { name: "HeapType", methodName: "setHeapType", argument: "option", options: heapTypes },
+        ],
+    },
+};
+
+// Format the signature of a command the same way as the method bar labels
+export function formatCommand(command: ScriptCommand, symbol: string): string {
+    if (command.argument === "value") return `${command.name}(${symbol}, El)`;
+    if (command.argument === "values") return `${command.name}(${symbol}, El, ...)`;
+    if (command.argument === "capacity") return `${command.name}(${symbol}, N)`;
+    if (command.argument === "option") return `${command.name}(${symbol}, ${command.options?.join(" | ")})`;
+    if (command.argument === "index") return `${command.name}(${symbol}, ${command.indexSymbol ?? "i"})`;
+    if (command.argument === "indexValue") return `${command.name}(${symbol}, i, El)`;
+    return `${command.name}(${symbol})`;
+}
+
+// Parse the script into steps, commands are separated by semicolons or new lines
+export function parseScript(script: string, language: ScriptLanguage): { steps: ScriptStep[], errors: ScriptError[] } {
+    const steps: ScriptStep[] = [];
+    const errors: ScriptError[] = [];
+
+    script.split(/\r?\n/).forEach((text, index) => {
+        const line = index + 1;
+        const code = text.replace(/\/\/.*$/, "");  // Comments run to the end of the line
+
+        code.split(";").map(statement => statement.trim()).filter(statement => statement.length > 0).forEach(statement => {
+            const result = parseStatement(statement, line, language);
+            if ("key" in result) {
+                errors.push(result);
+            } else {
+                steps.push(result);
+            }
+        });
+    });
+
+    return { steps, errors };
+}
+
+// Parse a single command in the form `Name(Symbol)` or `Name(Symbol, Argument)`
+function parseStatement(statement: string, line: number, language: ScriptLanguage): ScriptStep | ScriptError {
+    const match = statement.match(/^([A-Za-z]+)\s*\(\s*([^,()]*?)\s*(?:,\s*([^()]*?)\s*)?\)$/);
+    if (!match) return { line, key: "script.errors.syntax", params: { statement } };
+
+    const [, name, symbol, argument] = match;
+
+    // Command names are not case-sensitive
+    const command = language.commands.find(command =>
+        [command.name, ...(command.aliases ?? [])].some(alias => alias.toLowerCase() === name.toLowerCase())
+    );
+    if (!command) return { line, key: "script.errors.unknownCommand", params: { name } };
+
+    if (symbol !== language.symbol) {
+        return { line, key: "script.errors.wrongStructure", params: { name: symbol, expected: language.symbol } };
+    }
+
+    const usage = formatCommand(command, language.symbol);
+    if (command.argument === "none") {
+        if (argument !== undefined) return { line, key: "script.errors.unexpectedArgument", params: { usage } };
+        return { line, methodName: command.methodName };
+    }
+    if (argument === undefined || argument.length === 0) {
+        return { line, key: "script.errors.missingArgument", params: { usage } };
+    }
+
+    // The position comes first, the inserted value follows after a comma
+    if (command.argument === "index" || command.argument === "indexValue") {
+        const [index, rest] = argument.split(/\s*,\s*(.*)/s);
+        if (validateIndex(index)) return { line, key: "errors.inputIndex", params: {} };
+        if (command.argument === "index") {
+            if (rest !== undefined) return { line, key: "script.errors.unexpectedArgument", params: { usage } };
+            return { line, methodName: command.methodName, value: { index: parseInt(index, 10) } };
+        }
+
+        if (rest === undefined || rest.length === 0) return { line, key: "script.errors.missingArgument", params: { usage } };
+        const element = rest.replace(/^"(.*)"$/, "$1");
+        const error = validateInput(element, language.inputType);
+        if (error) return { line, key: error, params: {} };
+        return { line, methodName: command.methodName, value: { index: parseInt(index, 10), value: normalizeInput(element, language.inputType) } };
+    }
+
+    // Values may be written in quotes
+    const value = argument.replace(/^"(.*)"$/, "$1");
+
+    if (command.argument === "capacity") {
+        const error = validateCapacity(value, command.primeOnly);
+        if (error) return { line, key: error, params: {} };
+        return { line, methodName: command.methodName, value: parseInt(value, 10) };
+    }
+
+    if (command.argument === "option") {
+        // Options are not case-sensitive, the method receives the declared spelling
+        const option = command.options?.find(option => option.toLowerCase() === value.toLowerCase());
+        if (!option) return { line, key: "script.errors.unknownOption", params: { value, usage } };
+        return { line, methodName: command.methodName, value: option };
+    }
+
+    // The values of a list are separated by commas or spaces
+    if (command.argument === "values") {
+        const error = validateValueList(value, language.inputType);
+        if (error) return { line, key: error, params: {} };
+        return { line, methodName: command.methodName, value: normalizeValueList(value, language.inputType) };
+    }
+
+    const error = validateInput(value, language.inputType);
+    if (error) return { line, key: error, params: {} };
+    return { line, methodName: command.methodName, value: normalizeInput(value, language.inputType) };
+}
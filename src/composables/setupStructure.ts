@@ -1,7 +1,12 @@
-import { onMounted } from "vue";
+import { onMounted, onBeforeUnmount } from "vue";
 import { getCenteringSetting, getAnimationSpeed } from "@/composables/localStorageSettings";
+import { takePendingState } from "@/composables/shareLink";
+import { downloadFile } from "@/composables/structureFile";
 import BinarySearchTree from "@/utils/binarySearchTree";
 
+// ID of the graph container used when the page shows a single structure
+export const defaultGraphId = "structureGraph";
+
 // Function to set up the visualization of a data structure
 function setupStructure(
     structure: any,          // Reactive reference for the data structure instance
@@ -9,27 +14,32 @@ function setupStructure(
     output: any,             // Reactive object for output logs
     dialogVisible: any,      // Reactive variable controlling the visibility of the dialog
     isAnimating: any,        // Reactive variable indicating if an animation is running
-    statusInfo: any          // Reactive variable storing the current status information
+    statusInfo: any,         // Reactive variable storing the current status information
+    handleMethod?: (methodName: string, value?: any) => Promise<void>, // Method handler used to load a shared structure
+    graphId: string = defaultGraphId, // ID of the HTML element where the structure is displayed
+    source?: string          // Translation key of the structure name added to its log entries, used when the output is shared
 ) {
     // Lifecycle hook that runs once the component is created and inserted into the DOM
     onMounted(() => {
         // Initialize the structure using the provided class
-        structure.value = new structureClass("structureGraph");
+        structure.value = new structureClass(graphId);
 
         // Set up the logger function for the structure
         structure.value.setLogger((message: { key: string, params?: Record<string, unknown> }) => {
-            // Check for an update format for BinarySearchTree
-            if (structureClass === BinarySearchTree && message.key.startsWith("__UPDATE_LAST__")) {
-                // Update the last log entry with the new message content
-                output.lines[output.lines.length - 1] = {
+            // Check for an update format for BinarySearchTree and the trees based on it
+            if (structure.value instanceof BinarySearchTree && message.key.startsWith("__UPDATE_LAST__")) {
+                // Update the last log entry of this structure with the new message content
+                output.lines[output.lines.findLastIndex((line: { source?: string }) => line.source === source)] = {
                     key: message.key.replace("__UPDATE_LAST__", ""), // Remove the special update flag
                     params: message.params || {},  // Add additional parameters if present
+                    source: source,
                 };
             } else {
                 // Add a new log entry if not an update
                 output.lines.push({
                     key: message.key,
                     params: message.params || {},  // Include parameters if available
+                    source: source,
                 });
             }
             // Show the dialog whenever a new log message is added
@@ -46,11 +56,30 @@ function setupStructure(
             statusInfo.value = status || "";
         });
 
-        // Configure the animation speed based on user settings from local storage
-        structure.value.setAnimationSpeed(getAnimationSpeed());
+        // Set up a callback to download the recording of an operation
+        structure.value.setRecordingCallback((recording: Blob, format: string) => {
+            downloadFile(recording, `${structure.value.getStructureType()}.${format}`);
+        });
+
+        // State shared by a link, only the visualization that can load it uses its settings
+        const pendingState = takePendingState();
+        const sharedState = handleMethod ? pendingState : null;
+
+        // Configure the animation speed based on the shared or stored user settings
+        structure.value.setAnimationSpeed(sharedState?.speed ?? getAnimationSpeed());
+
+        // Enable or disable centering based on the shared or stored setting
+        structure.value.setCenteringEnable(sharedState?.centering ?? getCenteringSetting());
+
+        // Load the structure shared by a link, if there is one
+        if (sharedState && handleMethod) {
+            handleMethod("importStructure", JSON.stringify(sharedState.structure));
+        }
+    });
 
-        // Enable or disable centering based on the stored setting
-        structure.value.setCenteringEnable(getCenteringSetting());
+    // Stop the recording and release a paused animation when the view is closed
+    onBeforeUnmount(() => {
+        structure.value?.dispose();
     });
 }
 
@@ -0,0 +1,69 @@
+import type { StructureJSON } from "@/utils/base/baseStructure";
+
+// Name of the query parameter holding the shared state
+export const SHARE_QUERY_KEY = "state";
+
+// State of a visualization that can be shared by a link
+export interface SharedState {
+    structure: StructureJSON;   // Logical content of the structure
+    speed: number;              // Animation speed in milliseconds
+    centering: boolean;         // Whether automatic centering is enabled
+}
+
+// Shared state read from the link, waiting for the structure to be mounted
+let pendingState: SharedState | null = null;
+
+// Encode the shared state into a compact URL-safe string (base64url of a short JSON)
+export function encodeSharedState(state: SharedState): string {
+    const json = JSON.stringify({ s: state.structure, sp: state.speed, c: state.centering ? 1 : 0 });
+    const bytes = new TextEncoder().encode(json);
+
+    let binary = "";
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Decode the shared state from the query parameter (null if it is not valid)
+export function decodeSharedState(value: string): SharedState | null {
+    try {
+        const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+        const binary = atob(base64 + "=".repeat((4 - base64.length % 4) % 4));
+        const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+        const data = JSON.parse(new TextDecoder().decode(bytes));
+
+        // Check the types of all parts of the state
+        if (typeof data !== "object" || data === null || typeof data.s !== "object" || data.s === null ||
+            typeof data.sp !== "number" || data.sp < 0 || data.sp > 800 || (data.c !== 0 && data.c !== 1)) return null;
+
+        return { structure: data.s, speed: data.sp, centering: data.c === 1 };
+    } catch {
+        return null;
+    }
+}
+
+// Create a link to the current page with the shared state in the query
+export function createShareLink(state: SharedState): string {
+    const url = new URL(window.location.href);
+    url.search = "";
+    url.hash = "";
+    url.searchParams.set(SHARE_QUERY_KEY, encodeSharedState(state));
+    return url.toString();
+}
+
+// Store the state from the link until the visualization is mounted
+export function setPendingState(state: SharedState | null): void {
+    pendingState = state;
+}
+
+// Read the state from the link without taking it (null if there is none)
+export function getPendingState(): SharedState | null {
+    return pendingState;
+}
+
+// Take the state from the link (it is used only once)
+export function takePendingState(): SharedState | null {
+    const state = pendingState;
+    pendingState = null;
+    return state;
+}
@@ -0,0 +1,35 @@
+import type { StructureJSON } from "@/utils/base/baseStructure";
+
+// Options of an exported image of the graph
+export interface ImageExportOptions {
+    format: "png" | "svg";   // Format of the image
+    scale: number;           // Scale of the image relative to the graph size
+    transparent: boolean;    // Flag indicating if the background is transparent
+}
+
+// Download the content as a file with the given name
+export function downloadFile(content: Blob, fileName: string): void {
+    const url = URL.createObjectURL(content);
+
+    // Use a temporary link to start the download
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+
+    URL.revokeObjectURL(url);
+}
+
+// Download the exported structure as a JSON file named after the structure type
+export function downloadStructureFile(json: StructureJSON): void {
+    downloadFile(new Blob([JSON.stringify(json, null, 2)], { type: "application/json" }), `${json.structure}.json`);
+}
+
+// Parse the content of an uploaded file (null if it is not valid JSON)
+export function parseStructureFile(content: string): unknown {
+    try {
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
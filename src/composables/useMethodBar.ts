@@ -1,4 +1,5 @@
 import { ref, watch } from "vue";
+import type { IndexedValue } from "@/composables/inputValidation";
 
 // Function to manage the method bar functionality
 export function useMethodBar(
@@ -59,7 +60,7 @@ export function useMethodBar(
     };
 
     // Function to handle the submission of input data
-    const onSubmitInput = (payload: { methodName: string; value: string; animationBlocked: boolean }) => {
+    const onSubmitInput = (payload: { methodName: string; value: string | IndexedValue; animationBlocked: boolean }) => {
         // Check if animation is blocking the method call
         if (payload.animationBlocked) {
             showWarningMessage("animation", payload.methodName);
@@ -1,38 +1,184 @@
-import { ref, shallowRef, reactive, watch } from 'vue';
+import { ref, shallowRef, reactive, watch, computed, onMounted, onBeforeUnmount } from 'vue';
+import type { Ref } from 'vue';
+import { downloadFile, downloadStructureFile, parseStructureFile } from "@/composables/structureFile";
+import type { ImageExportOptions } from "@/composables/structureFile";
+import { createShareLink } from "@/composables/shareLink";
+import type { RecordingFormat } from "@/utils/base/animationRecorder";
+import { scriptLanguages, parseScript } from "@/composables/scriptCommands";
+import type { ScriptStep, ScriptError } from "@/composables/scriptCommands";
+
+// Maximum number of operations that can be undone
+const historyLimit: number = 50;
+
+// Entry of the output log, the source names the structure when several structures share the output
+export interface OutputLine {
+    key: string;
+    params?: Record<string, unknown>;
+    source?: string;
+}
 
 // Interface to define the structure of the input data for useVisualization
 interface UseVisualizationData {
     // A function that returns an object of method handlers
     methodHandlers: (structure: any, isInit: any, dialogVisible: any, output: any) => Record<string, (val?: any) => Promise<void> | void>;
+    // An optional function called after a state is restored by undo, redo or file import
+    onRestore?: (structure: any) => void;
+    // Optional output log and dialog visibility shared with other visualizations on the same page
+    output?: { lines: OutputLine[] };
+    dialogVisible?: Ref<boolean>;
 }
 
 // Function to visualization logic and state
-export function useVisualization({ methodHandlers }: UseVisualizationData) {
+export function useVisualization({ methodHandlers, onRestore, ...shared }: UseVisualizationData) {
     // Reactive reference to the data structure object
     const structure = shallowRef<any>(null);
 
     // Reactive references to control UI elements and animation speed
-    const dialogVisible = ref(false);   // Indicates whether the dialog is visible
-    const output = reactive<{ lines: { key: string, params?: Record<string, unknown> }[] }>({ lines: [] }); // Stores output logs
+    const dialogVisible = shared.dialogVisible ?? ref(false);   // Indicates whether the dialog is visible
+    const output = shared.output ?? reactive<{ lines: OutputLine[] }>({ lines: [] }); // Stores output logs
     const animationSpeed = ref<number>(400); // Default animation speed in milliseconds
     const isInit = ref(false);          // Tracks whether the structure is initialized
     const isAnimating = ref(false);     // Indicates if an animation is currently active
     const statusInfo = ref("");         // Holds status information for the visualization
+    const isPaused = ref(false);        // Indicates if the animation is paused (step-by-step mode)
+    const timelineLength = ref(0);      // Number of frames recorded during the last operation
+    const timelineFrame = ref(0);       // Index of the timeline frame currently displayed
+    const recordingFormat = ref<RecordingFormat | null>(null); // Format of the recorded operations, null if not recording
+    const scriptErrors = ref<ScriptError[]>([]);      // Errors found in the last run script
+    const scriptLine = ref<number | null>(null);      // Line of the script being executed, null if no script runs
+
+    // Commands of the script language for the current structure
+    const scriptLanguage = computed(() => structure.value ? scriptLanguages[structure.value.getStructureType()] ?? null : null);
+
+    // History of saved structure states for undo and redo
+    const undoStack = ref<any[]>([]);   // States before the performed operations
+    const redoStack = ref<any[]>([]);   // States before the undone operations
+    const canUndo = computed(() => undoStack.value.length > 0);
+    const canRedo = computed(() => redoStack.value.length > 0);
+
+    // Method handlers shared by all structures
+    const commonHandlers: Record<string, (val?: any) => Promise<void> | void> = {
+        // Download the structure as a JSON file
+        exportStructure: () => {
+            if (structure.value?.isInitialized()) downloadStructureFile(structure.value.toJSON());
+        },
+        // Download an image of the whole graph
+        exportImage: (options?: ImageExportOptions) => {
+            if (!structure.value?.isInitialized() || !options) return;
+
+            const fileName = `${structure.value.getStructureType()}.${options.format}`;
+            if (options.format === "svg") {
+                const svg = structure.value.exportSVG(options.scale, options.transparent);
+                if (svg) downloadFile(new Blob([svg], { type: "image/svg+xml" }), fileName);
+            } else {
+                const png = structure.value.exportPNG(options.scale, options.transparent);
+                if (png) downloadFile(png, fileName);
+            }
+        },
+        // Load the structure from the content of a JSON file
+        importStructure: (content?: string) => {
+            if (!structure.value) return;
+
+            if (structure.value.fromJSON(parseStructureFile(content ?? ""))) {
+                isInit.value = structure.value.isInitialized();  // Update the initialization status
+                onRestore?.(structure);
+            } else {
+                output.lines.push({ key: "file.importError", params: {} });
+                dialogVisible.value = true;  // Show the error in the output dialog
+            }
+        },
+        // Copy a link with the structure and the settings to the clipboard
+        copyShareLink: async () => {
+            if (!structure.value?.isInitialized()) return;
+
+            const link = createShareLink({
+                structure: structure.value.toJSON(),
+                speed: structure.value.getAnimationSpeed(),
+                centering: structure.value.isCenteringEnabled(),
+            });
+
+            try {
+                await navigator.clipboard.writeText(link);
+                output.lines.push({ key: "share.copied", params: {} });
+            } catch {
+                output.lines.push({ key: "share.copyError", params: { link } });
+            }
+            dialogVisible.value = true;  // Show the result in the output dialog
+        },
+    };
 
     // Function to handle method calls dynamically
     const handleMethod = async (methodName: string, value?: any) => {
         // Retrieve method handlers for the current structure
-        const methods = methodHandlers(structure, isInit, dialogVisible, output);
+        const methods = { ...commonHandlers, ...methodHandlers(structure, isInit, dialogVisible, output) };
 
         // Check if the method exists and execute it
         if (methods[methodName]) {
+            // Save the state before the method, unless another animation is running
+            const stateBefore = isAnimating.value ? null : structure.value?.saveState();
+
             await methods[methodName](value ?? '');  // Call the method with the given value
+            syncTimeline();  // The method may have recorded or cleared the timeline
+            recordHistory(stateBefore);
         } else {
             // Log a warning if the method name is unknown
             console.warn(`Unknown method: ${methodName}`);
         }
     };
 
+    // Function to store the state before an operation, if the operation changed the structure
+    const recordHistory = (stateBefore: any) => {
+        if (!stateBefore) return;
+
+        // Methods that only read the structure are not stored
+        if (JSON.stringify(stateBefore) === JSON.stringify(structure.value.saveState())) return;
+
+        undoStack.value.push(stateBefore);
+        if (undoStack.value.length > historyLimit) undoStack.value.shift();
+        redoStack.value = [];  // A new operation discards the undone ones
+    };
+
+    // Function to restore a state and move the current one to the opposite history stack
+    const restoreFromHistory = (from: any[], to: any[]) => {
+        if (isAnimating.value || !structure.value || from.length === 0) return;
+
+        const currentState = structure.value.saveState();
+        const state = from.pop();
+
+        // Return the state back if the structure refused to restore it
+        if (!structure.value.restoreState(state)) {
+            from.push(state);
+            return;
+        }
+        to.push(currentState);
+
+        isInit.value = structure.value.isInitialized();  // Update the initialization status
+        syncTimeline();
+        onRestore?.(structure);
+    };
+
+    // Function to undo the last operation
+    const undo = () => restoreFromHistory(undoStack.value, redoStack.value);
+
+    // Function to redo the last undone operation
+    const redo = () => restoreFromHistory(redoStack.value, undoStack.value);
+
+    // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z to redo
+    const onKeyDown = (event: KeyboardEvent) => {
+        if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return;
+
+        // Leave the shortcut to text fields
+        const target = event.target as HTMLElement | null;
+        if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+    };
+
+    onMounted(() => window.addEventListener("keydown", onKeyDown));
+    onBeforeUnmount(() => window.removeEventListener("keydown", onKeyDown));
+
     // Function to center the visualization canvas
     const centerCanvas = (enabled: boolean = true) => {
         structure.value?.centerCanvas(enabled);  // Call the method to center the canvas
@@ -43,6 +189,99 @@ export function useVisualization({ methodHandlers }: UseVisualizationData) {
         structure.value?.setCenteringEnable(val); // Enable or disable centering
     };
 
+    // Function to pause or resume the animation
+    const togglePause = () => {
+        if (!structure.value) return;
+
+        if (isPaused.value) {
+            structure.value.resumeAnimation();  // Continue at the normal speed
+        } else {
+            structure.value.pauseAnimation();   // Stop at the next animation step
+        }
+        isPaused.value = structure.value.isAnimationPaused();
+    };
+
+    // Function to advance the paused animation by a single step
+    const stepAnimation = () => {
+        structure.value?.stepAnimation();
+    };
+
+    // Function to enable or disable recording of the following operations
+    const setRecording = (format: RecordingFormat | null) => {
+        structure.value?.setRecording(format);
+        recordingFormat.value = format;
+    };
+
+    // Function to check a script step the same way as the buttons of the method bar
+    const checkScriptStep = (step: ScriptStep): ScriptError | null => {
+        if (step.methodName === "initStructure" && isInit.value) {
+            return { line: step.line, key: "script.errors.alreadyInit", params: {} };
+        }
+        if (step.methodName !== "initStructure" && !isInit.value) {
+            return { line: step.line, key: "script.errors.notInit", params: {} };
+        }
+        return null;
+    };
+
+    // Function to run the commands of a script one after another
+    const runScript = async (script: string, animate: boolean) => {
+        if (!scriptLanguage.value || isAnimating.value || scriptLine.value !== null) return;
+
+        // Nothing runs until the whole script is valid
+        const { steps, errors } = parseScript(script, scriptLanguage.value);
+        scriptErrors.value = errors;
+        if (errors.length > 0) return;
+
+        // Settings of the visualization, restored once the script ends
+        const speed: number = structure.value.getAnimationSpeed();
+        const centering: boolean = structure.value.isCenteringEnabled();
+
+        // Without animation, the operations run without delays and without centering
+        if (!animate) {
+            structure.value.setAnimationSpeed(0);
+            structure.value.setCenteringEnable(false);
+        }
+
+        try {
+            for (const step of steps) {
+                const error = checkScriptStep(step);
+                if (error) {
+                    scriptErrors.value = [error];  // Stop at the first command that cannot run
+                    break;
+                }
+
+                scriptLine.value = step.line;
+                await handleMethod(step.methodName, step.value);
+            }
+        } finally {
+            scriptLine.value = null;
+
+            // Restore the settings used before the script
+            if (!animate) {
+                structure.value.setAnimationSpeed(speed);
+                structure.value.setCenteringEnable(centering);
+                await structure.value.centerCanvas();
+            }
+        }
+    };
+
+    // Function to read the timeline state from the structure
+    const syncTimeline = () => {
+        timelineLength.value = structure.value?.getTimelineLength() ?? 0;
+        timelineFrame.value = Math.max(structure.value?.getTimelineIndex() ?? 0, 0);
+    };
+
+    // Function to display a frame of the recorded timeline
+    const showTimelineFrame = (index: number) => {
+        structure.value?.showTimelineFrame(index);
+        syncTimeline();
+    };
+
+    // Watcher to read the recorded timeline once an animation finishes
+    watch(isAnimating, (animating) => {
+        if (!animating) syncTimeline();
+    });
+
     // Watcher to move the graph when the dialog visibility changes
     watch(dialogVisible, (visible) => {
         structure.value?.moveGraph(visible);  // Adjust graph position based on dialog visibility
@@ -62,8 +301,24 @@ export function useVisualization({ methodHandlers }: UseVisualizationData) {
         isInit,                // Boolean flag for initialization state
         isAnimating,           // Boolean flag for animation state
         statusInfo,            // Status information about the visualization
+        isPaused,              // Boolean flag for paused animation state
+        timelineLength,        // Number of frames in the recorded timeline
+        timelineFrame,         // Index of the displayed timeline frame
+        recordingFormat,       // Format of the recorded operations, null if not recording
+        scriptLanguage,        // Commands of the script language for the structure
+        scriptErrors,          // Errors found in the last run script
+        scriptLine,            // Line of the script being executed
+        canUndo,               // Boolean flag whether an operation can be undone
+        canRedo,               // Boolean flag whether an operation can be redone
         centerCanvas,          // Function to center the visualization on the canvas
         updateCenteringEnable, // Function to enable/disable centering
+        togglePause,           // Function to pause or resume the animation
+        stepAnimation,         // Function to advance the paused animation by one step
+        setRecording,          // Function to enable or disable recording of operations
+        runScript,             // Function to run a script of commands
+        showTimelineFrame,     // Function to display a frame of the timeline
+        undo,                  // Function to undo the last operation
+        redo,                  // Function to redo the last undone operation
         handleMethod,          // General method handler for calling structure methods
     };
 }
@@ -8,7 +8,7 @@ export function useWarningBubble(
     isAnimating: Ref<boolean>,              // Reactive reference to check if animation is active
     methodName: string,                     // The method name associated with the warning
     id: string,                             // Unique ID for the warning element
-    structureType: "stack" | "queue" | "lists" | "tables", // Type of data structure
+    structureType: "stack" | "queue" | "deque" | "lists" | "tables" | "heap", // Type of data structure
     options?: { hasInput?: boolean }         // Optional parameter to specify if input is involved
 ) {
     const { t } = useI18n();  // Translation function
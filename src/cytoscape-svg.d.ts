@@ -0,0 +1,5 @@
+declare module "cytoscape-svg" {
+    import { Ext } from "cytoscape";
+    const svg: Ext;
+    export default svg;
+}
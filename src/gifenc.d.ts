@@ -0,0 +1,17 @@
+declare module "gifenc" {
+    export type Palette = number[][];
+
+    export interface Encoder {
+        writeFrame(index: Uint8Array, width: number, height: number, options?: {
+            palette?: Palette;
+            delay?: number;
+            repeat?: number;
+        }): void;
+        finish(): void;
+        bytes(): Uint8Array;
+    }
+
+    export function GIFEncoder(): Encoder;
+    export function quantize(data: Uint8ClampedArray, maxColors: number): Palette;
+    export function applyPalette(data: Uint8ClampedArray, palette: Palette): Uint8Array;
+}
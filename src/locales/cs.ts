@@ -5,17 +5,35 @@ export default {
         singly: "Jednosměrně vázaný",
         doubly: "Dvousměrně vázaný",
         circularSingly: "Kruhový jednosměrný",
+        circularDoubly: "Kruhový obousměrný",
         activeList: "Aktivita seznamu:",
+        listOperations: "Operace nad seznamem:",
+        circularOperations: "Operace nad kruhem:",
 
         singlyList: "Jednosměrně vázaný seznam",
         doublyList: "Dvousměrně vázaný seznam",
         circularSinglyList: "Kruhový jednosměrný seznam",
+        circularDoublyList: "Kruhový obousměrný seznam",
         stack: "Zásobník",
+        linkedStack: "Zásobník nad seznamem",
         queue: "Fronta",
+        linkedQueue: "Fronta nad seznamem",
+        deque: "Oboustranná fronta",
         trees: "Stromové datové struktury",
         bvs: "Binární vyhledávací strom",
         avl: "AVL strom",
-        hashes: "Hashovací tabulky"
+        redBlack: "Červeno-černý strom",
+        hashes: "Hashovací tabulky",
+        chaining: "Se zřetězením",
+        chainingTable: "Hashovací tabulka se zřetězením",
+        openAddressing: "S otevřeným adresováním",
+        openAddressingTable: "Hashovací tabulka s otevřeným adresováním",
+        binaryHeap: "Binární halda",
+
+        comparison: "Porovnání",
+        compareStacks: "Zásobník a zásobník nad seznamem",
+        compareQueues: "Fronta a fronta nad seznamem",
+        compareTrees: "BVS a AVL strom"
     },
 
     methodBar: {
@@ -35,6 +53,8 @@ export default {
         inputNumber: "Zadej číslo!",
         biggerThanZero: "Číslo musí být větší než 0!",
         lessThanHundred: "Číslo musí být menší než 100!",
+        primeNumber: "Číslo musí být prvočíslo!",
+        inputIndex: "Zadej pozici (0 nebo větší)!",
     },
 
     warnings: {
@@ -46,6 +66,9 @@ export default {
         queue: {
             mustInit: "Nejdříve inicializuj strukturu pomocí `InitQueue(Q)` nebo `Náhodně vygenerovat strukturu`.",
         },
+        deque: {
+            mustInit: "Nejdříve inicializuj strukturu pomocí `InitDeque(D)` nebo `Náhodně vygenerovat strukturu`.",
+        },
         lists: {
             mustInit: "Nejdříve inicializuj strukturu pomocí `InitList(L)` nebo `Náhodně vygenerovat strukturu`.",
             singlyNotActive: "Nejdříve aktivuj seznam pomocí `First(L)`.",
@@ -54,6 +77,9 @@ export default {
         tables: {
             mustInit: "Nejdříve inicializuj strukturu pomocí `InitTable(T)` nebo `Náhodně vygenerovat strukturu`.",
         },
+        heap: {
+            mustInit: "Nejdříve inicializuj strukturu pomocí `InitHeap(H)` nebo `Náhodně vygenerovat strukturu`.",
+        },
     },
 
     status: {
@@ -85,7 +111,9 @@ export default {
     header: {
         lang: "Jazyk:",
         tutorial: "Jak používat aplikaci",
-        center: "Centrovat graf"
+        center: "Centrovat graf",
+        undo: "Zpět (Ctrl+Z)",
+        redo: "Znovu (Ctrl+Shift+Z)"
     },
 
     slider: {
@@ -99,6 +127,11 @@ export default {
         clear: "Vyčistit plochu",
         automaticCenter: "Automatické centrování",
         manualCenter: "Manuální posouvání",
+        pause: "Pozastavit animaci",
+        resume: "Pokračovat v animaci",
+        step: "Další krok animace",
+        record: "Nahrávat operace",
+        stopRecording: "Zastavit nahrávání",
         speed: {
             slowest: "Nejpomalejší",
             slower: "Pomalejší",
@@ -109,6 +142,53 @@ export default {
         }
     },
 
+    timeline: {
+        title: "Časová osa",
+        back: "Předchozí snímek",
+        forward: "Další snímek",
+        frame: "Snímek {current} / {total}"
+    },
+
+    file: {
+        export: "Stáhnout strukturu jako soubor",
+        import: "Nahrát strukturu ze souboru",
+        importError: "Nahrání: CHYBA – soubor neobsahuje platnou strukturu tohoto typu!"
+    },
+
+    image: {
+        export: "Stáhnout obrázek",
+        scale: "Měřítko",
+        transparent: "Průhledné pozadí",
+        download: "Stáhnout",
+        cancel: "Zrušit"
+    },
+
+    script: {
+        title: "Skript",
+        placeholder: "InitList(L); InsertFirst(L, 5); First(L); Succ(L)",
+        animate: "Animovat příkazy",
+        run: "Spustit",
+        running: "Probíhá řádek {line}…",
+        commands: "Dostupné příkazy",
+        line: "Řádek {line}:",
+        errors: {
+            syntax: "příkaz \"{statement}\" nelze přečíst.",
+            unknownCommand: "neznámý příkaz \"{name}\".",
+            wrongStructure: "neznámá struktura \"{name}\", použijte \"{expected}\".",
+            unexpectedArgument: "příkaz nemá žádný argument, použijte {usage}.",
+            missingArgument: "příkaz potřebuje argument, použijte {usage}.",
+            unknownOption: "neznámá možnost \"{value}\", použijte {usage}.",
+            alreadyInit: "struktura je již inicializována.",
+            notInit: "struktura ještě není inicializována."
+        }
+    },
+
+    share: {
+        copy: "Kopírovat odkaz",
+        copied: "Odkaz na strukturu byl zkopírován do schránky.",
+        copyError: "Odkaz se nepodařilo zkopírovat, zkopírujte jej ručně: {link}"
+    },
+
     outputDialog: {
         label: "Výstup"
     },
@@ -130,6 +210,28 @@ export default {
         firstEmpty: "First(L): Žádná akce - seznam je prázdný.",
         lastEmpty: "Last(L): Žádná akce - seznam je prázdný.",
         setActiveValue: "SetValue(L): Hodnota aktivního prvku byla změněna na hodnotu {value}.",
+
+        searchFound: "Search(L, K): Hodnota {value} byla nalezena na pozici {index}.",
+        searchNotFound: "Search(L, K): Hodnota {value} v seznamu není.",
+        length: "Length(L): Seznam má {length} uzlů.",
+        insertAtError: "InsertAt(L, i, El): Žádná akce - pozice {index} neexistuje, seznam má {length} uzlů.",
+        deleteAtError: "DeleteAt(L, i): Žádná akce - pozice {index} neexistuje, poslední pozice je {last}.",
+        deleteAtEmpty: "DeleteAt(L, i): Žádná akce - pokus o smazání prvku z prázdného seznamu.",
+        reverse: "Reverse(L): Pořadí uzlů v seznamu bylo obráceno.",
+        reverseLoop: "Reverse(L): Žádná akce - seznam obsahuje cyklus vytvořený operací Corrupt(L, i).",
+        sort: "Sort(L, A): Seznam byl seřazen algoritmem {algorithm} sort s {comparisons} porovnáními a {changes} změnami ukazatelů.",
+        josephus: "Josephus(L, k): Pořadí vyřazení je {order}, přežil uzel {survivor}.",
+        josephusStep: "Josephus(L, k): Uzel {value} byl vyřazen jako {order}. v pořadí.",
+        josephusError: "Josephus(L, k): Žádná akce - k musí být alespoň 1, bylo zadáno {step}.",
+        josephusEmpty: "Josephus(L, k): Žádná akce - seznam je prázdný.",
+        rotate: "Rotate(L, n): Seznam byl otočen o {steps} uzlů, prvním uzlem je nyní {value}.",
+        rotateEmpty: "Rotate(L, n): Žádná akce - pokus o otočení prázdného seznamu.",
+        corrupt: "Corrupt(L, i): Poslední uzel nyní ukazuje zpět na uzel {value} na pozici {index}.",
+        corruptError: "Corrupt(L, i): Žádná akce - pozice {index} neexistuje, poslední pozice je {last}.",
+        corruptEmpty: "Corrupt(L, i): Žádná akce - seznam je prázdný.",
+        cycleMeet: "DetectCycle(L): Ukazatele Slow a Fast se setkaly v uzlu {value}, seznam obsahuje cyklus.",
+        cycleFound: "DetectCycle(L): Cyklus začíná uzlem {value} na pozici {index}.",
+        cycleNone: "DetectCycle(L): Ukazatel Fast dosáhl konce, seznam neobsahuje cyklus.",
     },
     stack: {
         top: "Top(S): Hodnota prvku na vrcholu zásobníku je {value}.",
@@ -140,6 +242,10 @@ export default {
         notFull: "IsFull(S): False (zásobník není plný).",
         addFull: "Push(S, El): Žádná akce - pokus o přidání prvku do plného zásobníku.",
         removeEmpty: "Pop(S): Žádná akce - pokus o odstranění prvku z prázdného zásobníku.",
+        mode: "Mode(S, M): Zásobník nyní pracuje v režimu {mode}.",
+        grow: "Push(S, El): Zásobník je plný - pole o kapacitě {from} nahrazuje nové pole o kapacitě {to}.",
+        shrink: "Pop(S): Je využita méně než čtvrtina zásobníku - pole o kapacitě {from} nahrazuje nové pole o kapacitě {to}.",
+        cost: "Cena: {operations} operací a {copies} zkopírovaných prvků, amortizovaná cena {amortized} na operaci.",
     },
 
     queue: {
@@ -153,11 +259,77 @@ export default {
         removeEmpty: "Remove(Q): Žádná akce - pokus o odstranění prvku z prázdné fronty.",
     },
 
+    deque: {
+        peekFront: "PeekFront(D): Hodnota prvního prvku v oboustranné frontě je {value}.",
+        peekFrontError: "PeekFront(D): CHYBA – oboustranná fronta je prázdná!",
+        peekRear: "PeekRear(D): Hodnota posledního prvku v oboustranné frontě je {value}.",
+        peekRearError: "PeekRear(D): CHYBA – oboustranná fronta je prázdná!",
+        empty: "IsEmpty(D): True (oboustranná fronta je prázdná).",
+        notEmpty: "IsEmpty(D): False (oboustranná fronta není prázdná).",
+        full: "IsFull(D): True (oboustranná fronta je plná).",
+        notFull: "IsFull(D): False (oboustranná fronta není plná).",
+        addFrontFull: "AddFront(D, El): Žádná akce - pokus o přidání prvku do plné oboustranné fronty.",
+        addRearFull: "AddRear(D, El): Žádná akce - pokus o přidání prvku do plné oboustranné fronty.",
+        removeFrontEmpty: "RemoveFront(D): Žádná akce - pokus o odstranění prvku z prázdné oboustranné fronty.",
+        removeRearEmpty: "RemoveRear(D): Žádná akce - pokus o odstranění prvku z prázdné oboustranné fronty.",
+    },
+
     tree: {
         searchFound: "Search(T, K): True (uzel s klíčem {key} se nachází ve stromu).",
         searchNotFound: "Search(T, K): False (uzel s klíčem {key} se nenachází ve stromu).",
         height: "Height(T): Strom má výšku {height}.",
 
         deleteEmpty: "Delete(T, K): Žádná akce - pokus o smazání uzlu v prázdném stromu.",
-    }
+    },
+
+    avl: {
+        rotation: "Vyvážení: rotace {rotation} v uzlu {key} s faktorem vyváženosti {balance}.",
+    },
+
+    redBlack: {
+        insertCase1: "Oprava, případ 1: rodič {parent} i strýc {uncle} červeného uzlu {key} jsou červení, přebarví se na černo a prarodič {grandparent} na červeno.",
+        insertCase2: "Oprava, případ 2: červený uzel {key} je vnitřním potomkem červeného rodiče {parent}, rodič se otočí, aby se uzel stal vnějším potomkem.",
+        insertCase3: "Oprava, případ 3: červený uzel {key} je vnějším potomkem červeného rodiče {parent}, rodič se přebarví na černo, prarodič {grandparent} na červeno a prarodič se otočí.",
+        insertRoot: "Oprava: kořen {key} se přebarví na černo.",
+        deleteRecolor: "Oprava: červený uzel {key} převezme černou navíc a přebarví se na černo.",
+        deleteCase1: "Oprava, případ 1: sourozenec {sibling} dvojitě černého uzlu {key} je červený, přebarví se na černo, rodič {parent} na červeno a rodič se otočí.",
+        deleteCase2: "Oprava, případ 2: sourozenec {sibling} dvojitě černého uzlu {key} má černé potomky, přebarví se na červeno a černá navíc přechází na rodiče {parent}.",
+        deleteCase3: "Oprava, případ 3: sourozenec {sibling} dvojitě černého uzlu {key} má červeného bližšího potomka {nephew} a černého vzdálenějšího potomka, sourozenec se přebarví na červeno, bližší potomek na černo a sourozenec se otočí.",
+        deleteCase4: "Oprava, případ 4: sourozenec {sibling} dvojitě černého uzlu {key} má červeného vzdálenějšího potomka {nephew}, sourozenec převezme barvu rodiče {parent}, rodič i vzdálenější potomek se přebarví na černo a rodič se otočí.",
+    },
+
+    hashTable: {
+        insert: "Insert(T, K): Klíč {key} byl přidán do řetězce přihrádky {index}, faktor naplnění je {loadFactor}.",
+        insertDuplicate: "Insert(T, K): Žádná akce - klíč {key} už je v řetězci přihrádky {index}.",
+        searchFound: "Search(T, K): True (klíč {key} se nachází v řetězci přihrádky {index}).",
+        searchNotFound: "Search(T, K): False (klíč {key} se nenachází v řetězci přihrádky {index}).",
+        delete: "Delete(T, K): Klíč {key} byl odstraněn z řetězce přihrádky {index}, faktor naplnění je {loadFactor}.",
+        deleteNotFound: "Delete(T, K): Žádná akce - klíč {key} se nenachází v řetězci přihrádky {index}.",
+        hashFunction: "HashFunction(T, H): Klíče jsou rozmístěny hashovací funkcí {formula}.",
+    },
+
+    openAddressingTable: {
+        insert: "Insert(T, K): Klíč {key} byl uložen na pozici {index} po prozkoumání pozic {sequence}, faktor naplnění je {loadFactor}.",
+        insertDuplicate: "Insert(T, K): Žádná akce - klíč {key} už je na pozici {index} (prozkoumané pozice: {sequence}).",
+        insertFull: "Insert(T, K): Žádná akce - pro klíč {key} nebyla nalezena volná pozice (prozkoumané pozice: {sequence}).",
+        searchFound: "Search(T, K): True (klíč {key} se nachází na pozici {index}, prozkoumané pozice: {sequence}).",
+        searchNotFound: "Search(T, K): False (klíč {key} se v tabulce nenachází, prozkoumané pozice: {sequence}).",
+        delete: "Delete(T, K): Klíč {key} na pozici {index} byl nahrazen značkou DEL (prozkoumané pozice: {sequence}), faktor naplnění je {loadFactor}.",
+        deleteNotFound: "Delete(T, K): Žádná akce - klíč {key} se v tabulce nenachází (prozkoumané pozice: {sequence}).",
+        hashFunction: "HashFunction(T, H): Klíče jsou rozmístěny hashovací funkcí {formula}.",
+        hashFunctionFailed: "HashFunction(T, H): Žádná akce - s hashovací funkcí {formula} se klíče do tabulky nevejdou.",
+        probing: "Probing(T, P): Klíče jsou rozmístěny posloupností zkoušení {formula}.",
+        probingFailed: "Probing(T, P): Žádná akce - s posloupností zkoušení {formula} se klíče do tabulky nevejdou.",
+    },
+
+    binaryHeap: {
+        insert: "Insert(H, K): Klíč {key} byl probublán nahoru na index {index}.",
+        insertFull: "Insert(H, K): Žádná akce - halda je plná, klíč {key} nelze vložit.",
+        extractMin: "Extract(H): Minimum {key} bylo odebráno, poslední klíč byl probublán dolů od kořene.",
+        extractMax: "Extract(H): Maximum {key} bylo odebráno, poslední klíč byl probublán dolů od kořene.",
+        extractEmpty: "Extract(H): Žádná akce - halda je prázdná.",
+        build: "BuildHeap(H, El, ...): Rodiče byli probubláni dolů od posledního po kořen, halda je {values}.",
+        buildFull: "BuildHeap(H, El, ...): Žádná akce - {count} klíčů se nevejde do haldy s kapacitou {capacity}.",
+        heapType: "HeapType(H, T): Halda byla přestavěna na {type}-haldu: {values}.",
+    },
 }
\ No newline at end of file
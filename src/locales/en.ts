@@ -4,18 +4,36 @@ export default {
         singly: "Singly Linked",
         doubly: "Doubly Linked",
         circularSingly: "Circular Singly Linked",
+        circularDoubly: "Circular Doubly Linked",
         activeList: "List activity:",
+        listOperations: "List operations:",
+        circularOperations: "Ring operations:",
 
         singlyList: "Singly Linked List",
         doublyList: "Doubly Linked List",
         circularSinglyList: "Circular Singly Linked List",
+        circularDoublyList: "Circular Doubly Linked List",
 
         stack: "Stack",
+        linkedStack: "Linked Stack",
         queue: "Queue",
+        linkedQueue: "Linked Queue",
+        deque: "Deque",
         trees: "Tree Data Structures",
         bvs: "Binary Search Tree",
         avl: "AVL Tree",
-        hashes: "Hash Tables"
+        redBlack: "Red-Black Tree",
+        hashes: "Hash Tables",
+        chaining: "Separate Chaining",
+        chainingTable: "Hash Table with Separate Chaining",
+        openAddressing: "Open Addressing",
+        openAddressingTable: "Hash Table with Open Addressing",
+        binaryHeap: "Binary Heap",
+
+        comparison: "Comparison",
+        compareStacks: "Stack vs. Linked Stack",
+        compareQueues: "Queue vs. Linked Queue",
+        compareTrees: "BST vs. AVL Tree"
     },
 
     methodBar: {
@@ -35,6 +53,8 @@ export default {
         inputNumber: "Enter a number!",
         biggerThanZero: "Number must be greater than 0!",
         lessThanHundred: "Number must be smaller than 100!",
+        primeNumber: "Number must be a prime number!",
+        inputIndex: "Enter a position (0 or greater)!",
     },
 
     warnings: {
@@ -46,6 +66,9 @@ export default {
         queue: {
             mustInit: "First, initialize the structure using `InitQueue(Q)` or `Randomly generate structure`.",
         },
+        deque: {
+            mustInit: "First, initialize the structure using `InitDeque(D)` or `Randomly generate structure`.",
+        },
         lists: {
             mustInit: "First, initialize the structure using `InitList(L)` or `Randomly generate structure`.",
             singlyNotActive: "First, activate the list using `First(L)`.",
@@ -54,6 +77,9 @@ export default {
         tables: {
             mustInit: "First, initialize the structure using `InitTable(T)` or `Randomly generate structure`.",
         },
+        heap: {
+            mustInit: "First, initialize the structure using `InitHeap(H)` or `Randomly generate structure`.",
+        },
     },
 
     status: {
@@ -85,7 +111,9 @@ export default {
     header: {
         lang: "Language:",
         tutorial: "How to use the application",
-        center: "Center graph"
+        center: "Center graph",
+        undo: "Undo (Ctrl+Z)",
+        redo: "Redo (Ctrl+Shift+Z)"
     },
 
     slider: {
@@ -99,6 +127,11 @@ export default {
         clear: "Clear canvas",
         automaticCenter: "Auto centering",
         manualCenter: "Manual panning",
+        pause: "Pause animation",
+        resume: "Resume animation",
+        step: "Next animation step",
+        record: "Record operations",
+        stopRecording: "Stop recording",
         speed: {
             slowest: "Slowest",
             slower: "Slower",
@@ -109,6 +142,53 @@ export default {
         }
     },
 
+    timeline: {
+        title: "Timeline",
+        back: "Previous frame",
+        forward: "Next frame",
+        frame: "Frame {current} / {total}"
+    },
+
+    file: {
+        export: "Download structure as a file",
+        import: "Upload structure from a file",
+        importError: "Upload: ERROR – the file does not contain a valid structure of this type!"
+    },
+
+    image: {
+        export: "Download image",
+        scale: "Scale",
+        transparent: "Transparent background",
+        download: "Download",
+        cancel: "Cancel"
+    },
+
+    script: {
+        title: "Script",
+        placeholder: "InitList(L); InsertFirst(L, 5); First(L); Succ(L)",
+        animate: "Animate commands",
+        run: "Run",
+        running: "Running line {line}…",
+        commands: "Available commands",
+        line: "Line {line}:",
+        errors: {
+            syntax: "cannot read the command \"{statement}\".",
+            unknownCommand: "unknown command \"{name}\".",
+            wrongStructure: "unknown structure \"{name}\", use \"{expected}\".",
+            unexpectedArgument: "the command has no argument, use {usage}.",
+            missingArgument: "the command needs an argument, use {usage}.",
+            unknownOption: "unknown option \"{value}\", use {usage}.",
+            alreadyInit: "the structure is already initialized.",
+            notInit: "the structure is not initialized yet."
+        }
+    },
+
+    share: {
+        copy: "Copy link",
+        copied: "The link to the structure has been copied to the clipboard.",
+        copyError: "The link could not be copied, copy it manually: {link}"
+    },
+
     outputDialog: {
         label: "Output"
     },
@@ -130,6 +210,28 @@ export default {
         firstEmpty: "First(L): No action - the list is empty.",
         lastEmpty: "Last(L): No action - the list is empty.",
         setActiveValue: "SetValue(L): The value of the active element has been changed to {value}.",
+
+        searchFound: "Search(L, K): The value {value} was found at position {index}.",
+        searchNotFound: "Search(L, K): The value {value} is not in the list.",
+        length: "Length(L): The list has {length} nodes.",
+        insertAtError: "InsertAt(L, i, El): No action - position {index} does not exist, the list has {length} nodes.",
+        deleteAtError: "DeleteAt(L, i): No action - position {index} does not exist, the last position is {last}.",
+        deleteAtEmpty: "DeleteAt(L, i): No action - attempting to delete an element from an empty list.",
+        reverse: "Reverse(L): The order of the nodes in the list has been reversed.",
+        reverseLoop: "Reverse(L): No action - the list contains a cycle created by Corrupt(L, i).",
+        sort: "Sort(L, A): The list has been sorted by the {algorithm} sort with {comparisons} comparisons and {changes} pointer changes.",
+        josephus: "Josephus(L, k): The elimination order is {order}, the node {survivor} survived.",
+        josephusStep: "Josephus(L, k): The node {value} was eliminated as number {order}.",
+        josephusError: "Josephus(L, k): No action - k must be at least 1, {step} was given.",
+        josephusEmpty: "Josephus(L, k): No action - the list is empty.",
+        rotate: "Rotate(L, n): The list was rotated by {steps} nodes, the first node is now {value}.",
+        rotateEmpty: "Rotate(L, n): No action - attempting to rotate an empty list.",
+        corrupt: "Corrupt(L, i): The last node now points back to the node {value} at position {index}.",
+        corruptError: "Corrupt(L, i): No action - position {index} does not exist, the last position is {last}.",
+        corruptEmpty: "Corrupt(L, i): No action - the list is empty.",
+        cycleMeet: "DetectCycle(L): The Slow and Fast pointers met at the node {value}, the list contains a cycle.",
+        cycleFound: "DetectCycle(L): The cycle starts at the node {value} at position {index}.",
+        cycleNone: "DetectCycle(L): The Fast pointer reached the end, the list contains no cycle.",
     },
 
     stack: {
@@ -141,6 +243,10 @@ export default {
         notFull: "IsFull(S): False (the stack is not full).",
         addFull: "Push(S, El): No action - attempting to add an element to a full stack.",
         removeEmpty: "Pop(S): No action - attempting to remove an element from an empty stack.",
+        mode: "Mode(S, M): The stack now works in the {mode} mode.",
+        grow: "Push(S, El): The stack is full - a new array of capacity {to} replaces the array of capacity {from}.",
+        shrink: "Pop(S): Less than a quarter of the stack is used - a new array of capacity {to} replaces the array of capacity {from}.",
+        cost: "Cost: {operations} operations and {copies} copied elements, amortized cost {amortized} per operation.",
     },
 
     queue: {
@@ -154,6 +260,21 @@ export default {
         removeEmpty: "Remove(Q): No action - attempting to remove an element from an empty queue.",
     },
 
+    deque: {
+        peekFront: "PeekFront(D): Value of the first element in the deque is {value}.",
+        peekFrontError: "PeekFront(D): ERROR – the deque is empty!",
+        peekRear: "PeekRear(D): Value of the last element in the deque is {value}.",
+        peekRearError: "PeekRear(D): ERROR – the deque is empty!",
+        empty: "IsEmpty(D): True (the deque is empty).",
+        notEmpty: "IsEmpty(D): False (the deque is not empty).",
+        full: "IsFull(D): True (the deque is full).",
+        notFull: "IsFull(D): False (the deque is not full).",
+        addFrontFull: "AddFront(D, El): No action - attempting to add an element to a full deque.",
+        addRearFull: "AddRear(D, El): No action - attempting to add an element to a full deque.",
+        removeFrontEmpty: "RemoveFront(D): No action - attempting to remove an element from an empty deque.",
+        removeRearEmpty: "RemoveRear(D): No action - attempting to remove an element from an empty deque.",
+    },
+
     tree: {
         searchFound: "Search(T, K): True (a node with key {key} exists in the tree).",
         searchNotFound: "Search(T, K): False (a node with key {key} does not exist in the tree).",
@@ -161,4 +282,55 @@ export default {
 
         deleteEmpty: "Delete(T, K): No action - attempting to delete a node from an empty tree.",
     },
+
+    avl: {
+        rotation: "Rebalance: {rotation} rotation at the node {key} with the balance factor {balance}.",
+    },
+
+    redBlack: {
+        insertCase1: "Fix-up case 1: the parent {parent} and the uncle {uncle} of the red node {key} are red, they are recolored black and the grandparent {grandparent} red.",
+        insertCase2: "Fix-up case 2: the red node {key} is an inner child of the red parent {parent}, the parent is rotated so the node becomes an outer child.",
+        insertCase3: "Fix-up case 3: the red node {key} is an outer child of the red parent {parent}, the parent is recolored black, the grandparent {grandparent} red and the grandparent is rotated.",
+        insertRoot: "Fix-up: the root {key} is recolored black.",
+        deleteRecolor: "Fix-up: the red node {key} takes the extra black and is recolored black.",
+        deleteCase1: "Fix-up case 1: the sibling {sibling} of the double black node {key} is red, it is recolored black, the parent {parent} red and the parent is rotated.",
+        deleteCase2: "Fix-up case 2: the sibling {sibling} of the double black node {key} has black children, it is recolored red and the extra black moves to the parent {parent}.",
+        deleteCase3: "Fix-up case 3: the sibling {sibling} of the double black node {key} has a red near child {nephew} and a black far child, the sibling is recolored red, the near child black and the sibling is rotated.",
+        deleteCase4: "Fix-up case 4: the sibling {sibling} of the double black node {key} has a red far child {nephew}, the sibling takes the color of the parent {parent}, the parent and the far child are recolored black and the parent is rotated.",
+    },
+
+    hashTable: {
+        insert: "Insert(T, K): The key {key} was added to the chain of the bucket {index}, the load factor is {loadFactor}.",
+        insertDuplicate: "Insert(T, K): No action - the key {key} is already in the chain of the bucket {index}.",
+        searchFound: "Search(T, K): True (the key {key} is in the chain of the bucket {index}).",
+        searchNotFound: "Search(T, K): False (the key {key} is not in the chain of the bucket {index}).",
+        delete: "Delete(T, K): The key {key} was removed from the chain of the bucket {index}, the load factor is {loadFactor}.",
+        deleteNotFound: "Delete(T, K): No action - the key {key} is not in the chain of the bucket {index}.",
+        hashFunction: "HashFunction(T, H): The keys are distributed by the hash function {formula}.",
+    },
+
+    openAddressingTable: {
+        insert: "Insert(T, K): The key {key} was stored in the slot {index} after probing the slots {sequence}, the load factor is {loadFactor}.",
+        insertDuplicate: "Insert(T, K): No action - the key {key} is already in the slot {index} (probed slots: {sequence}).",
+        insertFull: "Insert(T, K): No action - no free slot was found for the key {key} (probed slots: {sequence}).",
+        searchFound: "Search(T, K): True (the key {key} is in the slot {index}, probed slots: {sequence}).",
+        searchNotFound: "Search(T, K): False (the key {key} is not in the table, probed slots: {sequence}).",
+        delete: "Delete(T, K): The key {key} in the slot {index} was replaced by the tombstone DEL (probed slots: {sequence}), the load factor is {loadFactor}.",
+        deleteNotFound: "Delete(T, K): No action - the key {key} is not in the table (probed slots: {sequence}).",
+        hashFunction: "HashFunction(T, H): The keys are distributed by the hash function {formula}.",
+        hashFunctionFailed: "HashFunction(T, H): No action - the keys do not fit in the table with the hash function {formula}.",
+        probing: "Probing(T, P): The keys are distributed by the probing sequence {formula}.",
+        probingFailed: "Probing(T, P): No action - the keys do not fit in the table with the probing sequence {formula}.",
+    },
+
+    binaryHeap: {
+        insert: "Insert(H, K): The key {key} was sifted up to the index {index}.",
+        insertFull: "Insert(H, K): No action - the heap is full, the key {key} cannot be inserted.",
+        extractMin: "Extract(H): The minimum {key} was removed, the last key was sifted down from the root.",
+        extractMax: "Extract(H): The maximum {key} was removed, the last key was sifted down from the root.",
+        extractEmpty: "Extract(H): No action - the heap is empty.",
+        build: "BuildHeap(H, El, ...): The parents were sifted down from the last one to the root, the heap is {values}.",
+        buildFull: "BuildHeap(H, El, ...): No action - {count} keys do not fit in the heap with the capacity {capacity}.",
+        heapType: "HeapType(H, T): The heap was rebuilt as a {type}-heap: {values}.",
+    },
 }
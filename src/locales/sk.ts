@@ -4,18 +4,36 @@ export default {
         singly: "Jednosmerne viazaný",
         doubly: "Dvojsmerne viazaný",
         circularSingly: "Kruhový jednosmerný",
+        circularDoubly: "Kruhový obojsmerný",
         activeList: "Aktivita zoznamu:",
+        listOperations: "Operácie nad zoznamom:",
+        circularOperations: "Operácie nad kruhom:",
 
         singlyList: "Jednosmerne viazaný zoznam",
         doublyList: "Dvojsmerne viazaný zoznam",
         circularSinglyList: "Kruhový jednosmerný zoznam",
+        circularDoublyList: "Kruhový obojsmerný zoznam",
 
         stack: "Zásobník",
+        linkedStack: "Zásobník nad zoznamom",
         queue: "Fronta",
+        linkedQueue: "Fronta nad zoznamom",
+        deque: "Obojstranná fronta",
         trees: "Stromové dátové štruktúry",
         bvs: "Binárny vyhľadávací strom",
         avl: "AVL strom",
-        hashes: "Tabuľky s rozptýlenými položkami"
+        redBlack: "Červeno-čierny strom",
+        hashes: "Tabuľky s rozptýlenými položkami",
+        chaining: "So zreťazením",
+        chainingTable: "Tabuľka s rozptýlenými položkami so zreťazením",
+        openAddressing: "S otvoreným adresovaním",
+        openAddressingTable: "Tabuľka s rozptýlenými položkami s otvoreným adresovaním",
+        binaryHeap: "Binárna halda",
+
+        comparison: "Porovnanie",
+        compareStacks: "Zásobník a zásobník nad zoznamom",
+        compareQueues: "Fronta a fronta nad zoznamom",
+        compareTrees: "BVS a AVL strom"
     },
 
     methodBar: {
@@ -35,6 +53,8 @@ export default {
         inputNumber: "Zadaj číslo!",
         biggerThanZero: "Číslo musí byť väčšie ako 0!",
         lessThanHundred: "Číslo musí byť menšie ako 100!",
+        primeNumber: "Číslo musí byť prvočíslo!",
+        inputIndex: "Zadaj pozíciu (0 alebo väčšiu)!",
     },
 
     warnings: {
@@ -46,6 +66,9 @@ export default {
         queue: {
             mustInit: "Najskôr inicializuj štruktúru pomocou `InitQueue(Q)` alebo `Náhodne vygenerovať štruktúru`.",
         },
+        deque: {
+            mustInit: "Najskôr inicializuj štruktúru pomocou `InitDeque(D)` alebo `Náhodne vygenerovať štruktúru`.",
+        },
         lists: {
             mustInit: "Najskôr inicializuj štruktúru pomocou `InitList(L)` alebo `Náhodne vygenerovať štruktúru`.",
             singlyNotActive: "Najskôr aktivuj zoznam pomocou `First(L)`.",
@@ -54,6 +77,9 @@ export default {
         tables: {
             mustInit: "Najskôr inicializuj štruktúru pomocou `InitTable(T)` alebo `Náhodne vygenerovať štruktúru`.",
         },
+        heap: {
+            mustInit: "Najskôr inicializuj štruktúru pomocou `InitHeap(H)` alebo `Náhodne vygenerovať štruktúru`.",
+        },
     },
 
     status: {
@@ -84,7 +110,9 @@ export default {
     header: {
         lang: "Jazyk:",
         tutorial: "Ako používať aplikáciu",
-        center: "Centrovať graf"
+        center: "Centrovať graf",
+        undo: "Späť (Ctrl+Z)",
+        redo: "Znova (Ctrl+Shift+Z)"
     },
 
     slider: {
@@ -98,6 +126,11 @@ export default {
         clear: "Vyčistiť plochu",
         automaticCenter: "Automatické centrovanie",
         manualCenter: "Manuálne posúvanie",
+        pause: "Pozastaviť animáciu",
+        resume: "Pokračovať v animácii",
+        step: "Ďalší krok animácie",
+        record: "Nahrávať operácie",
+        stopRecording: "Zastaviť nahrávanie",
         speed: {
             slowest: "Najpomalšie",
             slower: "Pomalšie",
@@ -108,6 +141,53 @@ export default {
         }
     },
 
+    timeline: {
+        title: "Časová os",
+        back: "Predchádzajúca snímka",
+        forward: "Ďalšia snímka",
+        frame: "Snímka {current} / {total}"
+    },
+
+    file: {
+        export: "Stiahnuť štruktúru ako súbor",
+        import: "Nahrať štruktúru zo súboru",
+        importError: "Nahratie: CHYBA – súbor neobsahuje platnú štruktúru tohto typu!"
+    },
+
+    image: {
+        export: "Stiahnuť obrázok",
+        scale: "Mierka",
+        transparent: "Priehľadné pozadie",
+        download: "Stiahnuť",
+        cancel: "Zrušiť"
+    },
+
+    script: {
+        title: "Skript",
+        placeholder: "InitList(L); InsertFirst(L, 5); First(L); Succ(L)",
+        animate: "Animovať príkazy",
+        run: "Spustiť",
+        running: "Prebieha riadok {line}…",
+        commands: "Dostupné príkazy",
+        line: "Riadok {line}:",
+        errors: {
+            syntax: "príkaz \"{statement}\" nie je možné prečítať.",
+            unknownCommand: "neznámy príkaz \"{name}\".",
+            wrongStructure: "neznáma štruktúra \"{name}\", použite \"{expected}\".",
+            unexpectedArgument: "príkaz nemá žiadny argument, použite {usage}.",
+            missingArgument: "príkaz potrebuje argument, použite {usage}.",
+            unknownOption: "neznáma možnosť \"{value}\", použite {usage}.",
+            alreadyInit: "štruktúra je už inicializovaná.",
+            notInit: "štruktúra ešte nie je inicializovaná."
+        }
+    },
+
+    share: {
+        copy: "Kopírovať odkaz",
+        copied: "Odkaz na štruktúru bol skopírovaný do schránky.",
+        copyError: "Odkaz sa nepodarilo skopírovať, skopírujte ho ručne: {link}"
+    },
+
     outputDialog: {
         label: "Výstup"
     },
@@ -129,6 +209,28 @@ export default {
         firstEmpty: "First(L): Žiadna akcia - zoznam je prázdny.",
         lastEmpty: "Last(L): Žiadna akcia - zoznam je prázdny.",
         setActiveValue: "SetValue(L): Hodnota aktívneho prvku bola zmenená na hodnotu {value}.",
+
+        searchFound: "Search(L, K): Hodnota {value} bola nájdená na pozícii {index}.",
+        searchNotFound: "Search(L, K): Hodnota {value} v zozname nie je.",
+        length: "Length(L): Zoznam má {length} uzlov.",
+        insertAtError: "InsertAt(L, i, El): Žiadna akcia - pozícia {index} neexistuje, zoznam má {length} uzlov.",
+        deleteAtError: "DeleteAt(L, i): Žiadna akcia - pozícia {index} neexistuje, posledná pozícia je {last}.",
+        deleteAtEmpty: "DeleteAt(L, i): Žiadna akcia - pokus o zmazanie prvku z prázdneho zoznamu.",
+        reverse: "Reverse(L): Poradie uzlov v zozname bolo obrátené.",
+        reverseLoop: "Reverse(L): Žiadna akcia - zoznam obsahuje cyklus vytvorený operáciou Corrupt(L, i).",
+        sort: "Sort(L, A): Zoznam bol zoradený algoritmom {algorithm} sort s {comparisons} porovnaniami a {changes} zmenami ukazovateľov.",
+        josephus: "Josephus(L, k): Poradie vyradenia je {order}, prežil uzol {survivor}.",
+        josephusStep: "Josephus(L, k): Uzol {value} bol vyradený ako {order}. v poradí.",
+        josephusError: "Josephus(L, k): Žiadna akcia - k musí byť aspoň 1, bolo zadané {step}.",
+        josephusEmpty: "Josephus(L, k): Žiadna akcia - zoznam je prázdny.",
+        rotate: "Rotate(L, n): Zoznam bol otočený o {steps} uzlov, prvým uzlom je teraz {value}.",
+        rotateEmpty: "Rotate(L, n): Žiadna akcia - pokus o otočenie prázdneho zoznamu.",
+        corrupt: "Corrupt(L, i): Posledný uzol teraz ukazuje späť na uzol {value} na pozícii {index}.",
+        corruptError: "Corrupt(L, i): Žiadna akcia - pozícia {index} neexistuje, posledná pozícia je {last}.",
+        corruptEmpty: "Corrupt(L, i): Žiadna akcia - zoznam je prázdny.",
+        cycleMeet: "DetectCycle(L): Ukazovatele Slow a Fast sa stretli v uzle {value}, zoznam obsahuje cyklus.",
+        cycleFound: "DetectCycle(L): Cyklus začína uzlom {value} na pozícii {index}.",
+        cycleNone: "DetectCycle(L): Ukazovateľ Fast dosiahol koniec, zoznam neobsahuje cyklus.",
     },
 
     stack: {
@@ -140,6 +242,10 @@ export default {
         notFull: "IsFull(S): False (zásobník nie je plný).",
         addFull: "Push(S, El): Žiadna akcia - pokus o pridanie prvku do plného zásobníka.",
         removeEmpty: "Pop(S): Žiadna akcia - pokus o odstránenie prvku z prázdneho zásobníka.",
+        mode: "Mode(S, M): Zásobník teraz pracuje v režime {mode}.",
+        grow: "Push(S, El): Zásobník je plný - pole s kapacitou {from} nahrádza nové pole s kapacitou {to}.",
+        shrink: "Pop(S): Je využitá menej ako štvrtina zásobníka - pole s kapacitou {from} nahrádza nové pole s kapacitou {to}.",
+        cost: "Cena: {operations} operácií a {copies} skopírovaných prvkov, amortizovaná cena {amortized} na operáciu.",
     },
 
     queue: {
@@ -153,11 +259,77 @@ export default {
         removeEmpty: "Remove(Q): Žiadna akcia - pokus o odstránenie prvku z prázdnej fronty.",
     },
 
+    deque: {
+        peekFront: "PeekFront(D): Hodnota prvku na začiatku obojstrannej fronty je {value}.",
+        peekFrontError: "PeekFront(D): CHYBA – obojstranná fronta je prázdna!",
+        peekRear: "PeekRear(D): Hodnota prvku na konci obojstrannej fronty je {value}.",
+        peekRearError: "PeekRear(D): CHYBA – obojstranná fronta je prázdna!",
+        empty: "IsEmpty(D): True (obojstranná fronta je prázdna).",
+        notEmpty: "IsEmpty(D): False (obojstranná fronta nie je prázdna).",
+        full: "IsFull(D): True (obojstranná fronta je plná).",
+        notFull: "IsFull(D): False (obojstranná fronta nie je plná).",
+        addFrontFull: "AddFront(D, El): Žiadna akcia - pokus o pridanie prvku do plnej obojstrannej fronty.",
+        addRearFull: "AddRear(D, El): Žiadna akcia - pokus o pridanie prvku do plnej obojstrannej fronty.",
+        removeFrontEmpty: "RemoveFront(D): Žiadna akcia - pokus o odstránenie prvku z prázdnej obojstrannej fronty.",
+        removeRearEmpty: "RemoveRear(D): Žiadna akcia - pokus o odstránenie prvku z prázdnej obojstrannej fronty.",
+    },
+
     tree: {
         searchFound: "Search(T, K): True (uzol s kľúčom {key} sa nachádza v strome).",
         searchNotFound: "Search(T, K): False (uzol s kľúčom {key} sa nenachádza v strome).",
         height: "Height(T): Strom má výšku {height}.",
 
         deleteEmpty: "Delete(T, K): Žiadna akcia - pokus o vymazanie uzla v prázdnom strome.",
-    }
+    },
+
+    avl: {
+        rotation: "Vyváženie: rotácia {rotation} v uzle {key} s faktorom vyváženia {balance}.",
+    },
+
+    redBlack: {
+        insertCase1: "Oprava, prípad 1: rodič {parent} aj strýko {uncle} červeného uzla {key} sú červení, prefarbia sa na čierno a starý rodič {grandparent} na červeno.",
+        insertCase2: "Oprava, prípad 2: červený uzol {key} je vnútorným potomkom červeného rodiča {parent}, rodič sa otočí, aby sa uzol stal vonkajším potomkom.",
+        insertCase3: "Oprava, prípad 3: červený uzol {key} je vonkajším potomkom červeného rodiča {parent}, rodič sa prefarbí na čierno, starý rodič {grandparent} na červeno a starý rodič sa otočí.",
+        insertRoot: "Oprava: koreň {key} sa prefarbí na čierno.",
+        deleteRecolor: "Oprava: červený uzol {key} prevezme čiernu navyše a prefarbí sa na čierno.",
+        deleteCase1: "Oprava, prípad 1: súrodenec {sibling} dvojito čierneho uzla {key} je červený, prefarbí sa na čierno, rodič {parent} na červeno a rodič sa otočí.",
+        deleteCase2: "Oprava, prípad 2: súrodenec {sibling} dvojito čierneho uzla {key} má čiernych potomkov, prefarbí sa na červeno a čierna navyše prechádza na rodiča {parent}.",
+        deleteCase3: "Oprava, prípad 3: súrodenec {sibling} dvojito čierneho uzla {key} má červeného bližšieho potomka {nephew} a čierneho vzdialenejšieho potomka, súrodenec sa prefarbí na červeno, bližší potomok na čierno a súrodenec sa otočí.",
+        deleteCase4: "Oprava, prípad 4: súrodenec {sibling} dvojito čierneho uzla {key} má červeného vzdialenejšieho potomka {nephew}, súrodenec prevezme farbu rodiča {parent}, rodič aj vzdialenejší potomok sa prefarbia na čierno a rodič sa otočí.",
+    },
+
+    hashTable: {
+        insert: "Insert(T, K): Kľúč {key} bol pridaný do reťazca priehradky {index}, faktor naplnenia je {loadFactor}.",
+        insertDuplicate: "Insert(T, K): Žiadna akcia - kľúč {key} už je v reťazci priehradky {index}.",
+        searchFound: "Search(T, K): True (kľúč {key} sa nachádza v reťazci priehradky {index}).",
+        searchNotFound: "Search(T, K): False (kľúč {key} sa nenachádza v reťazci priehradky {index}).",
+        delete: "Delete(T, K): Kľúč {key} bol odstránený z reťazca priehradky {index}, faktor naplnenia je {loadFactor}.",
+        deleteNotFound: "Delete(T, K): Žiadna akcia - kľúč {key} sa nenachádza v reťazci priehradky {index}.",
+        hashFunction: "HashFunction(T, H): Kľúče sú rozmiestnené rozptyľovacou funkciou {formula}.",
+    },
+
+    openAddressingTable: {
+        insert: "Insert(T, K): Kľúč {key} bol uložený na pozíciu {index} po preskúmaní pozícií {sequence}, faktor naplnenia je {loadFactor}.",
+        insertDuplicate: "Insert(T, K): Žiadna akcia - kľúč {key} už je na pozícii {index} (preskúmané pozície: {sequence}).",
+        insertFull: "Insert(T, K): Žiadna akcia - pre kľúč {key} nebola nájdená voľná pozícia (preskúmané pozície: {sequence}).",
+        searchFound: "Search(T, K): True (kľúč {key} sa nachádza na pozícii {index}, preskúmané pozície: {sequence}).",
+        searchNotFound: "Search(T, K): False (kľúč {key} sa v tabuľke nenachádza, preskúmané pozície: {sequence}).",
+        delete: "Delete(T, K): Kľúč {key} na pozícii {index} bol nahradený značkou DEL (preskúmané pozície: {sequence}), faktor naplnenia je {loadFactor}.",
+        deleteNotFound: "Delete(T, K): Žiadna akcia - kľúč {key} sa v tabuľke nenachádza (preskúmané pozície: {sequence}).",
+        hashFunction: "HashFunction(T, H): Kľúče sú rozmiestnené rozptyľovacou funkciou {formula}.",
+        hashFunctionFailed: "HashFunction(T, H): Žiadna akcia - s rozptyľovacou funkciou {formula} sa kľúče do tabuľky nezmestia.",
+        probing: "Probing(T, P): Kľúče sú rozmiestnené postupnosťou skúšania {formula}.",
+        probingFailed: "Probing(T, P): Žiadna akcia - s postupnosťou skúšania {formula} sa kľúče do tabuľky nezmestia.",
+    },
+
+    binaryHeap: {
+        insert: "Insert(H, K): Kľúč {key} bol prebublaný nahor na index {index}.",
+        insertFull: "Insert(H, K): Žiadna akcia - halda je plná, kľúč {key} nie je možné vložiť.",
+        extractMin: "Extract(H): Minimum {key} bolo odobrané, posledný kľúč bol prebublaný nadol od koreňa.",
+        extractMax: "Extract(H): Maximum {key} bolo odobrané, posledný kľúč bol prebublaný nadol od koreňa.",
+        extractEmpty: "Extract(H): Žiadna akcia - halda je prázdna.",
+        build: "BuildHeap(H, El, ...): Rodičia boli prebublaní nadol od posledného po koreň, halda je {values}.",
+        buildFull: "BuildHeap(H, El, ...): Žiadna akcia - {count} kľúčov sa nezmestí do haldy s kapacitou {capacity}.",
+        heapType: "HeapType(H, T): Halda bola prestavaná na {type}-haldu: {values}.",
+    },
 }
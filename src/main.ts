@@ -6,6 +6,8 @@ import { i18n } from "./i18n"
 
 /* Libraries */
 import ElementPlus from 'element-plus';
+import cytoscape from "cytoscape";
+import cytoscapeSvg from "cytoscape-svg";
 
 /* Styles */
 import 'element-plus/dist/index.css';
@@ -14,6 +16,7 @@ import './assets/main.css'
 const app = createApp(App);
 
 app.use(ElementPlus);
+cytoscape.use(cytoscapeSvg);  // Enables exporting the graph as SVG
 app.use(router);
 app.use(i18n);
 
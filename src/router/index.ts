@@ -1,12 +1,23 @@
 import { createRouter, createWebHistory } from 'vue-router';
+import { SHARE_QUERY_KEY, decodeSharedState, setPendingState } from "@/composables/shareLink";
 
 // Import components representing different data structures and pages
 import SinglyLinkedList from "@/components/structures/singlyLinkedList/Visualization.vue";
 import DoublyLinkedList from "@/components/structures/doublyLinkedList/Visualization.vue";
 import CircularSinglyLinkedList from "@/components/structures/circularSinglyLinkedList/Visualization.vue";
+import CircularDoublyLinkedList from "@/components/structures/circularDoublyLinkedList/Visualization.vue";
 import Stack from "@/components/structures/stack/Visualization.vue";
+import LinkedStack from "@/components/structures/linkedStack/Visualization.vue";
 import Queue from "@/components/structures/queue/Visualization.vue";
+import LinkedQueue from "@/components/structures/linkedQueue/Visualization.vue";
+import Deque from "@/components/structures/deque/Visualization.vue";
 import BinarySearchTree from "@/components/structures/binarySearchTree/Visualization.vue";
+import AVLTree from "@/components/structures/avlTree/Visualization.vue";
+import RedBlackTree from "@/components/structures/redBlackTree/Visualization.vue";
+import HashTable from "@/components/structures/hashTable/Visualization.vue";
+import OpenAddressingTable from "@/components/structures/openAddressingTable/Visualization.vue";
+import BinaryHeap from "@/components/structures/binaryHeap/Visualization.vue";
+import Comparison from "@/components/structures/comparison/Visualization.vue";
 import Tutorial from "@/components/Tutorial.vue";
 import Home from "@/components/Home.vue"
 
@@ -37,21 +48,72 @@ const routes = [
         name: 'Circular Singly Linked List',
         component: CircularSinglyLinkedList,
     },
+    {
+        path: '/circular-doubly-linked-list',
+        name: 'Circular Doubly Linked List',
+        component: CircularDoublyLinkedList,
+    },
     {
         path: '/stack',
         name: 'Stack',
         component: Stack,
     },
+    {
+        path: '/linked-stack',
+        name: 'Linked Stack',
+        component: LinkedStack,
+    },
     {
         path: '/queue',
         name: 'Queue',
         component: Queue,
     },
+    {
+        path: '/linked-queue',
+        name: 'Linked Queue',
+        component: LinkedQueue,
+    },
+    {
+        path: '/deque',
+        name: 'Deque',
+        component: Deque,
+    },
     {
         path: '/binary-search-tree',
         name: 'Binary Search Tree',
         component: BinarySearchTree,
     },
+    {
+        path: '/avl-tree',
+        name: 'AVL Tree',
+        component: AVLTree,
+    },
+    {
+        path: '/red-black-tree',
+        name: 'Red-Black Tree',
+        component: RedBlackTree,
+    },
+    {
+        path: '/hash-table',
+        name: 'Hash Table',
+        component: HashTable,
+    },
+    {
+        path: '/open-addressing-table',
+        name: 'Open Addressing Table',
+        component: OpenAddressingTable,
+    },
+    {
+        path: '/binary-heap',
+        name: 'Binary Heap',
+        component: BinaryHeap,
+    },
+    {
+        path: '/compare/:pair(stack|queue|trees)',  // Two structures with the same operations side by side
+        name: 'Comparison',
+        component: Comparison,
+        props: true,
+    },
 ];
 
 // Create the router instance with history mode for navigation
@@ -60,5 +122,19 @@ const router = createRouter({
     routes,   // Register the defined routes
 });
 
+// Read the state shared by a link before the visualization is created
+router.beforeEach((to) => {
+    const value = to.query[SHARE_QUERY_KEY];
+    if (typeof value !== "string") return true;
+
+    // Loaded by setupStructure once mounted, the stored settings of the visitor stay unchanged
+    setPendingState(decodeSharedState(value));
+
+    // Remove the parameter from the URL, so the state is loaded only once
+    const query = { ...to.query };
+    delete query[SHARE_QUERY_KEY];
+    return { path: to.path, query, hash: to.hash, replace: true };
+});
+
 // Export the router instance to be used in the main application
 export default router;
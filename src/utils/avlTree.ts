@@ -0,0 +1,262 @@
+import BinarySearchTree, { TreeNodeData } from "@/utils/binarySearchTree";
+import { StructureJSON } from "@/utils/base/baseStructure";
+import { StylesheetJson } from "cytoscape";
+
+// Offset of the balance factor from the center of its node
+const balanceOffsetX: number = 32
+const balanceOffsetY: number = -28
+
+// Rotations restoring the balance, named by the path from the imbalanced node to the higher subtree
+export type AVLRotation = "LL" | "RR" | "LR" | "RL";
+
+/**
+ * AVLTree - Represents a visualized AVL tree using Cytoscape.js.
+ * This class inherits from BinarySearchTree and keeps the tree balanced with animated rotations.
+ * The balance factor (height of the left subtree minus height of the right subtree) is shown next to each node.
+ */
+export default class AVLTree extends BinarySearchTree {
+    /**
+     * Constructor to create a new AVL tree.
+     * @param containerId - The ID of the HTML element where the tree is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.structureType = "avlTree";
+    }
+
+    /**
+     * Calculates the height of the subtree without animation.
+     * @param nodeId - The ID of the root of the subtree.
+     * @returns The number of levels of the subtree, 0 for an empty subtree.
+     */
+    protected subtreeHeight(nodeId: string | number | null): number {
+        if (!this.isNodeValid(nodeId)) return 0;
+
+        const node: TreeNodeData | undefined = this.findNodeInTreeNodes(nodeId);
+        if (!node || node.class === "nullNode") return 0;
+
+        return Math.max(this.subtreeHeight(node.left), this.subtreeHeight(node.right)) + 1;
+    }
+
+    /**
+     * Calculates the balance factor of the node.
+     * @param node - The node to check.
+     * @returns The height of the left subtree minus the height of the right subtree.
+     */
+    protected balanceFactor(node: TreeNodeData): number {
+        return this.subtreeHeight(node.left) - this.subtreeHeight(node.right);
+    }
+
+    /**
+     * Formats the balance factor with its sign.
+     * @param balance - The balance factor to format.
+     * @returns The balance factor as shown next to the node (e.g. "+1", "0", "-2").
+     */
+    protected formatBalance(balance: number): string {
+        return balance > 0 ? `+${balance}` : String(balance);
+    }
+
+    /**
+     * Finds the lowest imbalanced node in the subtree.
+     * Nodes are checked in post-order, so the children are checked before their parent.
+     * @param nodeId - The ID of the root of the subtree.
+     * @returns The first node with a balance factor outside of -1 and +1, or undefined if the subtree is balanced.
+     */
+    protected findImbalancedNode(nodeId: string | number | null): TreeNodeData | undefined {
+        if (!this.isNodeValid(nodeId)) return undefined;
+
+        const node: TreeNodeData | undefined = this.findNodeInTreeNodes(nodeId);
+        if (!node || node.class === "nullNode") return undefined;
+
+        return this.findImbalancedNode(node.left) ?? this.findImbalancedNode(node.right) ??
+            (Math.abs(this.balanceFactor(node)) > 1 ? node : undefined);
+    }
+
+    /**
+     * Checks whether every node of the tree is balanced.
+     * @returns True if no node has a balance factor outside of -1 and +1.
+     */
+    public isBalanced(): boolean {
+        const rootNode: TreeNodeData | undefined = this.treeNodes[0];
+        return !rootNode || this.findImbalancedNode(rootNode.id) === undefined;
+    }
+
+    /**
+     * Determines the rotation that restores the balance of the node.
+     * @param node - The imbalanced node.
+     * @returns The type of the rotation.
+     *
+     * Handles 4 cases:
+     * 1. LL - The left subtree of the left child is higher - single right rotation.
+     * 2. LR - The right subtree of the left child is higher - left rotation of the child, then right rotation.
+     * 3. RR - The right subtree of the right child is higher - single left rotation.
+     * 4. RL - The left subtree of the right child is higher - right rotation of the child, then left rotation.
+     */
+    protected getRotationType(node: TreeNodeData): AVLRotation {
+        if (this.balanceFactor(node) > 1) {
+            const leftChild: TreeNodeData = this.findNodeInTreeNodes(node.left)!;
+            return this.balanceFactor(leftChild) >= 0 ? "LL" : "LR";
+        }
+
+        const rightChild: TreeNodeData = this.findNodeInTreeNodes(node.right)!;
+        return this.balanceFactor(rightChild) <= 0 ? "RR" : "RL";
+    }
+
+    /**
+     * Gets the drawn nodes that move together with the tree node.
+     * Adds the balance factor of the node to the node itself.
+     * @param treeNode - The moved tree node.
+     * @param position - The new position of the tree node.
+     * @returns The IDs of the drawn nodes with their new positions.
+     */
+    protected getGraphNodeTargets(treeNode: TreeNodeData, position: { x: number, y: number }): { id: string|number, x: number, y: number }[] {
+        return [
+            ...super.getGraphNodeTargets(treeNode, position),
+            { id: `balance-${treeNode.id}`, x: position.x + balanceOffsetX, y: position.y + balanceOffsetY }
+        ];
+    }
+
+    /**
+     * Restores the balance of the tree after a node was inserted or deleted.
+     * Repeatedly highlights the lowest imbalanced node and rotates it until the whole tree is balanced.
+     * An insertion needs at most one (single or double) rotation, a deletion can need one on each level.
+     */
+    protected async balanceTreeWithAnimation(): Promise<void> {
+        let node: TreeNodeData | undefined = this.findImbalancedNode(this.treeNodes[0].id);
+
+        while (node) {
+            const balance: number = this.balanceFactor(node);
+            const rotation: AVLRotation = this.getRotationType(node);
+
+            // Highlight the imbalanced node
+            node.class = "imbalancedNode";
+            this.transferTreeToGraph();
+            this.log("avl.rotation", { rotation, key: node.value, balance: this.formatBalance(balance) });
+            await this.wait(1.5);
+
+            // Double rotations first rotate the child in the opposite direction
+            if (rotation === "LR") await this.rotateWithAnimation(this.findNodeInTreeNodes(node.left)!, "left");
+            if (rotation === "RL") await this.rotateWithAnimation(this.findNodeInTreeNodes(node.right)!, "right");
+            await this.rotateWithAnimation(node, rotation.startsWith("L") ? "right" : "left");
+
+            node.class = "defaultNode";
+            this.transferTreeToGraph();
+            await this.wait();
+
+            node = this.findImbalancedNode(this.treeNodes[0].id);
+        }
+    }
+
+    /**
+     * Creates the visual nodes and edges from the current tree without drawing them.
+     * Adds the balance factor next to every node of the tree.
+     */
+    protected createGraphFromTree(): void {
+        super.createGraphFromTree();
+
+        this.treeNodes.forEach(node => {
+            if (node.class === "nullNode") return;
+
+            const balance: number = this.balanceFactor(node);
+            this.nodes.push({
+                id: `balance-${node.id}`,
+                value: this.formatBalance(balance),
+                x: node.x + balanceOffsetX,
+                y: node.y + balanceOffsetY,
+                class: Math.abs(balance) > 1 ? "imbalancedFactor" : "balanceFactor",
+                opacity: node.opacity
+            });
+        });
+    }
+
+    /**
+     * Initializes the graph with predefined styles and settings.
+     * Adds the styles of the imbalanced node and the balance factors to the binary search tree styles.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const newNodeStyles: StylesheetJson = [
+            {
+                selector: ".imbalancedNode",
+                style: {
+                    "width": 55,
+                    "height": 55,
+                    "shape": "ellipse",
+                    "border-color": "black",
+                    "border-width": 2,
+                    "background-width": "100%",
+                    "background-height": "100%",
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTUiIGhlaWdodD0iNTUiIHZpZXdCb3g9IjAgMCA1NSA1NSIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMjcuNSIgY3k9IjI3LjUiIHI9IjI3LjUiIGZpbGw9IiNGM0M2QzEiLz4KPGNpcmNsZSBjeD0iMjcuNSIgY3k9IjI3LjUiIHI9IjI1IiBzdHJva2U9IiNBRjQ0MzkiIHN0cm9rZS13aWR0aD0iMyIvPgo8L3N2Zz4K",
+                    "label": "data(value)",
+                    "color": "black",
+                    "font-size": 14,
+                    "text-valign": "center",
+                    "text-halign": "center",
+                    "text-justification": "center",
+                }
+            },
+            {
+                selector: ".balanceFactor",
+                style: {
+                    "width": 26,
+                    "height": 18,
+                    "shape": "round-rectangle",
+                    "background-color": "white",
+                    "border-width": 1,
+                    "border-color": "black",
+                    "label": "data(value)",
+                    "color": "black",
+                    "font-size": 11,
+                    "text-valign": "center",
+                    "text-halign": "center",
+                }
+            },
+            {
+                selector: ".imbalancedFactor",
+                style: {
+                    "width": 26,
+                    "height": 18,
+                    "shape": "round-rectangle",
+                    "background-color": "white",
+                    "border-width": 2,
+                    "border-color": "#AF4439",
+                    "label": "data(value)",
+                    "color": "#AF4439",
+                    "font-size": 11,
+                    "font-weight": "bold",
+                    "text-valign": "center",
+                    "text-halign": "center",
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...newNodeStyles]);
+    }
+
+    /**
+     * Generates a random AVL tree.
+     * The random keys of the binary search tree are inserted again in the order of a balanced tree.
+     */
+    public randomStructure(): void {
+        super.randomStructure();
+
+        const keys: string[] = this.treeNodes
+            .filter(node => node.class !== "nullNode")
+            .map(node => String(node.value));
+
+        this.resetStructure();
+        this.initStructure();
+        this.buildTree(this.balancedOrder(keys));
+        this.centerCanvas(true);
+    }
+
+    /**
+     * Builds the AVL tree from its JSON representation.
+     * @param json - The JSON representation with the shape of the tree.
+     * @returns True if the content was a valid and balanced binary search tree, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        return super.loadJSON(json) && this.isBalanced();
+    }
+}
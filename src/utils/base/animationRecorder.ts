@@ -0,0 +1,178 @@
+import { GIFEncoder, quantize, applyPalette } from "gifenc";
+import type { Encoder } from "gifenc";
+
+// Formats in which an animation can be recorded
+export type RecordingFormat = "gif" | "webm";
+
+/**
+ * AnimationRecorder - Captures frames of the Cytoscape canvas during an operation
+ * and encodes them into an animated GIF or a WebM video.
+ * Everything is done in the browser, no server is needed.
+ */
+export default class AnimationRecorder {
+    protected format: RecordingFormat;                   // Format of the recording
+    protected frameDelay: number;                        // Time between two captured frames in milliseconds
+    protected maxWidth: number;                          // Maximum width of the recording in pixels
+    protected container: HTMLElement | null;             // Element holding the Cytoscape canvases
+    protected canvas: HTMLCanvasElement;                 // Canvas into which the layers are composed
+    protected context: CanvasRenderingContext2D | null;  // Drawing context of the canvas
+    protected timer: ReturnType<typeof setInterval> | null; // Timer capturing the frames
+    protected paused: boolean;                           // Whether the capturing is paused with the animation
+    protected gif: Encoder | null;                       // Encoder of the GIF frames
+    protected mediaRecorder: MediaRecorder | null;       // Recorder of the WebM video
+    protected chunks: Blob[];                            // Recorded parts of the WebM video
+
+    /**
+     * Constructor to initialize the recorder for the given format.
+     * @param format - Format of the recording.
+     */
+    constructor(format: RecordingFormat) {
+        this.format = format;
+        this.frameDelay = 100;       // 10 frames per second
+        this.maxWidth = 800;         // Keeps the GIF size and encoding time reasonable
+
+        this.container = null;
+        this.canvas = document.createElement("canvas");
+        this.context = null;
+        this.timer = null;
+        this.paused = false;
+
+        this.gif = null;
+        this.mediaRecorder = null;
+        this.chunks = [];
+    }
+
+    /**
+     * Checks whether the browser is able to record the given format.
+     * @param format - Format of the recording.
+     * @returns True if the format is supported, false otherwise.
+     */
+    public static isSupported(format: RecordingFormat): boolean {
+        if (format === "gif") return true;
+        return typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported("video/webm");
+    }
+
+    /**
+     * Gets the format of the recording.
+     * @returns The format of the recording.
+     */
+    public getFormat(): RecordingFormat {
+        return this.format;
+    }
+
+    /**
+     * Starts capturing the canvases of the container.
+     * The size of the recording is fixed by the size of the container at the start.
+     * @param container - Element holding the Cytoscape canvases.
+     */
+    public start(container: HTMLElement): void {
+        const scale = Math.min(1, this.maxWidth / container.clientWidth);
+        this.canvas.width = Math.max(1, Math.round(container.clientWidth * scale));
+        this.canvas.height = Math.max(1, Math.round(container.clientHeight * scale));
+        this.context = this.canvas.getContext("2d", { willReadFrequently: this.format === "gif" });
+        this.container = container;
+
+        if (this.format === "gif") {
+            this.gif = GIFEncoder();
+        } else {
+            this.chunks = [];
+            this.mediaRecorder = new MediaRecorder(this.canvas.captureStream(1000 / this.frameDelay), { mimeType: "video/webm" });
+            this.mediaRecorder.ondataavailable = (event: BlobEvent) => {
+                if (event.data.size > 0) this.chunks.push(event.data);
+            };
+            this.mediaRecorder.start();
+        }
+
+        this.captureFrame();
+        this.timer = setInterval(() => this.captureFrame(), this.frameDelay);
+    }
+
+    /**
+     * Pauses capturing while the animation waits, so a long pause does not grow the recording.
+     */
+    public pause(): void {
+        this.paused = true;
+        if (this.mediaRecorder?.state === "recording") this.mediaRecorder.pause();
+    }
+
+    /**
+     * Resumes capturing when the animation continues.
+     */
+    public resume(): void {
+        this.paused = false;
+        if (this.mediaRecorder?.state === "paused") this.mediaRecorder.resume();
+    }
+
+    /**
+     * Stops capturing and discards the recording.
+     * Used when the view of the structure is closed during an operation.
+     */
+    public cancel(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+
+        this.gif = null;
+        if (this.mediaRecorder && this.mediaRecorder.state !== "inactive") this.mediaRecorder.stop();
+        this.mediaRecorder = null;
+        this.chunks = [];
+    }
+
+    /**
+     * Stops capturing and finishes the encoding.
+     * @returns The recorded animation, or null if nothing was recorded.
+     */
+    public async stop(): Promise<Blob | null> {
+        if (!this.timer) return null;
+
+        this.paused = false;
+        this.captureFrame();  // The final state is always part of the recording
+        clearInterval(this.timer);
+        this.timer = null;
+
+        if (this.gif) {
+            this.gif.finish();
+            const blob = new Blob([this.gif.bytes()], { type: "image/gif" });
+            this.gif = null;
+            return blob;
+        }
+
+        if (this.mediaRecorder) {
+            const mediaRecorder = this.mediaRecorder;
+            this.mediaRecorder = null;
+
+            // Wait until the last part of the video is available
+            await new Promise<void>(resolve => {
+                mediaRecorder.onstop = () => resolve();
+                mediaRecorder.stop();
+            });
+            return new Blob(this.chunks, { type: "video/webm" });
+        }
+
+        return null;
+    }
+
+    /**
+     * Composes all layers of the Cytoscape canvas into a single frame.
+     * For a GIF, the frame is encoded immediately, so the frames are not kept in memory.
+     * For a WebM, the frame is taken by the stream of the canvas.
+     * Nothing is captured while the recording is paused.
+     */
+    protected captureFrame(): void {
+        if (!this.container || !this.context || this.paused) return;
+
+        const { width, height } = this.canvas;
+        this.context.fillStyle = "#ffffff";
+        this.context.fillRect(0, 0, width, height);
+
+        // Cytoscape draws the graph in several canvas layers placed over each other
+        this.container.querySelectorAll("canvas").forEach(layer => {
+            this.context!.drawImage(layer, 0, 0, width, height);
+        });
+
+        if (this.gif) {
+            const data = this.context.getImageData(0, 0, width, height).data;
+            const palette = quantize(data, 256);
+            this.gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: this.frameDelay });
+        }
+    }
+}
@@ -1,5 +1,5 @@
-import BaseStructure, {NodeData} from "@/utils/base/baseStructure";
-import cytoscape, {StylesheetJson} from "cytoscape";
+import BaseStructure, {NodeData, StructureState} from "@/utils/base/baseStructure";
+import {StylesheetJson} from "cytoscape";
 
 const nodeHeight: number = 50
 const nodeWidth: number = 50
@@ -10,6 +10,7 @@ const initY: number = 300
 /**
  * Abstract class representing an array-based structure using Cytoscape.js.
  * This class extends BaseStructure and provides common methods for managing nodes in an array-like structure.
+ * The operations of the structure are defined by the child classes.
  */
 export default abstract class ArrayStructure extends BaseStructure {
     protected initNumber: number;           // Number of initialized array elements
@@ -20,7 +21,7 @@ export default abstract class ArrayStructure extends BaseStructure {
      * Constructor to initialize the array structure.
      * @param containerId - The ID of the HTML element where the structure is displayed.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         super(containerId);
         this.initNumber = 0;
         this.structureNodeArray = [];
@@ -94,7 +95,7 @@ export default abstract class ArrayStructure extends BaseStructure {
      * @param init - The number of nodes to initialize.
      *
      * Creates an array structure and index nodes for visualization.
-     * Each element and its index are placed horizontally with a fixed distance.
+     * The elements and their indices are placed by the position methods.
      */
     public initStructure(init: number): void {
         if (this.isInit) return;
@@ -108,20 +109,18 @@ export default abstract class ArrayStructure extends BaseStructure {
             const initNode: NodeData = {
                 id: "node " + i,
                 value: "",
-                x: initX + nodeWidth * i,
-                y: initY,
+                ...this.getElementPosition(i),
                 class: "arrayNode"
             };
             this.structureNodeArray.push(initNode);
         }
 
-        // Create index nodes below each data node
+        // Create index nodes for each data node
         for (let i = 0; i < this.initNumber; i++) {
             const indexNode: NodeData = {
                 id: "index " + i,
                 value: i,
-                x: initX + nodeWidth * i,
-                y: initY + 40,
+                ...this.getIndexPosition(i),
                 class: "indexNode"
             };
             this.tempNodeArray.push(indexNode);
@@ -132,6 +131,27 @@ export default abstract class ArrayStructure extends BaseStructure {
         this.isInit = true;
     }
 
+    /**
+     * Calculates the position of an array element.
+     * The elements are placed horizontally with a fixed distance.
+     * @param index - The index of the element.
+     * @returns The position of the element.
+     */
+    protected getElementPosition(index: number): { x: number, y: number } {
+        return { x: initX + nodeWidth * index, y: initY };
+    }
+
+    /**
+     * Calculates the position of the index of an array element.
+     * The index is placed below its element.
+     * @param index - The index of the element.
+     * @returns The position of the index.
+     */
+    protected getIndexPosition(index: number): { x: number, y: number } {
+        const { x, y } = this.getElementPosition(index);
+        return { x: x, y: y + 40 };
+    }
+
     /**
      * Initializes the graphical representation of the array structure.
      * Sets up the styles for array nodes and index nodes using Cytoscape.js.
@@ -182,15 +202,7 @@ export default abstract class ArrayStructure extends BaseStructure {
             }
         ];
 
-        this.graph = cytoscape({
-            container: document.getElementById(this.containerId),
-            style: graphStyles,
-            autolock: true,
-            autounselectify: true,
-            autoungrabify: true,
-            maxZoom: 2,
-            wheelSensitivity: 0.2
-        });
+        this.graph = this.createGraph(graphStyles);
     }
 
     /**
@@ -208,35 +220,40 @@ export default abstract class ArrayStructure extends BaseStructure {
     }
 
     /**
-     * Adds a new element to the array structure.
-     * Must be implemented in the child class.
-     * @param element - The value to be added.
+     * Saves the logical state of the array structure.
+     * Adds the array size, the array nodes and the temporary nodes to the base state.
+     * @returns A deep copy of the current state.
      */
-    public abstract addElement(element: string): void;
-
-    /**
-     * Removes an element from the array structure.
-     * Must be implemented in the child class.
-     */
-    public abstract removeElement(): void;
-
-    /**
-     * Checks whether the array structure is empty.
-     * Must be implemented in the child class.
-     */
-    public abstract isEmpty(): void;
+    public saveState(): StructureState {
+        return {
+            ...super.saveState(),
+            initNumber: this.initNumber,
+            structureNodeArray: JSON.parse(JSON.stringify(this.structureNodeArray)),
+            tempNodeArray: JSON.parse(JSON.stringify(this.tempNodeArray))
+        };
+    }
 
     /**
-     * Checks whether the array structure is full.
-     * Must be implemented in the child class.
+     * Sets the fields of the array structure from the given state.
+     * The displayed nodes are composed from the array nodes and the temporary nodes.
+     * @param state - The state to apply.
      */
-    public abstract isFull(): void;
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.initNumber = state.initNumber as number;
+        this.structureNodeArray = state.structureNodeArray as NodeData[];
+        this.tempNodeArray = state.tempNodeArray as NodeData[];
+        this.nodes = [...this.structureNodeArray, ...this.tempNodeArray];
+    }
 
     /**
-     * Retrieves the foremost element from the array structure.
-     * Must be implemented in the child class.
+     * Checks whether the value is a valid numeric key of the array.
+     * @param key - The value to check.
+     * @returns True if the value is a number of at most 3 digits written without leading zeros.
      */
-    public abstract foremostElement(): Promise<void>;
+    protected isValidKey(key: string): boolean {
+        return /^-?\d{1,3}$/.test(key) && String(parseInt(key, 10)) === key;
+    }
 
     /**
      * Inserts a new element into the array.
@@ -245,6 +262,14 @@ export default abstract class ArrayStructure extends BaseStructure {
      */
     protected abstract insertToArray(element: string): void;
 
+    /**
+     * Picks the number of nodes of a random structure.
+     * @returns A number between 5 and 10.
+     */
+    protected randomCapacity(): number {
+        return Math.floor(Math.random() * (10 - 5 + 1)) + 5;
+    }
+
     /**
      * Generates a random structure with a random number of elements.
      * Uses the parent method to initialize the structure, then fills it with random elements.
@@ -253,8 +278,8 @@ export default abstract class ArrayStructure extends BaseStructure {
         // Call the parent class method to initialize the basic structure
         super.randomStructure();
 
-        // Generate a random number of initial elements (between 5 and 10)
-        const initNum = Math.floor(Math.random() * (10 - 5 + 1)) + 5;
+        // Generate a random number of initial elements
+        const initNum = this.randomCapacity();
         this.initStructure(initNum);
 
         // Generate a random number of filled elements (between 2 and initNum - 3)
@@ -1,6 +1,12 @@
+import cytoscape, { StylesheetJson } from "cytoscape";
 import { i18n } from "@/i18n";
+import AnimationRecorder, { type RecordingFormat } from "@/utils/base/animationRecorder";
+import HeadlessGraph from "@/utils/base/headlessGraph";
 const t = i18n.global.t;
 
+// Version of the JSON format used to export and import structures
+export const structureJSONVersion: number = 1;
+
 /**
  * Represents the data structure for a single node in a graph.
  * Contains properties for node identification, position, appearance, and visibility.
@@ -25,6 +31,36 @@ export interface EdgeData {
     opacity?: number;        // Optional opacity for visibility control
 }
 
+/**
+ * Represents a single frame of the animation timeline.
+ * Holds a copy of the nodes and edges as they were drawn at one moment.
+ */
+export interface TimelineFrame {
+    nodes: NodeData[];       // Copy of the nodes in the frame
+    edges: EdgeData[];       // Copy of the edges in the frame
+}
+
+/**
+ * Represents the logical state of a structure at one moment.
+ * Holds the nodes and edges together with the fields specific to each structure.
+ */
+export interface StructureState {
+    isInit: boolean;         // Whether the structure was initialized
+    nodes: NodeData[];       // Copy of the nodes
+    edges: EdgeData[];       // Copy of the edges
+    [field: string]: unknown; // Additional fields of the specific structure
+}
+
+/**
+ * Represents the exported content of a structure.
+ * The version and the structure type are shared, the other fields depend on the structure.
+ */
+export interface StructureJSON {
+    version: number;         // Version of the JSON format
+    structure: string;       // Type of the exported structure
+    [field: string]: unknown; // Logical content of the specific structure
+}
+
 /**
  * BaseStructure - An abstract class that serves as the base for visualizing
  * data structures. Manages nodes, edges, and animation settings.
@@ -34,24 +70,34 @@ export default abstract class BaseStructure {
     protected isInit: boolean;                 // Flag to check if the structure is initialized
     protected nodes: NodeData[];               // Array of nodes in the structure
     protected edges: EdgeData[];               // Array of edges connecting the nodes
-    protected containerId: string;             // ID of the HTML element containing the graph
+    protected containerId: string | null;      // ID of the HTML element containing the graph, null if headless
+    protected structureType: string;           // Type of the structure used in exported files
     protected graph: any | null;               // The Cytoscape graph instance
     protected animationInProcess: boolean;     // Indicates if an animation is currently running
     protected animationSpeed: number;          // Speed of animations in milliseconds
     protected centeringEnable: boolean;        // Flag to enable or disable automatic centering
     protected paddingForCentering: number;     // Padding used when centering the graph
+    protected animationPaused: boolean;        // Indicates if the animation is paused at the next step
+    protected pendingStep: (() => void) | null; // Resolver of the step that is waiting to be released
+    protected timeline: TimelineFrame[];       // Frames recorded during the last operation
+    protected timelineIndex: number;           // Index of the frame currently displayed
+    protected recordingTimeline: boolean;      // Indicates if frames are being recorded
+    protected recordingFormat: RecordingFormat | null; // Format of the recorded operations, null if not recording
+    protected recorder: AnimationRecorder | null; // Recorder capturing the running operation
 
     /**
      * Constructor to initialize the base structure with a given container ID.
      * Sets up default properties for nodes, edges and animation
+     * Without a container, the structure runs headless - nothing is drawn and there are no delays.
      * @param containerId - The ID of the HTML element where the graph will be displayed.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         this.isInit = false;        // Initialize the structure as not set up
         this.nodes = [];            // Start with an empty list of nodes
         this.edges = [];            // Start with an empty list of edges
 
         this.containerId = containerId; // Store the container ID
+        this.structureType = "";        // Set by the child structure
         this.graph = null;          // No graph created
 
         this.animationInProcess = false; // No animation running initially
@@ -59,6 +105,16 @@ export default abstract class BaseStructure {
 
         this.centeringEnable = true;      // Enable centering by default
         this.paddingForCentering = 100;   // Default padding for centering the graph
+
+        this.animationPaused = false;     // Animations run continuously by default
+        this.pendingStep = null;          // No step is waiting
+
+        this.timeline = [];               // No operation recorded yet
+        this.timelineIndex = -1;          // No frame displayed from the timeline
+        this.recordingTimeline = false;   // Recording starts with the first operation
+
+        this.recordingFormat = null;      // Operations are not recorded as a video by default
+        this.recorder = null;             // No operation is being recorded
     }
 
     // Callback function for logging messages
@@ -97,6 +153,22 @@ export default abstract class BaseStructure {
         return this.isInit;
     }
 
+    /**
+     * Checks whether the structure runs without a container.
+     * @returns True if nothing is drawn, false otherwise.
+     */
+    public isHeadless(): boolean {
+        return this.containerId === null;
+    }
+
+    /**
+     * Gets the type of the structure.
+     * @returns The type used in exported files.
+     */
+    public getStructureType(): string {
+        return this.structureType;
+    }
+
     /**
      * Enables or disables automatic centering of the graph.
      * @param enable - Boolean flag to set centering on or off.
@@ -105,6 +177,14 @@ export default abstract class BaseStructure {
         this.centeringEnable = enable;
     }
 
+    /**
+     * Checks whether automatic centering of the graph is enabled.
+     * @returns True if the graph is centered after operations.
+     */
+    public isCenteringEnabled(): boolean {
+        return this.centeringEnable;
+    }
+
     // Callback function to update status information
     protected statusInfoCallback: ((status: string) => void) | null = null;
 
@@ -127,6 +207,25 @@ export default abstract class BaseStructure {
         this.animationStatusCallback = callback;
     }
 
+    // Callback function to receive the recorded animation
+    protected recordingCallback: ((recording: Blob, format: RecordingFormat) => void) | null = null;
+
+    /**
+     * Sets a callback function to receive the recording of each operation.
+     * @param callback - Function to be called with the recorded animation and its format.
+     */
+    public setRecordingCallback(callback: (recording: Blob, format: RecordingFormat) => void) {
+        this.recordingCallback = callback;
+    }
+
+    /**
+     * Enables or disables recording of the following operations.
+     * @param format - Format of the recording, or null to stop recording.
+     */
+    public setRecording(format: RecordingFormat | null): void {
+        this.recordingFormat = format;
+    }
+
     /**
      * Sets the speed for animations.
      * @param speed - The desired animation speed in milliseconds.
@@ -135,6 +234,14 @@ export default abstract class BaseStructure {
         this.animationSpeed = speed;
     }
 
+    /**
+     * Gets the speed of animations.
+     * @returns The animation speed in milliseconds.
+     */
+    public getAnimationSpeed(): number {
+        return this.animationSpeed;
+    }
+
     /**
      * Centers the graph within the canvas, making sure it fits well on the screen.
      * Adjusts the zoom and position to keep the graph in the middle.
@@ -149,6 +256,7 @@ export default abstract class BaseStructure {
 
         // If centering is not allowed and not explicitly requested, skip
         if (!this.centeringEnable && !enabled) return;
+        if (this.isHeadless()) return;
 
         const cy = this.graph;
         const elements = cy.elements();
@@ -186,6 +294,8 @@ export default abstract class BaseStructure {
      * Centers the graph if centering is enabled.
      */
     protected async beforeAnimationStarts() {
+        this.startTimeline();
+        this.startRecording();
         this.animationInProcess = true;
         this.animationStatusCallback?.(true);
 
@@ -214,6 +324,8 @@ export default abstract class BaseStructure {
             await this.wait(1.5);
         }
 
+        this.stopTimeline();
+        this.stopRecording();
         this.animationInProcess = false;
         this.animationStatusCallback?.(false);
         this.statusInfoCallback?.("");
@@ -225,19 +337,199 @@ export default abstract class BaseStructure {
      * Clears the status message.
      */
     protected afterAnimationWithoutChange() {
+        this.stopTimeline();
+        this.stopRecording();
         this.animationInProcess = false;
         this.animationStatusCallback?.(false);
         this.statusInfoCallback?.("");
     }
 
+    /**
+     * Starts capturing the canvas of the operation, if recording is enabled.
+     */
+    private startRecording(): void {
+        if (!this.recordingFormat || !this.graph || this.recorder || this.isHeadless()) return;
+
+        this.recorder = new AnimationRecorder(this.recordingFormat);
+        this.recorder.start(this.graph.container());
+    }
+
+    /**
+     * Stops capturing the canvas and passes the finished recording to the callback.
+     */
+    private async stopRecording(): Promise<void> {
+        const recorder = this.recorder;
+        if (!recorder) return;
+
+        this.recorder = null;
+        const recording = await recorder.stop();
+        if (recording) this.recordingCallback?.(recording, recorder.getFormat());
+    }
+
+    /**
+     * Starts recording a new timeline for the operation.
+     * If an older frame is displayed, the current state is drawn again first.
+     * The current state becomes the first frame.
+     */
+    private startTimeline(): void {
+        if (this.timelineIndex !== this.timeline.length - 1) this.updateGraph();
+
+        this.timeline = [this.createTimelineFrame()];
+        this.timelineIndex = 0;
+        this.recordingTimeline = true;
+    }
+
+    /**
+     * Stops recording the timeline.
+     * The final state of the structure is stored as the last frame.
+     */
+    private stopTimeline(): void {
+        this.recordTimelineFrame();
+        this.recordingTimeline = false;
+    }
+
+    /**
+     * Records the current nodes and edges into the timeline.
+     * Handles 2 cases:
+     * 1. Recording is active - adds a new frame unless it is the same as the last one.
+     * 2. Recording has finished - replaces the last frame, so it matches the current state.
+     */
+    private recordTimelineFrame(): void {
+        if (this.timeline.length === 0) return;
+
+        const frame: TimelineFrame = this.createTimelineFrame();
+        const lastFrame: TimelineFrame = this.timeline[this.timeline.length - 1];
+
+        // Case 1: Add the frame only if something has changed
+        if (this.recordingTimeline) {
+            if (JSON.stringify(frame) !== JSON.stringify(lastFrame)) {
+                this.timeline.push(frame);
+            }
+        }
+        // Case 2: Keep the last frame in sync with later updates
+        else {
+            this.timeline[this.timeline.length - 1] = frame;
+        }
+
+        this.timelineIndex = this.timeline.length - 1;
+    }
+
+    /**
+     * Creates a timeline frame from the current nodes and edges.
+     * @returns A deep copy of the nodes and edges.
+     */
+    private createTimelineFrame(): TimelineFrame {
+        return {
+            nodes: this.nodes.map(node => ({ ...node })),
+            edges: this.edges.map(edge => ({ ...edge }))
+        };
+    }
+
+    /**
+     * Gets the number of frames recorded during the last operation.
+     * @returns The number of frames in the timeline.
+     */
+    public getTimelineLength(): number {
+        return this.timeline.length;
+    }
+
+    /**
+     * Gets the index of the frame currently displayed.
+     * @returns The index of the displayed frame, or -1 if there is no timeline.
+     */
+    public getTimelineIndex(): number {
+        return this.timelineIndex;
+    }
+
+    /**
+     * Displays a frame of the timeline without changing the structure.
+     * Works only when no animation is running.
+     * @param index - The index of the frame to display.
+     */
+    public showTimelineFrame(index: number): void {
+        if (this.animationInProcess || !this.graph) return;
+
+        const frame: TimelineFrame | undefined = this.timeline[index];
+        if (!frame) return;
+
+        this.renderGraph(frame.nodes, frame.edges);
+        this.timelineIndex = index;
+    }
+
     /**
      * Pauses the animation for a given duration.
      * Uses a multiplier to adjust the waiting time.
+     * If the animation is paused, waits until it is resumed or stepped.
+     * A headless structure does not wait at all.
      * @param multiplier - Adjusts the wait time relative to the animation speed.
      * @returns A promise that resolves after the delay.
      */
-    protected wait(multiplier: number = 1): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, this.animationSpeed * multiplier));
+    protected async wait(multiplier: number = 1): Promise<void> {
+        if (this.isHeadless()) return;
+
+        await new Promise(resolve => setTimeout(resolve, this.animationSpeed * multiplier));
+
+        // Hold the animation here until it is resumed or a single step is requested, the recording waits as well
+        if (this.animationPaused) {
+            this.recorder?.pause();
+            await new Promise<void>(resolve => this.pendingStep = resolve);
+            this.recorder?.resume();
+        }
+    }
+
+    /**
+     * Pauses the animation.
+     * The running operation stops at its next step and waits for resume or step.
+     */
+    public pauseAnimation(): void {
+        this.animationPaused = true;
+    }
+
+    /**
+     * Resumes the paused animation.
+     * Releases the waiting step and continues at the normal speed.
+     */
+    public resumeAnimation(): void {
+        this.animationPaused = false;
+        this.releasePendingStep();
+    }
+
+    /**
+     * Advances the paused animation by a single step.
+     * The animation stays paused and stops again at the following step.
+     */
+    public stepAnimation(): void {
+        if (!this.animationPaused) return;
+        this.releasePendingStep();
+    }
+
+    /**
+     * Checks whether the animation is paused.
+     * @returns True if the animation is paused, false otherwise.
+     */
+    public isAnimationPaused(): boolean {
+        return this.animationPaused;
+    }
+
+    /**
+     * Stops the work that would outlive the view of the structure.
+     * The running recording is discarded and a paused animation is released, so the operation can finish.
+     */
+    public dispose(): void {
+        this.recorder?.cancel();
+        this.recorder = null;
+
+        this.animationPaused = false;
+        this.releasePendingStep();
+    }
+
+    /**
+     * Releases the step that is currently waiting in `wait()`, if there is one.
+     */
+    private releasePendingStep(): void {
+        const resolve = this.pendingStep;
+        this.pendingStep = null;
+        resolve?.();
     }
 
     /**
@@ -407,6 +699,10 @@ export default abstract class BaseStructure {
         this.nodes = [];
         this.edges = [];
 
+        // Forget the recorded timeline
+        this.timeline = [];
+        this.timelineIndex = -1;
+
         // Clear graph elements if the graph exists
         if (this.graph) {
             this.graph.elements().remove();
@@ -423,13 +719,165 @@ export default abstract class BaseStructure {
         this.resetStructure();
     }
 
+    /**
+     * Saves the logical state of the structure.
+     * Child structures extend the state with their own fields.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return JSON.parse(JSON.stringify({
+            isInit: this.isInit,
+            nodes: this.nodes,
+            edges: this.edges
+        }));
+    }
+
+    /**
+     * Restores a previously saved state without any animation.
+     * Rebuilds the graph from the restored nodes and edges.
+     * @param state - The state to restore.
+     * @returns True if the state was restored, false if an animation is running.
+     */
+    public restoreState(state: StructureState): boolean {
+        if (this.animationInProcess) return false;
+
+        // Clear the current graph
+        if (this.graph) {
+            this.graph.elements().remove();
+            this.graph = null;
+        }
+
+        // Forget the timeline, it belongs to the replaced state
+        this.timeline = [];
+        this.timelineIndex = -1;
+
+        this.applyState(JSON.parse(JSON.stringify(state)));
+
+        // Draw the restored structure
+        if (this.isInit) {
+            this.initGraph();
+            this.updateGraph();
+            this.centerCanvas(true);
+        }
+        return true;
+    }
+
+    /**
+     * Sets the fields of the structure from the given state.
+     * Child structures extend this method to set their own fields.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        this.isInit = state.isInit;
+        this.nodes = state.nodes;
+        this.edges = state.edges;
+    }
+
+    /**
+     * Exports the whole graph as a PNG image.
+     * @param scale - Scale of the image relative to the graph size.
+     * @param transparent - If true, the background is transparent, otherwise white.
+     * @returns The PNG image, or null if the graph is not initialized.
+     */
+    public exportPNG(scale: number = 1, transparent: boolean = false): Blob | null {
+        if (!this.graph) return null;
+
+        return this.graph.png({
+            output: "blob",
+            full: true,
+            scale: scale,
+            bg: transparent ? undefined : "#ffffff"
+        });
+    }
+
+    /**
+     * Exports the whole graph as an SVG image.
+     * Node images and labels are drawn the same way as on the canvas.
+     * @param scale - Scale of the image relative to the graph size.
+     * @param transparent - If true, the background is transparent, otherwise white.
+     * @returns The SVG document, or null if the graph is not initialized.
+     */
+    public exportSVG(scale: number = 1, transparent: boolean = false): string | null {
+        if (!this.graph) return null;
+
+        return this.graph.svg({
+            full: true,
+            scale: scale,
+            bg: transparent ? undefined : "#ffffff"
+        });
+    }
+
+    /**
+     * Exports the logical content of the structure.
+     * Must be implemented by the child class to describe its own content.
+     * @returns The versioned JSON representation of the structure.
+     */
+    public abstract toJSON(): StructureJSON;
+
+    /**
+     * Imports the logical content of the structure and draws it without animation.
+     * If the content is not valid, the previous state is kept.
+     * @param data - The parsed JSON representation of the structure.
+     * @returns True if the structure was imported, false otherwise.
+     */
+    public fromJSON(data: unknown): boolean {
+        if (this.animationInProcess) return false;
+
+        // Check the version and the type of the structure
+        const json = data as StructureJSON | null;
+        if (typeof json !== "object" || json === null ||
+            json.version !== structureJSONVersion || json.structure !== this.structureType) return false;
+
+        // Build the structure, restore the previous state if the content is not valid
+        const previousState: StructureState = this.saveState();
+        if (this.loadJSON(json)) return true;
+
+        this.restoreState(previousState);
+        return false;
+    }
+
+    /**
+     * Creates the JSON representation with the version and the structure type.
+     * @param fields - The logical content of the specific structure.
+     * @returns The versioned JSON representation of the structure.
+     */
+    protected createJSON(fields: Record<string, unknown>): StructureJSON {
+        return { version: structureJSONVersion, structure: this.structureType, ...fields };
+    }
+
+    /**
+     * Builds the structure from its JSON representation.
+     * Must be implemented by the child class to validate and load its own content.
+     * @param json - The JSON representation with a matching version and type.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected abstract loadJSON(json: StructureJSON): boolean;
+
+    /**
+     * Checks whether the value is a list of values that can be stored in a node.
+     * @param values - The value to check.
+     * @returns True if every item is a string or a number.
+     */
+    protected isListOfValues(values: unknown): values is (string|number)[] {
+        return Array.isArray(values) && values.every(value => typeof value === "string" || typeof value === "number");
+    }
+
+    /**
+     * Checks whether the value is a valid capacity of the structure.
+     * @param capacity - The value to check.
+     * @returns True if the value is a whole number between 1 and 99.
+     */
+    protected isValidCapacity(capacity: unknown): capacity is number {
+        return Number.isInteger(capacity) && (capacity as number) > 0 && (capacity as number) < 100;
+    }
+
     /**
      * Adjusts the position of the graph when a dialog window is opened.
      * Ensures that the structure remains visible and centered on the canvas.
      * @param openedDialog - Indicates whether the dialog window is currently opened.
      */
     public moveGraph(openedDialog: boolean): void {
-        if (this.graph != null) {
+        if (this.graph != null && !this.isHeadless()) {
             const canvasHeight: number = window.innerHeight;
 
             // Get the bounding box of the entire structure
@@ -461,9 +909,29 @@ export default abstract class BaseStructure {
      */
     protected abstract initGraph(): void;
 
+    /**
+     * Creates the graph with the given styles in the container of the structure.
+     * Without a container, a headless graph is created instead, which draws nothing.
+     * @param style - Styles of the graph elements.
+     * @returns The Cytoscape graph instance, or the headless graph.
+     */
+    protected createGraph(style: StylesheetJson): any {
+        if (this.containerId === null) return new HeadlessGraph();
+
+        return cytoscape({
+            container: document.getElementById(this.containerId),
+            style: style,
+            autolock: true,
+            autounselectify: true,
+            autoungrabify: true,
+            maxZoom: 2,
+            wheelSensitivity: 0.2
+        });
+    }
+
     /**
      * Updates the graph with current nodes and edges.
-     * Uses the "preset" layout to maintain the custom node positions.
+     * Every update is recorded as a frame of the timeline.
      */
     protected updateGraph(): void {
         if (!this.graph) {
@@ -471,9 +939,20 @@ export default abstract class BaseStructure {
             return;
         }
 
+        this.renderGraph(this.nodes, this.edges);
+        this.recordTimelineFrame();
+    }
+
+    /**
+     * Draws the given nodes and edges to the graph.
+     * Uses the "preset" layout to maintain the custom node positions.
+     * @param nodes - The nodes to draw.
+     * @param edges - The edges to draw.
+     */
+    private renderGraph(nodes: NodeData[], edges: EdgeData[]): void {
         // Clear existing elements and add updated nodes and edges
         this.graph.elements().remove();
-        this.graph.add([...this.getNodes(), ...this.getEdges()]);
+        this.graph.add([...this.getNodes(nodes), ...this.getEdges(edges)]);
 
         // Apply layout to keep nodes in their set positions without overlapping.
         this.graph.layout({ name: "preset", fit: false, avoidOverlap: true }).run();
@@ -482,10 +961,11 @@ export default abstract class BaseStructure {
     /**
      * Gets the nodes for the graph.
      * Maps each node data to the required format for Cytoscape.
+     * @param nodes - The nodes to map.
      * @returns An array of nodes formatted for graph rendering.
      */
-    private getNodes(): any[] {
-        return this.nodes.map(node => ({
+    private getNodes(nodes: NodeData[]): any[] {
+        return nodes.map(node => ({
             data: { id: node.id, value: node.value },
             position: { x: node.x, y: node.y },
             style: { opacity: node.opacity },
@@ -496,10 +976,11 @@ export default abstract class BaseStructure {
     /**
      * Gets the edges for the graph.
      * Maps each edge data to the required format for Cytoscape.
+     * @param edges - The edges to map.
      * @returns An array of edges formatted for graph rendering.
      */
-    private getEdges(): any[] {
-        return this.edges.map(edge => ({
+    private getEdges(edges: EdgeData[]): any[] {
+        return edges.map(edge => ({
             data: { source: edge.source, target: edge.target },
             style: { opacity: edge.opacity },
             classes: edge.class
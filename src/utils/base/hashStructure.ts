@@ -0,0 +1,186 @@
+import {StylesheetJson} from "cytoscape";
+import ArrayStructure from "@/utils/base/arrayStructure";
+import {NodeData, StructureState} from "@/utils/base/baseStructure";
+
+// Constant of the multiplication method suggested by Knuth
+const multiplicationConstant: number = (Math.sqrt(5) - 1) / 2
+
+// Hash functions that can be selected for the table
+export type HashFunction = "division" | "multiplication" | "digitSum";
+export const hashFunctions: HashFunction[] = ["division", "multiplication", "digitSum"];
+
+/**
+ * Abstract class representing a hash table using Cytoscape.js.
+ * This class extends ArrayStructure with the hash functions and the label describing the table.
+ * The way the keys are stored in the array is defined by the child classes.
+ */
+export default abstract class HashStructure extends ArrayStructure {
+    protected hashFunction: HashFunction;            // Hash function mapping the keys to the array
+
+    /**
+     * Constructor to initialize the hash structure.
+     * @param containerId - The ID of the HTML element where the structure is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.hashFunction = "division";
+    }
+
+    /**
+     * Counts the keys stored in the table.
+     * Must be implemented in the child class.
+     * @returns The number of keys.
+     */
+    protected abstract countKeys(): number;
+
+    /**
+     * Computes the index in the array for the key using the selected hash function.
+     * @param key - The key to hash.
+     * @returns The index in the array.
+     */
+    protected hash(key: string): number {
+        const k: number = parseInt(key, 10);
+        const m: number = this.initNumber;
+
+        switch (this.hashFunction) {
+            case "multiplication": {
+                // Fractional part of the key multiplied by the constant, scaled to the size of the table
+                const product: number = k * multiplicationConstant;
+                return Math.floor(m * (product - Math.floor(product)));
+            }
+            case "digitSum": {
+                // Sum of the digits of the key
+                const digitSum: number = String(Math.abs(k)).split("").reduce((sum, digit) => sum + Number(digit), 0);
+                return digitSum % m;
+            }
+            default:
+                // The remainder is kept non-negative for negative keys
+                return ((k % m) + m) % m;
+        }
+    }
+
+    /**
+     * Formats the selected hash function for the size of the table.
+     * @returns The formula of the hash function.
+     */
+    protected formatHashFunction(): string {
+        const m: number = this.initNumber;
+
+        switch (this.hashFunction) {
+            case "multiplication":
+                return `h(k) = ⌊${m} · (k · A mod 1)⌋`;
+            case "digitSum":
+                return `h(k) = Σkᵢ mod ${m}`;
+            default:
+                return `h(k) = k mod ${m}`;
+        }
+    }
+
+    /**
+     * Formats the load factor of the table, the number of keys divided by the size of the array.
+     * @returns The load factor with its calculation.
+     */
+    protected formatLoadFactor(): string {
+        const keyCount: number = this.countKeys();
+        return `α = ${keyCount} / ${this.initNumber} = ${(keyCount / this.initNumber).toFixed(2)}`;
+    }
+
+    /**
+     * Composes the lines of the label above the table.
+     * @returns The hash function and the load factor on separate lines.
+     */
+    protected formatHashInfo(): string {
+        return `${this.formatHashFunction()}\n${this.formatLoadFactor()}`;
+    }
+
+    /**
+     * Updates the label above the table with its current description.
+     * Creates the label if it does not exist yet.
+     */
+    protected updateHashInfo(): void {
+        const value: string = this.formatHashInfo();
+
+        const infoNode: NodeData|undefined = this.tempNodeArray.find(node => node.id === "hashInfo");
+        if (infoNode) {
+            infoNode.value = value;
+            return;
+        }
+
+        const { x, y } = this.getElementPosition(0);
+        this.tempNodeArray.push({
+            id: "hashInfo",
+            value: value,
+            x: x - 75,
+            y: y - 70,
+            class: "hashInfo"
+        });
+    }
+
+    /**
+     * Initializes the graph with predefined styles and settings.
+     * Adds the styles of the hashed array element and the label to the array styles.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const newStyles: StylesheetJson = [
+            {
+                selector: ".hashedBucket",
+                style: {
+                    "width": 50,
+                    "height": 50,
+                    "shape": "rectangle",
+                    "border-color": "black",
+                    "border-width": 1,
+                    "background-width": "100%",
+                    "background-height": "100%",
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHZpZXdCb3g9IjAgMCA2MCA2MCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3QgeD0iMC41IiB5PSIwLjUiIHdpZHRoPSI1OSIgaGVpZ2h0PSI1OSIgZmlsbD0iI0ZGRTI2RSIgc3Ryb2tlPSJibGFjayIvPgo8L3N2Zz4K",
+                    "label": "data(value)",
+                    "text-valign": "center",
+                    "text-halign": "center",
+                    "color": "black",
+                    "font-size": 16
+                }
+            },
+            {
+                selector: ".hashInfo",
+                style: {
+                    "width": 1,
+                    "height": 1,
+                    "background-opacity": 0,
+                    "label": "data(value)",
+                    "text-wrap": "wrap",
+                    "text-valign": "center",
+                    "text-halign": "right",
+                    "text-justification": "left",
+                    "line-height": 1.5,
+                    "color": "black",
+                    "font-size": 15
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...newStyles]);
+    }
+
+    /**
+     * Saves the logical state of the hash structure.
+     * Adds the hash function to the state of the array structure.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return {
+            ...super.saveState(),
+            hashFunction: this.hashFunction
+        };
+    }
+
+    /**
+     * Sets the fields of the hash structure from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.hashFunction = state.hashFunction as HashFunction;
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Bounding box of an empty graph.
+ */
+const emptyBox = { x1: 0, y1: 0, x2: 0, y2: 0, w: 0, h: 0 };
+
+/**
+ * HeadlessElement - Stands in for a Cytoscape element or collection.
+ * Accepts the calls used by the structures and draws nothing.
+ */
+class HeadlessElement {
+    public animate(): HeadlessElement { return this; }
+    public style(): HeadlessElement { return this; }
+    public remove(): HeadlessElement { return this; }
+    public boundingBox(): typeof emptyBox { return { ...emptyBox }; }
+    public renderedBoundingBox(): typeof emptyBox { return { ...emptyBox }; }
+}
+
+/**
+ * HeadlessStyle - Stands in for the Cytoscape stylesheet.
+ */
+class HeadlessStyle {
+    public json(): unknown[] { return []; }
+    public fromJson(): HeadlessStyle { return this; }
+}
+
+/**
+ * HeadlessGraph - A no-op renderer used instead of Cytoscape when a structure has no container.
+ * The structure keeps its logical model up to date, but nothing is drawn.
+ */
+export default class HeadlessGraph {
+    protected element: HeadlessElement = new HeadlessElement();
+    protected stylesheet: HeadlessStyle = new HeadlessStyle();
+
+    public $(): HeadlessElement { return this.element; }
+    public elements(): HeadlessElement { return this.element; }
+    public add(): HeadlessElement { return this.element; }
+    public layout(): { run: () => void } { return { run: () => {} }; }
+    public style(): HeadlessStyle { return this.stylesheet; }
+    public width(): number { return 0; }
+    public height(): number { return 0; }
+    public zoom(): number { return 1; }
+    public pan(): { x: number, y: number } { return { x: 0, y: 0 }; }
+    public animate(): HeadlessGraph { return this; }
+    public container(): HTMLElement | null { return null; }
+    public png(): null { return null; }
+    public svg(): null { return null; }
+}
@@ -0,0 +1,512 @@
+import {StylesheetJson} from "cytoscape";
+import ArrayStructure from "@/utils/base/arrayStructure";
+import {EdgeData, NodeData, StructureState, StructureJSON} from "@/utils/base/baseStructure";
+
+// Constants defining the layout of the tree above the array
+const treeNodeDiameter: number = 45
+const treeNodeSpacing: number = 60
+const treeLevelHeight: number = 75
+const treeOffsetY: number = 110
+
+// Orders of the heap, the root holds the minimum or the maximum
+export type HeapType = "min" | "max";
+export const heapTypes: HeapType[] = ["min", "max"];
+
+/**
+ * BinaryHeap - Represents a visualized binary heap using Cytoscape.js.
+ * This class inherits from ArrayStructure and shows the heap both as an array and as a complete binary tree.
+ * The node at the index i has its children at the indices 2i + 1 and 2i + 2, both views are highlighted together.
+ */
+export default class BinaryHeap extends ArrayStructure {
+    protected size: number;             // Number of keys stored in the heap
+    protected heapType: HeapType;       // Order of the heap
+
+    /**
+     * Constructor to create a new visual binary heap.
+     * @param containerId - The ID of the HTML element where the heap is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.size = 0;
+        this.heapType = "min";
+
+        this.structureType = "binaryHeap";
+    }
+
+    /**
+     * Gets the key stored at the index of the array.
+     * @param index - The index of the key.
+     * @returns The key as a number.
+     */
+    protected keyAt(index: number): number {
+        return parseInt(String(this.structureNodeArray[index].value), 10);
+    }
+
+    /**
+     * Checks whether the keys at two indices are in the order of the heap.
+     * @param upper - The index of the key that should be closer to the root.
+     * @param lower - The index of the other key.
+     * @returns True if the upper key is not greater (min-heap) or not smaller (max-heap) than the lower key.
+     */
+    protected isOrdered(upper: number, lower: number): boolean {
+        return this.heapType === "min"
+            ? this.keyAt(upper) <= this.keyAt(lower)
+            : this.keyAt(upper) >= this.keyAt(lower);
+    }
+
+    /**
+     * Swaps the keys at two indices of the array.
+     * @param first - The index of the first key.
+     * @param second - The index of the second key.
+     */
+    protected swap(first: number, second: number): void {
+        const value = this.structureNodeArray[first].value;
+        this.structureNodeArray[first].value = this.structureNodeArray[second].value;
+        this.structureNodeArray[second].value = value;
+    }
+
+    /**
+     * Finds the child that should be compared with its parent, the smaller child in a min-heap, the greater in a max-heap.
+     * @param index - The index of the parent.
+     * @returns The index of the child, or -1 if the parent is a leaf.
+     */
+    protected getPriorityChild(index: number): number {
+        const left: number = 2 * index + 1;
+        const right: number = left + 1;
+
+        if (left >= this.size) return -1;
+        return right < this.size && !this.isOrdered(left, right) ? right : left;
+    }
+
+    /**
+     * Checks whether every parent is in the order of the heap with its children.
+     * @returns True if the array fulfills the heap property.
+     */
+    public isHeap(): boolean {
+        for (let i = 1; i < this.size; i++) {
+            if (!this.isOrdered(Math.floor((i - 1) / 2), i)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Formats the keys of the heap in the order of the array.
+     * @returns The keys separated by commas.
+     */
+    protected formatKeys(): string {
+        return this.structureNodeArray.slice(0, this.size).map(node => node.value).join(", ");
+    }
+
+    /**
+     * Splits the list of values written by the user.
+     * @param values - The values separated by commas or spaces.
+     * @returns The separate values.
+     */
+    protected parseValues(values: string): string[] {
+        return values.split(/[\s,]+/).filter(value => value.length > 0);
+    }
+
+    /**
+     * Calculates the position of the tree node for the index of the array.
+     * The levels of the complete tree are placed above the array, the lowest level is as wide as the full tree.
+     * @param index - The index of the key.
+     * @returns The position of the tree node.
+     */
+    protected getTreeNodePosition(index: number): { x: number, y: number } {
+        const levels: number = Math.floor(Math.log2(this.initNumber)) + 1;
+        const level: number = Math.floor(Math.log2(index + 1));
+        const position: number = index + 1 - 2 ** level;
+
+        // The tree is centered above the array
+        const first = this.getElementPosition(0);
+        const last = this.getElementPosition(this.initNumber - 1);
+        const width: number = 2 ** (levels - 1) * treeNodeSpacing;
+        const slotWidth: number = width / 2 ** level;
+
+        return {
+            x: (first.x + last.x) / 2 - width / 2 + slotWidth * (position + 0.5),
+            y: first.y - treeOffsetY - (levels - 1 - level) * treeLevelHeight
+        };
+    }
+
+    /**
+     * Creates the tree view from the stored keys.
+     * Each tree node takes the key and the highlight of its array element, each node is connected to its parent.
+     */
+    protected createTreeView(): void {
+        this.tempNodeArray = this.tempNodeArray.filter(node => !String(node.id).startsWith("tree "));
+        this.edges = [];
+
+        for (let i = 0; i < this.size; i++) {
+            const arrayNode: NodeData = this.structureNodeArray[i];
+            this.tempNodeArray.push({
+                id: "tree " + i,
+                value: arrayNode.value,
+                ...this.getTreeNodePosition(i),
+                class: arrayNode.class!.replace("arrayNode", "heapNode")
+            });
+
+            if (i > 0) {
+                const edge: EdgeData = { source: "tree " + Math.floor((i - 1) / 2), target: "tree " + i, class: "heapEdge" };
+                this.edges.push(edge);
+            }
+        }
+    }
+
+    /**
+     * Updates the graph with the current nodes.
+     * The tree view is created again, so it always shows the same keys as the array.
+     */
+    protected setAndUpdateGraph(): void {
+        this.createTreeView();
+        super.setAndUpdateGraph();
+    }
+
+    /**
+     * Highlights the keys in the array and in the tree with an animation.
+     * @param indices - The indices of the keys to highlight.
+     * @param className - The class of the highlight.
+     */
+    protected async highlightWithAnimation(indices: number[], className: "comparedNode" | "swappedNode"): Promise<void> {
+        this.clearHighlight();
+        indices.forEach(index => this.structureNodeArray[index].class = `arrayNode ${className}`);
+
+        this.setAndUpdateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Removes the highlight from all keys.
+     */
+    protected clearHighlight(): void {
+        this.structureNodeArray.forEach(node => node.class = "arrayNode");
+    }
+
+    /**
+     * Moves the key up while it is not in the order of the heap with its parent.
+     * @param index - The index of the key.
+     */
+    protected siftUp(index: number): void {
+        let i: number = index;
+        while (i > 0 && !this.isOrdered(Math.floor((i - 1) / 2), i)) {
+            this.swap(i, Math.floor((i - 1) / 2));
+            i = Math.floor((i - 1) / 2);
+        }
+    }
+
+    /**
+     * Moves the key up with an animation while it is not in the order of the heap with its parent.
+     * Each comparison with the parent and each swap is highlighted in both views.
+     * @param index - The index of the key.
+     * @returns The final index of the key.
+     */
+    protected async siftUpWithAnimation(index: number): Promise<number> {
+        let i: number = index;
+
+        while (i > 0) {
+            const parent: number = Math.floor((i - 1) / 2);
+            await this.highlightWithAnimation([parent, i], "comparedNode");
+            if (this.isOrdered(parent, i)) break;
+
+            this.swap(parent, i);
+            await this.highlightWithAnimation([parent, i], "swappedNode");
+            i = parent;
+        }
+
+        this.clearHighlight();
+        this.setAndUpdateGraph();
+        return i;
+    }
+
+    /**
+     * Moves the key down with an animation while it is not in the order of the heap with its children.
+     * The key is compared with both children and swapped with the smaller one (min-heap) or the greater one (max-heap).
+     * @param index - The index of the key.
+     */
+    protected async siftDownWithAnimation(index: number): Promise<void> {
+        let i: number = index;
+
+        while (true) {
+            const child: number = this.getPriorityChild(i);
+            if (child === -1) break;
+
+            const children: number[] = [2 * i + 1, 2 * i + 2].filter(c => c < this.size);
+            await this.highlightWithAnimation([i, ...children], "comparedNode");
+            if (this.isOrdered(i, child)) break;
+
+            this.swap(i, child);
+            await this.highlightWithAnimation([i, child], "swappedNode");
+            i = child;
+        }
+
+        this.clearHighlight();
+        this.setAndUpdateGraph();
+    }
+
+    /**
+     * Restores the heap property of the whole array with an animation.
+     * The keys are sifted down from the last parent to the root.
+     */
+    protected async heapifyWithAnimation(): Promise<void> {
+        for (let i = Math.floor(this.size / 2) - 1; i >= 0; i--) {
+            await this.siftDownWithAnimation(i);
+        }
+    }
+
+    /**
+     * Inserts a new key into the heap without animation.
+     * If the heap is full, the key is not inserted.
+     * @param element - The key to insert.
+     */
+    protected insertToArray(element: string): void {
+        if (this.size >= this.initNumber) return;
+
+        this.structureNodeArray[this.size].value = element;
+        this.size++;
+        this.siftUp(this.size - 1);
+    }
+
+    /**
+     * Initializes the heap with the given capacity.
+     * @param capacity - The number of array elements.
+     */
+    public initStructure(capacity: number): void {
+        if (this.isInit) return;
+        super.initStructure(capacity);
+        this.size = 0;
+    }
+
+    /**
+     * Initializes the graph with predefined styles and settings.
+     * Adds the styles of the tree nodes, their edges and the highlighted keys to the array styles.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const newStyles: StylesheetJson = [
+            {
+                selector: ".heapNode",
+                style: {
+                    "width": treeNodeDiameter,
+                    "height": treeNodeDiameter,
+                    "shape": "ellipse",
+                    "border-color": "black",
+                    "border-width": 1,
+                    "background-width": "100%",
+                    "background-height": "100%",
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTUiIGhlaWdodD0iNTUiIHZpZXdCb3g9IjAgMCA1NSA1NSIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMjcuNSIgY3k9IjI3LjUiIHI9IjI3LjUiIGZpbGw9IiM4OUQxRDkiLz4KPC9zdmc+Cg==",
+                    "label": "data(value)",
+                    "text-valign": "center",
+                    "text-halign": "center",
+                    "color": "black",
+                    "font-size": 14
+                }
+            },
+            {
+                selector: ".heapNode.comparedNode",
+                style: {
+                    "border-width": 2,
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTUiIGhlaWdodD0iNTUiIHZpZXdCb3g9IjAgMCA1NSA1NSIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMjcuNSIgY3k9IjI3LjUiIHI9IjI3LjUiIGZpbGw9IiNFQUI0NzYiLz4KPC9zdmc+Cg==",
+                }
+            },
+            {
+                selector: ".heapNode.swappedNode",
+                style: {
+                    "border-width": 2,
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTUiIGhlaWdodD0iNTUiIHZpZXdCb3g9IjAgMCA1NSA1NSIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMjcuNSIgY3k9IjI3LjUiIHI9IjI3LjUiIGZpbGw9IiNENTg1N0MiLz4KPC9zdmc+Cg==",
+                }
+            },
+            {
+                selector: ".arrayNode.comparedNode",
+                style: {
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHZpZXdCb3g9IjAgMCA2MCA2MCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3QgeD0iMC41IiB5PSIwLjUiIHdpZHRoPSI1OSIgaGVpZ2h0PSI1OSIgZmlsbD0iI0VBQjQ3NiIgc3Ryb2tlPSJibGFjayIvPgo8L3N2Zz4K",
+                }
+            },
+            {
+                selector: ".arrayNode.swappedNode",
+                style: {
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHZpZXdCb3g9IjAgMCA2MCA2MCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3QgeD0iMC41IiB5PSIwLjUiIHdpZHRoPSI1OSIgaGVpZ2h0PSI1OSIgZmlsbD0iI0Q1ODU3QyIgc3Ryb2tlPSJibGFjayIvPgo8L3N2Zz4K",
+                }
+            },
+            {
+                selector: ".heapEdge",
+                style: {
+                    "width": 2,
+                    "line-color": "black",
+                    "curve-style": "straight",
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...newStyles]);
+    }
+
+    /**
+     * Resets the heap to an empty state.
+     * The order of the heap is kept for the next heap.
+     */
+    public resetStructure(): void {
+        if (this.animationInProcess) return;
+        super.resetStructure();
+        this.size = 0;
+    }
+
+    /**
+     * Saves the logical state of the heap.
+     * Adds the number of keys and the order of the heap to the state of the array structure.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return { ...super.saveState(), size: this.size, heapType: this.heapType };
+    }
+
+    /**
+     * Sets the fields of the heap from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.size = state.size as number;
+        this.heapType = state.heapType as HeapType;
+    }
+
+    /**
+     * Exports the logical content of the heap.
+     * @returns The capacity, the order of the heap and the keys in the order of the array.
+     */
+    public toJSON(): StructureJSON {
+        const values: string[] = this.structureNodeArray.slice(0, this.size).map(node => String(node.value));
+        return this.createJSON({ capacity: this.initNumber, heapType: this.heapType, values: values });
+    }
+
+    /**
+     * Builds the heap from its JSON representation.
+     * @param json - The JSON representation with the capacity, the order of the heap and the keys.
+     * @returns True if the keys fit in the array and fulfill the heap property, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { capacity, heapType, values } = json;
+        if (!this.isValidCapacity(capacity) || !heapTypes.includes(heapType as HeapType) ||
+            !this.isListOfValues(values) || values.length > capacity ||
+            !values.every(value => this.isValidKey(String(value)))) return false;
+
+        this.resetStructure();
+        this.heapType = heapType as HeapType;
+        this.initStructure(capacity);
+
+        // The keys are stored in the given order, so they must already form a heap
+        values.forEach((value, index) => this.structureNodeArray[index].value = String(value));
+        this.size = values.length;
+
+        this.setAndUpdateGraph();
+        return this.isHeap();
+    }
+
+    /**
+     * Inserts a new key into the heap with an animation.
+     * The key is added after the last key and sifted up.
+     * @param key - The key to insert.
+     */
+    public async insertKey(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        if (this.size >= this.initNumber) {
+            this.log("binaryHeap.insertFull", { key: key });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Add the key to the first free element
+        this.structureNodeArray[this.size].value = key;
+        this.size++;
+        await this.highlightWithAnimation([this.size - 1], "swappedNode");
+
+        const index: number = await this.siftUpWithAnimation(this.size - 1);
+
+        this.log("binaryHeap.insert", { key: key, index: index });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Removes the root of the heap with an animation, the minimum of a min-heap or the maximum of a max-heap.
+     * The last key replaces the root and is sifted down.
+     */
+    public async extractTop(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        if (this.size === 0) {
+            this.log("binaryHeap.extractEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        const key: string = String(this.structureNodeArray[0].value);
+        const last: number = this.size - 1;
+        await this.highlightWithAnimation([0, last], "swappedNode");
+
+        // Move the last key to the root
+        this.structureNodeArray[0].value = this.structureNodeArray[last].value;
+        this.structureNodeArray[last].value = "";
+        this.structureNodeArray[last].class = "arrayNode";
+        this.size--;
+        this.setAndUpdateGraph();
+        await this.wait();
+
+        await this.siftDownWithAnimation(0);
+
+        this.log(this.heapType === "min" ? "binaryHeap.extractMin" : "binaryHeap.extractMax", { key: key });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Builds the heap from the list of keys with an animation.
+     * The keys replace the content of the array and the parents are sifted down from the last one to the root.
+     * @param values - The keys separated by commas or spaces.
+     */
+    public async buildHeap(values: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        const keys: string[] = this.parseValues(values);
+        if (keys.length === 0 || !keys.every(key => this.isValidKey(key))) return;
+
+        await this.beforeAnimationStarts();
+
+        if (keys.length > this.initNumber) {
+            this.log("binaryHeap.buildFull", { count: keys.length, capacity: this.initNumber });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Store the keys in the given order
+        this.structureNodeArray.forEach((node, index) => node.value = keys[index] ?? "");
+        this.size = keys.length;
+        this.clearHighlight();
+        this.setAndUpdateGraph();
+        await this.wait();
+
+        await this.heapifyWithAnimation();
+
+        this.log("binaryHeap.build", { values: this.formatKeys() });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Changes the order of the heap and rebuilds it with an animation.
+     * @param heapType - The new order of the heap.
+     */
+    public async setHeapType(heapType: HeapType): Promise<void> {
+        if (this.animationInProcess || !this.isInit || !heapTypes.includes(heapType)) return;
+
+        await this.beforeAnimationStarts();
+
+        this.heapType = heapType;
+        await this.heapifyWithAnimation();
+
+        this.log("binaryHeap.heapType", { type: heapType, values: this.formatKeys() });
+        await this.afterAnimationEnds();
+    }
+}
@@ -1,5 +1,5 @@
-import BaseStructure, { NodeData, EdgeData } from "@/utils/base/baseStructure";
-import cytoscape, { StylesheetJson, StylesheetJsonBlock } from "cytoscape";
+import BaseStructure, { NodeData, EdgeData, StructureState, StructureJSON } from "@/utils/base/baseStructure";
+import { StylesheetJson, StylesheetJsonBlock } from "cytoscape";
 import { i18n } from "@/i18n";
 const t = i18n.global.t;
 
@@ -24,6 +24,16 @@ export interface TreeNodeData extends NodeData {
     right: number|string|null;   // ID of the right child node
 }
 
+/**
+ * Represents a node of the tree in the exported JSON.
+ * Children are nested directly, an empty subtree is null.
+ */
+export interface TreeNodeJSON {
+    key: string;                  // Key of the node
+    left: TreeNodeJSON | null;    // Left subtree
+    right: TreeNodeJSON | null;   // Right subtree
+}
+
 /**
  * BinarySearchTree - Represents a visualized binary search tree using Cytoscape.js.
  * This class inherits from BaseStructure and visualizes trees operations.
@@ -40,7 +50,7 @@ export default class BinarySearchTree extends BaseStructure {
      * Initializes the treeNodes array to store nodes,sets traversal output to an
      * empty string and disables traversal logging by default.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         super(containerId);
         this.treeNodes = [];
         this.traversalOutput = "";
@@ -48,6 +58,7 @@ export default class BinarySearchTree extends BaseStructure {
 
         // Set padding to center the list visualization
         this.paddingForCentering = 90;
+        this.structureType = "binarySearchTree";
     }
 
     /**
@@ -212,13 +223,21 @@ export default class BinarySearchTree extends BaseStructure {
     }
 
     /**
-     * Converts the tree structure into a graph format for visualization.
+     * Converts the tree structure into a graph format for visualization and draws it.
      * Creates visual nodes and edges based on the current tree.
-     * If the tree is empty, it shows a single "NULL" node.
      */
     protected transferTreeToGraph(): void {
         if (this.nodes.length === 0) return;
 
+        this.createGraphFromTree();
+        this.updateGraph();
+    }
+
+    /**
+     * Creates the visual nodes and edges from the current tree without drawing them.
+     * If the tree is empty, it shows a single "NULL" node.
+     */
+    protected createGraphFromTree(): void {
         // Keep the initial pointer and cursor node
         const initPointer: NodeData = this.nodes[0];
         const nodeCursor: NodeData = this.nodes[1];
@@ -282,9 +301,6 @@ export default class BinarySearchTree extends BaseStructure {
             target: rootNode.id,
             class: "defaultEdge",
         });
-
-        // Update the graph to show the new nodes and edges
-        this.updateGraph();
     }
 
     /**
@@ -1357,15 +1373,7 @@ export default class BinarySearchTree extends BaseStructure {
         ];
 
 
-        this.graph = cytoscape({
-            container: document.getElementById(this.containerId),
-            style: graphStyles,
-            autolock: true,
-            autounselectify: true,
-            autoungrabify: true,
-            maxZoom: 2,
-            wheelSensitivity: 0.2,
-        });
+        this.graph = this.createGraph(graphStyles);
     }
 
     /**
@@ -1420,6 +1428,230 @@ export default class BinarySearchTree extends BaseStructure {
         this.treeNodes = [];
     }
 
+    /**
+     * Saves the logical state of the binary search tree.
+     * Adds the tree nodes with their children to the base state.
+     * The node cursor is saved hidden at its initial position, so the operations that only move it keep the state.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        const state: StructureState = { ...super.saveState(), treeNodes: JSON.parse(JSON.stringify(this.treeNodes)) };
+
+        const nodeCursor: NodeData | undefined = state.nodes.find(node => node.id === "nodeCursor");
+        if (nodeCursor) Object.assign(nodeCursor, { x: 0, y: 0, opacity: 0 });
+        return state;
+    }
+
+    /**
+     * Sets the fields of the binary search tree from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.treeNodes = state.treeNodes as TreeNodeData[];
+        this.traversalOutput = "";
+        this.isTraversalLogging = false;
+    }
+
+    /**
+     * Exports the logical content of the binary search tree.
+     * @returns The shape of the tree with the keys of its nodes.
+     */
+    public toJSON(): StructureJSON {
+        // Recursively convert the subtree with the given root
+        const toTreeJSON = (nodeId: string | number | null): TreeNodeJSON | null => {
+            const node: TreeNodeData | undefined = this.isNodeValid(nodeId) ? this.findNodeInTreeNodes(nodeId) : undefined;
+            if (!node) return null;
+
+            return { key: String(node.value), left: toTreeJSON(node.left), right: toTreeJSON(node.right) };
+        };
+
+        const rootNode: TreeNodeData | undefined = this.treeNodes[0];
+        return this.createJSON({ root: rootNode ? toTreeJSON(rootNode.id) : null });
+    }
+
+    /**
+     * Builds the binary search tree from its JSON representation.
+     * The keys are inserted in pre-order, so a valid tree keeps its shape.
+     * @param json - The JSON representation with the shape of the tree.
+     * @returns True if the content was a valid binary search tree, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const keys: string[] = [];
+
+        /**
+         * Recursively validates the subtree and collects its keys in pre-order.
+         * @param subtree - The subtree to check.
+         * @returns The normalized subtree, or undefined if it is not valid.
+         */
+        const readTree = (subtree: unknown): TreeNodeJSON | null | undefined => {
+            if (subtree === null) return null;
+            if (typeof subtree !== "object") return undefined;
+
+            const { key, left, right } = subtree as Record<string, unknown>;
+            if ((typeof key !== "string" && typeof key !== "number") || String(key).trim() === "" ||
+                !Number.isFinite(Number(key)) || keys.includes(String(key))) return undefined;
+            keys.push(String(key));
+
+            const leftTree = readTree(left);
+            const rightTree = readTree(right);
+            if (leftTree === undefined || rightTree === undefined) return undefined;
+
+            return { key: String(key), left: leftTree, right: rightTree };
+        };
+
+        const root: TreeNodeJSON | null | undefined = readTree(json.root ?? null);
+        if (root === undefined) return false;
+
+        this.resetStructure();
+        this.initStructure();
+        this.buildTree(keys);
+
+        // The keys must not be in the order of a binary search tree if the shape has changed
+        return JSON.stringify(this.toJSON().root) === JSON.stringify(root);
+    }
+
+    /**
+     * Finds the parent of the node.
+     * @param nodeId - The ID of the child node.
+     * @returns The parent node, or undefined if the node is the root.
+     */
+    protected findParentNode(nodeId: string | number): TreeNodeData | undefined {
+        return this.treeNodes.find(n => n.left === nodeId || n.right === nodeId);
+    }
+
+    /**
+     * Renames the null nodes after their current parent.
+     * The null children of a node are always named "null-{parent}-left" and "null-{parent}-right".
+     */
+    protected renameNullNodes(): void {
+        // Collect the links first, so the renamed nodes do not clash with the original names
+        const nullLinks = this.treeNodes.flatMap(parent => (["left", "right"] as const)
+            .map(side => ({ parent, side, child: this.findNodeWithClassInTreeNodes(parent[side], "nullNode") })))
+            .filter(link => link.parent.class !== "nullNode" && link.child !== undefined);
+
+        nullLinks.forEach(({ parent, side, child }) => {
+            child!.id = `null-${parent.id}-${side}`;
+            parent[side] = child!.id;
+        });
+    }
+
+    /**
+     * Rotates the subtree of the node without animation.
+     * @param node - The root of the rotated subtree.
+     * @param direction - The direction of the rotation.
+     * @returns The child that becomes the new root of the subtree.
+     *
+     * In the right rotation, the left child takes the place of the node and the node becomes its right child.
+     * The former right subtree of the child becomes the left subtree of the node. The left rotation is symmetric.
+     */
+    protected rotate(node: TreeNodeData, direction: "left" | "right"): TreeNodeData {
+        const childSide: "left" | "right" = direction === "right" ? "left" : "right";
+        const child: TreeNodeData = this.findNodeInTreeNodes(node[childSide])!;
+        const parent: TreeNodeData | undefined = this.findParentNode(node.id);
+
+        // The inner subtree of the child moves under the node
+        node[childSide] = child[direction];
+        child[direction] = node.id;
+
+        // Link the child in place of the node
+        if (parent) {
+            if (parent.left === node.id) parent.left = child.id;
+            else parent.right = child.id;
+        } else {
+            // The child becomes the root - the root is always the first tree node
+            this.treeNodes.splice(this.treeNodes.indexOf(child), 1);
+            this.treeNodes.unshift(child);
+        }
+
+        this.renameNullNodes();
+        return child;
+    }
+
+    /**
+     * Gets the current positions of the tree nodes.
+     * @returns The positions of the nodes keyed by the node.
+     */
+    private getTreeNodePositions(): Map<TreeNodeData, { x: number, y: number }> {
+        return new Map(this.treeNodes.map(node => [node, { x: node.x, y: node.y }]));
+    }
+
+    /**
+     * Gets the drawn nodes that move together with the tree node.
+     * Trees showing labels next to their nodes add the labels.
+     * @param treeNode - The moved tree node.
+     * @param position - The new position of the tree node.
+     * @returns The IDs of the drawn nodes with their new positions.
+     */
+    protected getGraphNodeTargets(treeNode: TreeNodeData, position: { x: number, y: number }): { id: string|number, x: number, y: number }[] {
+        return [{ id: treeNode.id, x: position.x, y: position.y }];
+    }
+
+    /**
+     * Moves the drawn tree nodes to the given positions.
+     * @param positions - The positions of the tree nodes.
+     * @param animate - Whether the nodes move with an animation.
+     */
+    private moveGraphNodes(positions: Map<TreeNodeData, { x: number, y: number }>, animate: boolean): void {
+        positions.forEach((position, treeNode) => {
+            this.getGraphNodeTargets(treeNode, position).forEach(({ id, x, y }) => {
+                const node = this.nodes.find(n => n.id === id);
+                if (!node) return;
+
+                node.x = x;
+                node.y = y;
+                if (animate) {
+                    this.findNodeInGraph(node).animate({ position: { x, y } }, { duration: this.animationSpeed });
+                }
+            });
+        });
+    }
+
+    /**
+     * Rotates the subtree of the node with an animation.
+     * @param node - The root of the rotated subtree.
+     * @param direction - The direction of the rotation.
+     *
+     * The rotation is shown in 3 steps:
+     * 1. Highlights the edge between the node and the child that takes its place.
+     * 2. Changes the links while the nodes stay at their previous positions.
+     * 3. Moves the nodes to the positions of the rotated tree.
+     */
+    protected async rotateWithAnimation(node: TreeNodeData, direction: "left" | "right"): Promise<void> {
+        const child: TreeNodeData = this.findNodeInTreeNodes(direction === "right" ? node.left : node.right)!;
+
+        // Step 1: Highlight the edge around which the subtree rotates
+        const edge = this.edges.find(e => e.source === node.id && e.target === child.id);
+        if (edge) {
+            edge.class = "highlightEdge";
+            this.updateGraph();
+            await this.wait();
+        }
+
+        // Step 2: Change the links, keep the nodes where they were
+        const previousPositions = this.getTreeNodePositions();
+        this.rotate(node, direction);
+        this.createGraphFromTree();
+        const newPositions = this.getTreeNodePositions();
+
+        this.moveGraphNodes(previousPositions, false);
+        this.updateGraph();
+        await this.wait();
+
+        // Step 3: Move the nodes to their new positions
+        this.moveGraphNodes(newPositions, true);
+        await this.wait();
+
+        this.transferTreeToGraph();
+    }
+
+    /**
+     * Restores the balance of the tree after a node was inserted or deleted.
+     * The binary search tree is not balanced, balanced trees override this method.
+     * @param key - The key of the inserted or deleted node.
+     */
+    protected async balanceTreeWithAnimation(key: string|number): Promise<void> {}
+
     /**
      * Inserts a new node into the binary search tree.
      * @param key - The value of the new node to insert.
@@ -1437,6 +1669,7 @@ export default class BinarySearchTree extends BaseStructure {
         if (this.treeNodes.length > 1) this.showNodeCursor(); // Show the cursor if the tree is not empty
         await this.addNodeWithAnimation(rootNode.id, key);    // Add the node with an animation
         this.hideNodeCursor();  // Hide the cursor after insertion
+        await this.balanceTreeWithAnimation(key);
 
         await this.afterAnimationEnds();
     }
@@ -1465,6 +1698,7 @@ export default class BinarySearchTree extends BaseStructure {
         this.showNodeCursor();  // Show the cursor during deletion
         await this.removeNodeWithAnimation(rootNode.id, key);  // Remove the node with animation
         this.hideNodeCursor();  // Hide the cursor after deletion
+        await this.balanceTreeWithAnimation(key);
 
         await this.afterAnimationEnds();
     }
@@ -1649,15 +1883,46 @@ export default class BinarySearchTree extends BaseStructure {
             Array.from({ length: nodeCount }, () => Math.floor(Math.random() * 100))
         ));
 
-        if (this.treeNodes.length === 0) return;
+        this.buildTree(keys.map(key => String(key)));
+
+        // Center the canvas after generating the structure
+        this.centerCanvas(true);
+    }
+
+    /**
+     * Orders the keys so that inserting them one by one builds a balanced tree.
+     * @param keys - The keys to order.
+     * @returns The keys in the order of insertion.
+     */
+    protected balancedOrder(keys: string[]): string[] {
+        const sortedKeys: string[] = [...keys].sort((a, b) => Number(a) - Number(b));
+
+        // The middle key of each range becomes the root of its subtree
+        const order = (from: number, to: number): string[] => {
+            if (from > to) return [];
+            const middle: number = Math.floor((from + to) / 2);
+            return [sortedKeys[middle], ...order(from, middle - 1), ...order(middle + 1, to)];
+        };
+
+        return order(0, sortedKeys.length - 1);
+    }
+
+    /**
+     * Builds the binary search tree by inserting the keys without animation.
+     * @param keys - The keys to insert, the first one becomes the root.
+     *
+     * Expects an initialized empty tree.
+     */
+    protected buildTree(keys: string[]): void {
+        if (this.treeNodes.length === 0 || keys.length === 0) return;
 
         const nodeMap: Record<string, TreeNodeData> = {};
 
         // Replace the nullNode with the root node
-        const rootKey = keys.shift()!;
+        const [rootKey, ...otherKeys] = keys;
         const rootNode = this.treeNodes[0];
-        rootNode.id = String(rootKey);
-        rootNode.value = String(rootKey);
+        rootNode.id = rootKey;
+        rootNode.value = rootKey;
         rootNode.class = "defaultNode";
 
         // Map the root node and create its null children
@@ -1666,10 +1931,10 @@ export default class BinarySearchTree extends BaseStructure {
         this.transferTreeToGraph();
 
         // Add remaining nodes to the tree
-        for (const key of keys) {
+        for (const key of otherKeys) {
             const newNode: TreeNodeData = {
-                id: String(key),
-                value: String(key),
+                id: key,
+                value: key,
                 x: 0,
                 y: 0,
                 left: null,
@@ -1684,9 +1949,6 @@ export default class BinarySearchTree extends BaseStructure {
             this.insertIntoTreeById(rootNode.id, newNode, nodeMap);
             this.transferTreeToGraph();
         }
-
-        // Center the canvas after generating the structure
-        this.centerCanvas(true);
     }
 
     /**
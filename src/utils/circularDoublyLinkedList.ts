@@ -0,0 +1,351 @@
+import DoublyLinkedList from "@/utils/doublyLinkedList";
+import { circleEdgeStyles } from "@/utils/singlyLinkedList";
+import { StylesheetJsonBlock } from "cytoscape";
+import { EdgeData, NodeData, StructureState } from "@/utils/base/baseStructure";
+
+/**
+ * CircularDoublyLinkedList - Represents a visualized circular doubly linked list.
+ * This class inherits from DoublyLinkedList and links the last node to the first one in both directions.
+ * The circular edge goes from the last node to the first one and the reverse circular edge back.
+ */
+export default class CircularDoublyLinkedList extends DoublyLinkedList {
+    protected lastNode: NodeData | null;   // Stores the last node that has a circular edge.
+    protected firstNode: NodeData | null;  // Stores the first node that the circular edge points to.
+    protected addingInProcess: boolean;    // Indicates whether a new node is currently being added.
+
+    /**
+     * Constructor for initializing a circular doubly linked list.
+     * @param containerId - The ID of the HTML element where the list will be displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.lastNode = null;
+        this.firstNode = null;
+        this.addingInProcess = false;
+
+        this.structureType = "circularDoublyLinkedList";
+    }
+
+    /**
+     * Checks if the edge is one of the circular edges.
+     * @param edge - The edge to check.
+     * @returns True if the edge connects the last and the first node.
+     */
+    protected isCircleEdge(edge: EdgeData): boolean {
+        return edge.class === "circleEdge" || edge.class === "singleNodeCircleEdge" ||
+            edge.class === "reverseCircleEdge" || edge.class === "singleNodeReverseCircleEdge";
+    }
+
+    /**
+     * Finds the index of a non-circular edge in the edge array.
+     * With two nodes, the circular edges connect the same nodes as the edges between them.
+     * @param edge - The edge to find.
+     * @returns The index of the specified edge, or -1 if not found.
+     */
+    protected findIndexOfEdgeInArray(edge: EdgeData): number {
+        return this.edges.findIndex(e => e.source === edge.source && e.target === edge.target && !this.isCircleEdge(e));
+    }
+
+    /**
+     * Finds an edge connecting the given source and target nodes.
+     * Excludes the circular edges.
+     * @param sourceNode - The starting node of the edge.
+     * @param targetNode - The ending node of the edge.
+     * @returns The found edge or undefined if no matching edge is found.
+     */
+    protected findEdgeInArray(sourceNode: NodeData|null, targetNode: NodeData|null): EdgeData|undefined {
+        if (sourceNode === null && targetNode === null) return undefined;
+
+        return this.edges.find(edge =>
+            (sourceNode === null || edge.source === sourceNode.id) &&
+            (targetNode === null || edge.target === targetNode.id) &&
+            !this.isCircleEdge(edge));
+    }
+
+    /**
+     * Normalizes the graph structure to maintain consistency.
+     * Calls the parent class method to normalize,
+     * then updates the circular edges to maintain the circular property of the list.
+     */
+    protected normalizeGraph(): void {
+        super.normalizeGraph();
+        this.addCircularEdges();
+    }
+
+    /**
+     * Adds or updates the circular edges in the same way as the circular singly linked list.
+     * The reverse circular edge is created from the circular edge like the other reverse edges.
+     * Handles three cases:
+     * 1. The list is empty - the circular edges of the deleted node are removed.
+     * 2. Initial circular edges creation.
+     * 3. Updating the circular edges after the first or last node has changed.
+     */
+    protected addCircularEdges(): void {
+        const firstIndex: number = this.firstNodeIndex();
+
+        // Case 1: Only the initial pointers are left
+        if (this.nodes.length <= firstIndex) {
+            this.edges = this.edges.filter(edge => !this.isCircleEdge(edge));
+            this.lastNode = null;
+            this.firstNode = null;
+            return;
+        }
+
+        // Case 2: Initial circular edges creation
+        if (this.lastNode === null && this.firstNode === null) {
+            this.lastNode = this.nodes[this.nodes.length - 1];
+            this.firstNode = this.nodes[firstIndex];
+
+            const circleEdge: EdgeData = {
+                source: this.lastNode.id,
+                target: this.firstNode.id,
+                class: "singleNodeCircleEdge",
+                opacity: 1
+            };
+            const reverseCircleEdge: EdgeData = {
+                ...this.returnReverseEdge(circleEdge),
+                class: "singleNodeReverseCircleEdge",
+                opacity: 1
+            };
+
+            this.edges.push(circleEdge, reverseCircleEdge);
+        }
+
+        // Case 3: Update the circular edges if no node addition animation is in progress
+        else if (!this.addingInProcess) {
+            this.lastNode = this.nodes[this.nodes.length - 1];
+            this.firstNode = this.nodes[firstIndex];
+            const isSingleNode: boolean = this.lastNode === this.firstNode;
+
+            this.edges.forEach(edge => {
+                if (edge.class === "circleEdge" || edge.class === "singleNodeCircleEdge") {
+                    // Link from the last node to the first one
+                    edge.source = this.lastNode!.id;
+                    edge.target = this.firstNode!.id;
+                    edge.class = isSingleNode ? "singleNodeCircleEdge" : "circleEdge";
+                }
+                else if (edge.class === "reverseCircleEdge" || edge.class === "singleNodeReverseCircleEdge") {
+                    // Link from the first node back to the last one
+                    edge.source = this.firstNode!.id;
+                    edge.target = this.lastNode!.id;
+                    edge.class = isSingleNode ? "singleNodeReverseCircleEdge" : "reverseCircleEdge";
+                }
+            });
+        }
+
+        // Both end nodes now have links in both directions
+        this.setClassToNodes();
+    }
+
+    /**
+     * Inserts a node using the method of the parent class.
+     * The circular edges keep pointing to the previous first and last node during the animation
+     * and are moved after the new node is placed to the list.
+     * @param insert - The insertion method of the parent class.
+     */
+    protected async insertWithCircularEdges(insert: () => Promise<void>): Promise<void> {
+        this.addingInProcess = true;
+        await insert();
+        this.addingInProcess = false;
+
+        // Update the circular edges after the node insertion
+        this.addCircularEdges();
+        this.updateGraph();
+    }
+
+    /**
+     * Initializes the graph with the styles of the doubly linked list.
+     * Adds the styles of the circular edges and the reverse circular edges under the nodes.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const reverseEdgeStyles: StylesheetJsonBlock[] = [
+            {
+                selector: ".singleNodeReverseCircleEdge",
+                style: {
+                    'width': 2,
+                    'line-color': 'black',
+                    'target-arrow-shape': 'triangle',
+                    'target-arrow-color': 'black',
+
+                    'curve-style': 'unbundled-bezier',
+                    'loop-direction': '180deg',
+                    'loop-sweep': '-60deg',
+                }
+            },
+            {
+                selector: ".reverseCircleEdge",
+                style: {
+                    'width': 2,
+                    'line-color': 'black',
+                    'target-arrow-shape': 'triangle',
+                    'target-arrow-color': 'black',
+
+                    'curve-style': 'unbundled-bezier',
+                    'control-point-distances': [125],
+                    'control-point-weights': [0.5],
+
+                    'source-endpoint': '180deg',
+                    'target-endpoint': '180deg'
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...circleEdgeStyles, ...reverseEdgeStyles]);
+    }
+
+    /**
+     * Resets the circular doubly linked list to its initial state.
+     * Clears the last and first nodes and sets the adding process to false.
+     */
+    public resetStructure(): void {
+        if (this.animationInProcess) return;
+
+        super.resetStructure();
+        this.lastNode = null;
+        this.firstNode = null;
+        this.addingInProcess = false;
+    }
+
+    /**
+     * Sets the fields of the circular doubly linked list from the given state.
+     * The first and last nodes of the circular edges are taken from the restored nodes.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.addingInProcess = false;
+
+        // Only the initial pointers are left - no circular edges exist
+        if (this.nodes.length <= this.firstNodeIndex()) {
+            this.lastNode = null;
+            this.firstNode = null;
+        } else {
+            this.firstNode = this.nodes[this.firstNodeIndex()];
+            this.lastNode = this.nodes[this.nodes.length - 1];
+        }
+    }
+
+    /**
+     * Inserts a new node at the beginning of the circular doubly linked list.
+     * @param element - The value to be inserted as the first node.
+     */
+    public async insertFirstNode(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.insertWithCircularEdges(() => super.insertFirstNode(element));
+    }
+
+    /**
+     * Inserts a new node at the end of the circular doubly linked list.
+     * @param element - The value to be inserted as the last node.
+     */
+    public async insertLastNode(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.insertWithCircularEdges(() => super.insertLastNode(element));
+    }
+
+    /**
+     * Inserts a new node after the active node.
+     * After the last node, the new node becomes the last one.
+     * @param element - The value to be inserted after the active node.
+     */
+    public async insertAfterActiveNode(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit || this.activeNode == null) return;
+
+        await this.insertWithCircularEdges(() => super.insertAfterActiveNode(element));
+    }
+
+    /**
+     * Inserts a new node before the active node.
+     * Before the first node, the new node becomes the first one.
+     * @param element - The value to be inserted before the active node.
+     */
+    public async insertBeforeActiveNode(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit || this.activeNode == null) return;
+
+        await this.insertWithCircularEdges(() => super.insertBeforeActiveNode(element));
+    }
+
+    /**
+     * Deletes the node that comes after the active node.
+     * Handles 2 cases:
+     * 1. Active node is the last node pointing to the first (circular link) - deletes the first node.
+     * 2. Standard case - the next node after the active one is deleted.
+     */
+    public async deleteAfterActiveNode(): Promise<void> {
+        if (this.animationInProcess || !this.isInit || this.activeNode == null) return;
+
+        // Case 1: Active node is the last one and points to the first node (circular link)
+        if (this.activeNode === this.nodes.length - 1 && this.activeNode !== this.firstNodeIndex()) {
+            await this.deleteFirstNode();
+        }
+        else {
+            // Case 2: Use the standard deletion from the parent class
+            await super.deleteAfterActiveNode();
+        }
+    }
+
+    /**
+     * Deletes the node that comes before the active node.
+     * Handles 2 cases:
+     * 1. Active node is the first node pointing to the last (circular link) - deletes the last node.
+     * 2. Standard case - the previous node before the active one is deleted.
+     */
+    public async deleteBeforeActiveNode(): Promise<void> {
+        if (this.animationInProcess || !this.isInit || this.activeNode == null) return;
+
+        // Case 1: Active node is the first one and points to the last node (circular link)
+        if (this.activeNode === this.firstNodeIndex() && this.activeNode !== this.nodes.length - 1) {
+            await this.deleteLastNode();
+        }
+        else {
+            // Case 2: Use the standard deletion from the parent class
+            await super.deleteBeforeActiveNode();
+        }
+    }
+
+    /**
+     * Activates the next node in the circular doubly linked list.
+     * If the active node is the last one, it loops back to the first node.
+     */
+    public async activateNextNode(): Promise<void> {
+        if (this.animationInProcess || !this.isInit || this.activeNode == null) return;
+
+        await this.beforeAnimationStarts();
+
+        // Move to the next node, loop back to the first node after the last one
+        this.activeNode++;
+        if (this.activeNode >= this.nodes.length) {
+            this.activeNode = this.firstNodeIndex();
+        }
+
+        this.setClassToNodes();
+        this.updateGraph();
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Activates the previous node in the circular doubly linked list.
+     * If the active node is the first one, it loops back to the last node.
+     */
+    public async activatePreviousNode(): Promise<void> {
+        if (this.animationInProcess || !this.isInit || this.activeNode == null) return;
+
+        await this.beforeAnimationStarts();
+
+        // Move to the previous node, loop back to the last node before the first one
+        this.activeNode--;
+        if (this.activeNode < this.firstNodeIndex()) {
+            this.activeNode = this.nodes.length - 1;
+        }
+
+        this.setClassToNodes();
+        this.updateGraph();
+
+        await this.afterAnimationEnds();
+    }
+}
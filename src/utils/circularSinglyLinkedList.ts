@@ -1,6 +1,5 @@
 import SinglyLinkedList from "@/utils/singlyLinkedList";
-import { StylesheetJsonBlock } from "cytoscape";
-import { EdgeData, NodeData } from "@/utils/base/baseStructure";
+import { EdgeData, NodeData, StructureState } from "@/utils/base/baseStructure";
 
 /**
  * CircularSinglyLinkedList - Represents a visualized circular singly linked list.
@@ -15,7 +14,7 @@ export default class CircularSinglyLinkedList extends SinglyLinkedList {
      * Constructor for initializing a circular singly linked list.
      * @param containerId - The ID of the HTML element where the list will be displayed.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         super(containerId);
         this.lastNode = null;
         this.firstNode = null;
@@ -23,6 +22,7 @@ export default class CircularSinglyLinkedList extends SinglyLinkedList {
 
         // Adjust padding to center the circular list.
         this.paddingForCentering = 200;
+        this.structureType = "circularSinglyLinkedList";
     }
 
     /**
@@ -148,50 +148,6 @@ export default class CircularSinglyLinkedList extends SinglyLinkedList {
         }
     }
 
-    /**
-     * Initializes the graph with predefined styles and settings.
-     * Sets up a custom style for the circle edge.
-     */
-    protected initGraph(): void {
-        super.initGraph();
-
-        const newEdgeStyles: StylesheetJsonBlock[] = [
-            {
-                selector: ".singleNodeCircleEdge",
-                style: {
-                    'width': 2,
-                    'line-color': 'black',
-                    'target-arrow-shape': 'triangle',
-                    'target-arrow-color': 'black',
-
-                    'curve-style': 'unbundled-bezier',
-                    'loop-direction': '0deg',
-                    'loop-sweep': '-60deg',
-                }
-            },
-            {
-                selector: ".circleEdge",
-                style: {
-                    'width': 2,
-                    'line-color': 'black',
-                    'target-arrow-shape': 'triangle',
-                    'target-arrow-color': 'black',
-
-                    'curve-style': 'unbundled-bezier',
-                    'control-point-distances': [125],
-                    'control-point-weights': [0.5],
-
-                    'source-endpoint': '0deg',
-                    'target-endpoint': '0deg'
-                }
-            }
-        ];
-
-        // Adds a new edge style to the existing styles inherited from the parent class
-        this.graph.style().fromJson([...this.graph.style().json(), ...newEdgeStyles]);
-    }
-
-
     /**
      * Resets the circular singly linked list to its initial state.
      * Clears the last and first nodes and sets the adding process to false.
@@ -205,6 +161,25 @@ export default class CircularSinglyLinkedList extends SinglyLinkedList {
         this.addingInProcees = false;
     }
 
+    /**
+     * Sets the fields of the circular singly linked list from the given state.
+     * The first and last nodes of the circular edge are taken from the restored nodes.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.addingInProcees = false;
+
+        // Only the init pointer is left - no circular edge exists
+        if (this.nodes.length === 1) {
+            this.lastNode = null;
+            this.firstNode = null;
+        } else {
+            this.firstNode = this.nodes[1];
+            this.lastNode = this.nodes[this.nodes.length - 1];
+        }
+    }
+
     /**
      * Inserts a new node at the beginning of the circular singly linked list.
      * Calls the parent method to perform the standard insertion.
@@ -338,12 +313,157 @@ export default class CircularSinglyLinkedList extends SinglyLinkedList {
     }
 
     /**
-     * Generates a random circular singly linked list structure.
-     * Inherits random generation from the parent class.
+     * Solves the Josephus problem on the nodes of the list.
+     * Starting at the first node, a cursor counts k nodes around the ring and the last counted node is eliminated.
+     * The counting continues from the node after the eliminated one until a single node survives.
+     * Logs every eliminated value and at the end the elimination order with the survivor.
+     * If the list is empty or k is not positive, logs an error.
+     * @param step - The number of counted nodes k, the k-th node is eliminated.
+     */
+    public async josephus(step: number): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Empty list - there is no node to eliminate
+        if (this.getLength() === 0) {
+            this.log("list.josephusEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // At least one node has to be counted
+        if (step < 1) {
+            this.log("list.josephusError", { step: step });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        const firstIndex: number = this.firstNodeIndex();
+        const eliminated: string[] = [];
+        let position: number = 0;  // Position of the node where the counting starts
+
+        while (this.getLength() > 1) {
+            const length: number = this.getLength();
+            const start: number = position % length;
+
+            // Count the nodes around the ring, whole rounds are skipped
+            const cursor: NodeData = await this.addTempPtrNode(this.nodes[firstIndex + start], "Count: 1", "cursor");
+            for (let i = 1; i <= (step - 1) % length; i++) {
+                await this.moveTempPtrNode(cursor, this.nodes[firstIndex + (start + i) % length]);
+                cursor.value = `Count: ${i + 1}`;
+                this.updateGraph();
+            }
+
+            position = (start + step - 1) % length;
+            const value: string = String(this.nodes[firstIndex + position].value);
+            eliminated.push(value);
+            this.log("list.josephusStep", { value: value, order: eliminated.length });
+
+            await this.wait();
+            await this.deleteTempPtrNode(cursor);
+
+            // Eliminate the counted node, the counting continues from the same position
+            if (position === 0) {
+                await this.deleteFirstWithAnimation();
+            } else {
+                await this.deleteAfterWithAnimation(firstIndex + position - 1);
+            }
+
+            this.setClassToNodes();
+            this.updateGraph();
+        }
+
+        this.log("list.josephus", {
+            order: eliminated.join(", "),
+            survivor: this.nodes[firstIndex].value
+        });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Rotates the list by moving the initial pointer n nodes forward around the ring.
+     * The node the pointer stops at becomes the first node and the former first node follows the former last one.
+     * Whole rounds are skipped. If the list is empty, logs an error.
+     * @param steps - The number of nodes n the initial pointer moves forward.
+     */
+    public async rotateList(steps: number): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const firstIndex: number = this.firstNodeIndex();
+        const length: number = this.getLength();
+
+        // Empty list - there is nothing to rotate
+        if (length === 0) {
+            this.log("list.rotateEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        const shift: number = steps % length;
+
+        if (shift > 0) {
+            // Move the initial pointer forward one node at a time
+            const initEdge: EdgeData = this.findEdgeInArray(this.nodes[0], null)!;
+            for (let i = 1; i <= shift; i++) {
+                initEdge.target = this.nodes[firstIndex + i].id;
+                this.updateGraph();
+                await this.wait();
+            }
+
+            await this.placeRotatedNodes(shift);
+        }
+
+        this.log("list.rotate", { steps: steps, value: this.nodes[firstIndex].value });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Reorders the nodes after the rotation and moves them to the positions of their new order.
+     * The circular edge becomes the edge from the former last node to the former first one
+     * and the edge in front of the new first node becomes the circular edge.
+     * @param shift - The position of the new first node in the former order.
+     */
+    protected async placeRotatedNodes(shift: number): Promise<void> {
+        const firstIndex: number = this.firstNodeIndex();
+        const listNodes: NodeData[] = this.nodes.slice(firstIndex);
+        const rotatedNodes: NodeData[] = [...listNodes.slice(shift), ...listNodes.slice(0, shift)];
+        const positions: number[] = listNodes.map(node => node.x);
+        const activeNode: NodeData | null = this.activeNode === null ? null : this.nodes[this.activeNode];
+
+        // Move every node to the position of its new order
+        rotatedNodes.forEach((node, index) => {
+            this.findNodeInGraph(node).animate(
+                { position: { x: positions[index], y: node.y } },
+                { duration: this.animationSpeed }
+            );
+        });
+        await this.wait();
+
+        // Swap the roles of the circular edge and the edge in front of the new first node
+        const circleEdge: EdgeData = this.edges[this.findIndexOfCircleEdgeInArray()];
+        const newCircleEdge: EdgeData = this.findEdgeInArray(listNodes[shift - 1], listNodes[shift])!;
+        circleEdge.class = "edgeToNewNode";
+        newCircleEdge.class = "circleEdge";
+
+        rotatedNodes.forEach((node, index) => node.x = positions[index]);
+        this.nodes.splice(firstIndex, rotatedNodes.length, ...rotatedNodes);
+        this.activeNode = activeNode === null ? null : this.nodes.indexOf(activeNode);
+
+        this.normalizeGraph();
+        this.updateGraph();
+    }
+
+    /**
+     * Builds the circular singly linked list from the given values without animation.
+     * Uses the parent method and then connects the last node to the first one.
+     * @param values - The values of the nodes from the first to the last.
      */
-    public randomStructure(): void {
-        // Use the random generation from the parent class
-        super.randomStructure();
+    protected buildList(values: string[]): void {
+        // Use the list building from the parent class
+        super.buildList(values);
 
         if (this.nodes.length <= 2) return;
 
@@ -0,0 +1,298 @@
+import {StylesheetJson} from "cytoscape";
+import QueueClass from "@/utils/queue";
+import {NodeData} from "@/utils/base/baseStructure";
+
+/**
+ * Deque - Represents a visualized double-ended queue using Cytoscape.js.
+ * This class inherits from QueueClass and stores the elements in the same circular array,
+ * but elements can be added and removed at both the beginning and the end.
+ * One slot is always kept free, so a full deque can be told from an empty one.
+ */
+export default class Deque extends QueueClass {
+    /**
+     * Constructor to create a new visual deque.
+     * @param containerId - The ID of the HTML element where the deque is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.structureType = "deque";
+    }
+
+    /**
+     * Initializes the graph with the queue styles and adds the style of the peeked element.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const newStyles: StylesheetJson = [
+            {
+                selector: ".arrayColorNode.peekedNode",
+                style: {
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHZpZXdCb3g9IjAgMCA2MCA2MCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3QgeD0iMC41IiB5PSIwLjUiIHdpZHRoPSI1OSIgaGVpZ2h0PSI1OSIgZmlsbD0iI0VBQjQ3NiIgc3Ryb2tlPSJibGFjayIvPgo8L3N2Zz4K",
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...newStyles]);
+    }
+
+    /**
+     * Gets the index of the last element of the deque.
+     * @returns The index right before the end, wrapped around the array.
+     */
+    protected getRearIndex(): number {
+        return (this.endIndex - 1 + this.initNumber) % this.initNumber;
+    }
+
+    /**
+     * Moves the begin and end pointers from their drawn positions to the current indices.
+     * When both pointers point to the same index, they are drawn as the single "begAndEnd" pointer,
+     * so they are split before the movement or joined after it.
+     */
+    protected async movePointersWithAnimation(): Promise<void> {
+        // Remember the pointers as they are drawn
+        const previous: NodeData[] = this.tempNodeArray.map(node => ({ ...node }));
+        const previousMerged: NodeData = previous.find(node => node.id === "begAndEnd")!;
+
+        // Compute the target positions for the current indices
+        this.updateBeginAndEndPtrs();
+        const merged: NodeData = this.tempNodeArray.find(node => node.id === "begAndEnd")!;
+
+        const targets: Map<NodeData, { x: number, y: number }> = new Map();
+        for (const id of ["begin", "end"]) {
+            const pointer: NodeData = this.tempNodeArray.find(node => node.id === id)!;
+            const from: NodeData = previousMerged.opacity === 1 ? previousMerged : previous.find(node => node.id === id)!;
+            const to: NodeData = merged.opacity === 1 ? merged : pointer;
+
+            targets.set(pointer, { x: to.x, y: to.y });
+
+            // Draw the pointer separately at its previous position
+            pointer.x = from.x;
+            pointer.y = from.y;
+            pointer.opacity = 1;
+        }
+        merged.opacity = 0;
+
+        this.nodes = [...this.structureNodeArray, ...this.tempNodeArray];
+        this.updateGraph();
+
+        // Animate both pointers to their new positions
+        targets.forEach((position, pointer) => {
+            this.findNodeInGraph(pointer).animate(
+                { position: position },
+                { duration: this.animationSpeed }
+            );
+        });
+        await this.wait();
+
+        this.setAndUpdateGraph();
+    }
+
+    /**
+     * Adds or removes the circular edge, so it is shown exactly when the end has wrapped around before the beginning.
+     */
+    protected async updateCircleEdgeWithAnimation(): Promise<void> {
+        const hasCircleEdge: boolean = this.edges.some(edge => edge.class === "circleEdge");
+
+        if (this.endIndex < this.beginIndex && !hasCircleEdge) {
+            await this.addEdgeWithAnimation({
+                source: this.structureNodeArray[this.initNumber-1].id,
+                target: this.structureNodeArray[0].id,
+                class: "circleEdge",
+                opacity: 0
+            });
+        }
+        else if (this.endIndex >= this.beginIndex && hasCircleEdge) {
+            await this.removeEdgeWithAnimation();
+        }
+
+        this.setAndUpdateGraph();
+    }
+
+    /**
+     * Stores the element in the array and marks the slot as used.
+     * @param index - The index of the slot.
+     * @param element - The element to store.
+     */
+    protected async storeWithAnimation(index: number, element: string): Promise<void> {
+        this.structureNodeArray[index].value = element;
+        this.structureNodeArray[index].class = "arrayColorNode";
+        this.setAndUpdateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Clears the slot of the removed element.
+     * @param index - The index of the slot.
+     */
+    protected async clearWithAnimation(index: number): Promise<void> {
+        this.structureNodeArray[index].value = "";
+        this.structureNodeArray[index].class = "arrayNode";
+        this.setAndUpdateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Highlights the element at the given index and logs its value.
+     * @param index - The index of the element.
+     * @param key - The translation key of the message.
+     */
+    protected async peekWithAnimation(index: number, key: string): Promise<void> {
+        const node: NodeData = this.structureNodeArray[index];
+
+        node.class = "arrayColorNode peekedNode";
+        this.setAndUpdateGraph();
+        this.log(key, { value: node.value });
+
+        await this.wait(2);
+
+        node.class = "arrayColorNode";
+        this.setAndUpdateGraph();
+    }
+
+    /**
+     * Adds a new element before the beginning of the deque.
+     * The begin pointer moves back first and the element is stored at its new index.
+     * @param element - The element to be added.
+     */
+    public async addFront(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the deque is full
+        if (this.isQueueFull()) {
+            this.log("deque.addFrontFull");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Move the beginning back, wrapping around to the last index
+        this.beginIndex = (this.beginIndex - 1 + this.initNumber) % this.initNumber;
+        await this.movePointersWithAnimation();
+        await this.updateCircleEdgeWithAnimation();
+
+        await this.storeWithAnimation(this.beginIndex, element);
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Adds a new element to the end of the deque.
+     * The element is stored at the end index and the end pointer moves forward.
+     * @param element - The element to be added.
+     */
+    public async addRear(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the deque is full
+        if (this.isQueueFull()) {
+            this.log("deque.addRearFull");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        await this.storeWithAnimation(this.endIndex, element);
+
+        // Move the end forward, wrapping around to the first index
+        this.endIndex = (this.endIndex + 1) % this.initNumber;
+        await this.movePointersWithAnimation();
+        await this.updateCircleEdgeWithAnimation();
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Removes the element at the beginning of the deque.
+     * The slot is cleared and the begin pointer moves forward.
+     */
+    public async removeFront(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the deque is empty
+        if (this.isQueueEmpty()) {
+            this.log("deque.removeFrontEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        await this.clearWithAnimation(this.beginIndex);
+
+        // Move the beginning forward, wrapping around to the first index
+        this.beginIndex = (this.beginIndex + 1) % this.initNumber;
+        await this.movePointersWithAnimation();
+        await this.updateCircleEdgeWithAnimation();
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Removes the element at the end of the deque.
+     * The end pointer moves back first and the slot at its new index is cleared.
+     */
+    public async removeRear(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the deque is empty
+        if (this.isQueueEmpty()) {
+            this.log("deque.removeRearEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Move the end back, wrapping around to the last index
+        this.endIndex = this.getRearIndex();
+        await this.movePointersWithAnimation();
+        await this.updateCircleEdgeWithAnimation();
+
+        await this.clearWithAnimation(this.endIndex);
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Highlights the element at the beginning of the deque and logs its value.
+     * If the deque is empty, logs an error.
+     */
+    public async peekFront(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the deque is empty
+        if (this.isQueueEmpty()) {
+            this.log("deque.peekFrontError");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        await this.peekWithAnimation(this.beginIndex, "deque.peekFront");
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Highlights the element at the end of the deque and logs its value.
+     * If the deque is empty, logs an error.
+     */
+    public async peekRear(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the deque is empty
+        if (this.isQueueEmpty()) {
+            this.log("deque.peekRearError");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        await this.peekWithAnimation(this.getRearIndex(), "deque.peekRear");
+        await this.afterAnimationEnds();
+    }
+}
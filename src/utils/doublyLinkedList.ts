@@ -1,5 +1,5 @@
-import SinglyLinkedList from "@/utils/singlyLinkedList";
-import cytoscape, {StylesheetJson, StylesheetJsonBlock} from "cytoscape";
+import SinglyLinkedList, { comparedNodeStyles } from "@/utils/singlyLinkedList";
+import {StylesheetJson, StylesheetJsonBlock} from "cytoscape";
 import {EdgeData, NodeData} from "@/utils/base/baseStructure";
 
 const initHeight: number = 50
@@ -19,12 +19,21 @@ export default class DoublyLinkedList extends SinglyLinkedList {
      * Constructor to initialize the doubly linked list visualization.
      * @param containerId - The ID of the HTML element where the list is displayed.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         super(containerId);
         this.addingNodeFutureId = null;
 
         // Adjust padding for better centering
         this.paddingForCentering = 220;
+        this.structureType = "doublyLinkedList";
+    }
+
+    /**
+     * Gets the index of the first data node in the nodes array.
+     * @returns The index of the first data node.
+     */
+    protected firstNodeIndex(): number {
+        return 2;  // IDs 0 and 1 are initial nodes
     }
 
     /**
@@ -365,17 +374,10 @@ export default class DoublyLinkedList extends SinglyLinkedList {
             createRoundSegmentEdgeStyle("edgeOverNodeFromNodes", [200], [0.5], [100]),
             createEdgeStyle("roundCornerEdge", "round-segments"),
             createEdgeStyle("defaultEdge", "bezier"),
+            ...comparedNodeStyles
         ];
 
-        this.graph = cytoscape({
-            container: document.getElementById(this.containerId),
-            style: graphStyles,
-            autolock: true,
-            autounselectify: true,
-            autoungrabify: true,
-            maxZoom: 2,
-            wheelSensitivity: 0.2,
-        });
+        this.graph = this.createGraph(graphStyles);
     }
 
     /**
@@ -1205,19 +1207,78 @@ export default class DoublyLinkedList extends SinglyLinkedList {
 
 
     /**
-     * Generates a random doubly linked list structure with a random number of nodes.
-     * The list will contain between 2 and 5 elements.
+     * Swaps the next and previous link of a node during the reversal.
+     * Both edges of the node already connect it to its neighbours,
+     * so they are taken away and added again one by one with the swapped meaning.
+     * @param node - The node whose links are swapped.
+     * @param prev - The previous node, or null for the first node.
+     * @param next - The next node, or null for the last node.
      */
-    public randomStructure(): void {
-        this.resetStructure();
-        this.initStructure();
+    protected async redirectReversedNode(node: NodeData, prev: NodeData | null, next: NodeData | null): Promise<void> {
+        // The former next link becomes the previous one and the other way round
+        const nodeEdges: EdgeData[] = [prev, next]
+            .filter((neighbour): neighbour is NodeData => neighbour !== null)
+            .map(neighbour => this.findEdgeInArray(node, neighbour)!);
+
+        await this.deleteNodesAndEdgesWithAnimation(nodeEdges, [], false);
 
-        // Determine the random number of elements (between 2 and 5)
-        const numOfElements: number = Math.floor(Math.random() * (5 - 2 + 1)) + 2;
+        nodeEdges.forEach(edge => edge.opacity = 0);
+        await this.addNewEdgesWithAnimation(nodeEdges, false);
+    }
+
+    /**
+     * Swaps the targets of both initial pointers after the reversal.
+     * The first initial pointer points to the former last node and the second one to the former first node.
+     * @param firstNode - The first node before the reversal.
+     * @param lastNode - The last node before the reversal.
+     */
+    protected async redirectReversedInitPointers(firstNode: NodeData, lastNode: NodeData): Promise<void> {
+        const firstInitEdge: EdgeData = this.findEdgeInArray(this.nodes[0], firstNode)!;
+        const lastInitEdge: EdgeData = this.findEdgeInArray(this.nodes[1], lastNode)!;
+
+        firstInitEdge.target = lastNode.id;
+        lastInitEdge.target = firstNode.id;
+        this.updateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Creates the edges linking the nodes of each sublist in both directions.
+     * The first initial pointer points to the first node of the first sublist
+     * and the second one to the last node of the last sublist.
+     * @param sublists - The non-empty sublists in the order from the left.
+     * @returns The new edges of the list.
+     */
+    protected linkSublists(sublists: NodeData[][]): EdgeData[] {
+        const edges: EdgeData[] = [];
+
+        sublists.forEach(sublist => {
+            for (let i = 1; i < sublist.length; i++) {
+                edges.push(this.findOrCreateEdge(sublist[i - 1], sublist[i], "roundCornerEdge"));
+                edges.push(this.findOrCreateEdge(sublist[i], sublist[i - 1], "roundCornerEdge"));
+            }
+        });
+
+        const lastSublist: NodeData[] = sublists[sublists.length - 1];
+        edges.push(
+            this.findOrCreateEdge(this.nodes[0], sublists[0][0], "edgeFromInitPointer"),
+            this.findOrCreateEdge(this.nodes[1], lastSublist[lastSublist.length - 1], "edgeFromInitPointer")
+        );
+
+        return edges;
+    }
+
+    /**
+     * Builds the doubly linked list from the given values without animation.
+     * Connects the nodes in both directions and points the initial pointers to the first and last node.
+     * @param values - The values of the nodes from the first to the last.
+     */
+    protected buildList(values: string[]): void {
+        // An empty list only has the initial pointers
+        if (values.length === 0) return;
 
         // Add nodes to the structure
-        for (let i = 0; i < numOfElements; i++) {
-            const value = String(Math.floor(Math.random() * 100));  // Random value for the node
+        for (const value of values) {
             const lastNode = this.nodes[this.nodes.length - 1];
             const initPointer1 = this.nodes[0]; // Head initial pointer
 
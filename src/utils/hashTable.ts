@@ -0,0 +1,478 @@
+import {StylesheetJson, StylesheetJsonBlock} from "cytoscape";
+import HashStructure, {HashFunction, hashFunctions} from "@/utils/base/hashStructure";
+import {NodeData, StructureState, StructureJSON} from "@/utils/base/baseStructure";
+
+// Position of the first bucket, the other buckets are placed below it
+const initX: number = 450
+const initY: number = 300
+const bucketHeight: number = 50
+
+// Size of the chain nodes and their distances
+const chainNodeHeight: number = 45
+const chainNodeWidth: number = 100
+const chainOffset: number = 130
+const chainStep: number = 140
+
+/**
+ * HashTable - Represents a visualized hash table with separate chaining using Cytoscape.js.
+ * This class inherits from HashStructure, each bucket of the array holds a chain of list nodes.
+ */
+export default class HashTable extends HashStructure {
+    protected chains: NodeData[][];                  // Chain of list nodes for each bucket
+    protected hashedIndex: number|null;              // Index of the bucket the current key was hashed to
+    protected comparedNodeId: number|string|null;    // ID of the chain node compared with the current key
+
+    /**
+     * Constructor to create a new visual hash table.
+     * @param containerId - The ID of the HTML element where the hash table is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.chains = [];
+        this.hashedIndex = null;
+        this.comparedNodeId = null;
+
+        this.paddingForCentering = 170;
+        this.structureType = "hashTable";
+    }
+
+    /**
+     * Calculates the position of a bucket.
+     * The buckets are placed below each other, so the chains can grow to the right.
+     * @param index - The index of the bucket.
+     * @returns The position of the bucket.
+     */
+    protected getElementPosition(index: number): { x: number, y: number } {
+        return { x: initX, y: initY + bucketHeight * index };
+    }
+
+    /**
+     * Calculates the position of the index of a bucket.
+     * The index is placed to the left of its bucket.
+     * @param index - The index of the bucket.
+     * @returns The position of the index.
+     */
+    protected getIndexPosition(index: number): { x: number, y: number } {
+        const { x, y } = this.getElementPosition(index);
+        return { x: x - 50, y: y };
+    }
+
+    /**
+     * Calculates the position of a node in the chain of a bucket.
+     * @param index - The index of the bucket.
+     * @param position - The position of the node in the chain.
+     * @returns The position of the chain node.
+     */
+    protected getChainNodePosition(index: number, position: number): { x: number, y: number } {
+        const { x, y } = this.getElementPosition(index);
+        return { x: x + chainOffset + chainStep * position, y: y };
+    }
+
+    /**
+     * Counts the keys stored in the chains of all buckets.
+     * @returns The number of keys.
+     */
+    protected countKeys(): number {
+        return this.chains.reduce((count, chain) => count + chain.length, 0);
+    }
+
+    /**
+     * Updates the graph with the buckets, the chains and the label of the table.
+     * The edges link each bucket to its chain, the last node of a chain points to null.
+     */
+    protected setAndUpdateGraph(): void {
+        // Mark the bucket the current key was hashed to
+        this.structureNodeArray.forEach((bucket, i) => {
+            bucket.class = i === this.hashedIndex ? "hashedBucket" : "arrayNode";
+        });
+
+        this.edges = [];
+        this.chains.forEach((chain, i) => {
+            chain.forEach((node, j) => {
+                const isLast: boolean = j === chain.length - 1;
+                if (node.id === this.comparedNodeId)
+                    node.class = isLast ? "comparedNodeWithNull" : "comparedNode";
+                else
+                    node.class = isLast ? "nodeWithNull" : "defaultNode";
+
+                // The edge appears and disappears together with its target node
+                const source: NodeData = j === 0 ? this.structureNodeArray[i] : chain[j - 1];
+                this.edges.push({ source: source.id, target: node.id, class: "defaultEdge", opacity: node.opacity });
+            });
+        });
+
+        this.updateHashInfo();
+
+        this.nodes = [...this.structureNodeArray, ...this.chains.flat(), ...this.tempNodeArray];
+        this.updateGraph();
+    }
+
+    /**
+     * Removes the marks of the hashed bucket and the compared node.
+     */
+    protected clearHighlight(): void {
+        this.hashedIndex = null;
+        this.comparedNodeId = null;
+        this.setAndUpdateGraph();
+    }
+
+    /**
+     * Initializes the hash table with the given number of empty buckets.
+     * @param init - The number of buckets.
+     */
+    public initStructure(init: number): void {
+        if (this.isInit) return;
+
+        this.chains = Array.from({ length: init }, () => []);
+        super.initStructure(init);
+    }
+
+    /**
+     * Inserts the key to the end of the chain of its bucket without animation.
+     * Keys that are already in the table are skipped.
+     * @param element - The key to insert.
+     */
+    protected insertToArray(element: string): void {
+        const index: number = this.hash(element);
+        const chain: NodeData[] = this.chains[index];
+        if (chain.some(node => node.value === element)) return;
+
+        chain.push({
+            id: "key " + element,
+            value: element,
+            ...this.getChainNodePosition(index, chain.length),
+            opacity: 1
+        });
+    }
+
+    /**
+     * Initializes the graph with predefined styles and settings.
+     * Adds the styles of the chain nodes and their edges to the styles of the hash structure.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const createChainNodeStyle = (className: string, image: string): StylesheetJsonBlock =>
+            ({
+                selector: `.${className}`,
+                style: {
+                    "width": chainNodeWidth,
+                    "height": chainNodeHeight,
+                    "shape": "rectangle",
+                    "border-color": "black",
+                    "border-width": 1,
+                    "background-width": "100%",
+                    "background-height": "100%",
+                    "background-image": image,
+                    "label": "data(value)",
+                    "color": "black",
+                    "font-size": 14,
+
+                    "text-valign": "center",
+                    "text-halign": "center",
+                    "text-margin-x": -11,
+                    "text-justification": "center",
+                }
+            });
+
+        const newStyles: StylesheetJson = [
+            createChainNodeStyle("defaultNode", "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjQ1IiB2aWV3Qm94PSIwIDAgMTAwIDQ1IiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPgo8cmVjdCB4PSIwLjUiIHk9IjAuNSIgd2lkdGg9Ijk5IiBoZWlnaHQ9IjQ0IiBmaWxsPSIjODRERUZGIiBzdHJva2U9ImJsYWNrIi8+CjxsaW5lIHgxPSI3Ni4xOTUzIiB4Mj0iNzYuMTk1MyIgeTI9IjQ0LjI3NDIiIHN0cm9rZT0iYmxhY2siLz4KPGVsbGlwc2UgY3g9Ijg4LjE5NDkiIGN5PSIyMi41IiByeD0iMy40NzIyMiIgcnk9IjMuNjI5MDMiIGZpbGw9IiMwMTAxMDEiLz4KPC9zdmc+Cg=="),
+            createChainNodeStyle("comparedNode", "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjQ1IiB2aWV3Qm94PSIwIDAgMTAwIDQ1IiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPgo8cmVjdCB4PSIwLjUiIHk9IjAuNSIgd2lkdGg9Ijk5IiBoZWlnaHQ9IjQ0IiBmaWxsPSIjRkZFMjZFIiBzdHJva2U9ImJsYWNrIi8+CjxsaW5lIHgxPSI3Ni4xOTUzIiB4Mj0iNzYuMTk1MyIgeTI9IjQ0LjI3NDIiIHN0cm9rZT0iYmxhY2siLz4KPGVsbGlwc2UgY3g9Ijg4LjE5NDkiIGN5PSIyMi41IiByeD0iMy40NzIyMiIgcnk9IjMuNjI5MDMiIGZpbGw9IiMwMTAxMDEiLz4KPC9zdmc+Cg=="),
+            createChainNodeStyle("nodeWithNull", "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjQ1IiB2aWV3Qm94PSIwIDAgMTAwIDQ1IiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPgo8cmVjdCB4PSIwLjUiIHk9IjAuNSIgd2lkdGg9Ijk5IiBoZWlnaHQ9IjQ0IiBmaWxsPSIjODRERUZGIiBzdHJva2U9ImJsYWNrIi8+CjxsaW5lIHgxPSI3Ni4xOTUzIiB4Mj0iNzYuMTk1MyIgeTI9IjQ0LjI3NDIiIHN0cm9rZT0iYmxhY2siLz4KPHBhdGggZD0iTTgzLjg3NjkgMTkuMjcyN1YyNEg4My4xMTUyTDgwLjg4NzcgMjAuNzhIODAuODQ4NVYyNEg3OS45OTIxVjE5LjI3MjdIODAuNzU4NUw4Mi45ODM2IDIyLjQ5NUg4My4wMjUyVjE5LjI3MjdIODMuODc2OVpNODcuNzkgMTkuMjcyN0g4OC42NDYzVjIyLjM2MTJDODguNjQ2MyAyMi42OTk3IDg4LjU2NjMgMjIuOTk3NSA4OC40MDYyIDIzLjI1NDRDODguMjQ3OCAyMy41MTE0IDg4LjAyNDYgMjMuNzEyMiA4Ny43MzY5IDIzLjg1NjlDODcuNDQ5MSAyNCA4Ny4xMTI5IDI0LjA3MTYgODYuNzI4MiAyNC4wNzE2Qzg2LjM0MTkgMjQuMDcxNiA4Ni4wMDQ5IDI0IDg1LjcxNzIgMjMuODU2OUM4NS40Mjk0IDIzLjcxMjIgODUuMjA2MyAyMy41MTE0IDg1LjA0NzggMjMuMjU0NEM4NC44ODkzIDIyLjk5NzUgODQuODEgMjIuNjk5NyA4NC44MSAyMi4zNjEyVjE5LjI3MjdIODUuNjY2NFYyMi4yODk2Qzg1LjY2NjQgMjIuNDg2NiA4NS43MDk1IDIyLjY2MiA4NS43OTU2IDIyLjgxNTlDODUuODgzMyAyMi45Njk4IDg2LjAwNjUgMjMuMDkwNiA4Ni4xNjUgMjMuMTc4M0M4Ni4zMjM0IDIzLjI2NDQgODYuNTExMiAyMy4zMDc1IDg2LjcyODIgMjMuMzA3NUM4Ni45NDUxIDIzLjMwNzUgODcuMTMyOSAyMy4yNjQ0IDg3LjI5MTQgMjMuMTc4M0M4Ny40NTE0IDIzLjA5MDYgODcuNTc0NSAyMi45Njk4IDg3LjY2MDcgMjIuODE1OUM4Ny43NDY5IDIyLjY2MiA4Ny43OSAyMi40ODY2IDg3Ljc5IDIyLjI4OTZWMTkuMjcyN1pNODkuNTc3MSAyNFYxOS4yNzI3SDkwLjQzMzVWMjMuMjgyMUg5Mi41MTU1VjI0SDg5LjU3NzFaTTkzLjI1ODcgMjRWMTkuMjcyN0g5NC4xMTUxVjIzLjI4MjFIOTYuMTk3MVYyNEg5My4yNTg3WiIgZmlsbD0iYmxhY2siLz4KPC9zdmc+Cg=="),
+            createChainNodeStyle("comparedNodeWithNull", "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjQ1IiB2aWV3Qm94PSIwIDAgMTAwIDQ1IiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPgo8cmVjdCB4PSIwLjUiIHk9IjAuNSIgd2lkdGg9Ijk5IiBoZWlnaHQ9IjQ0IiBmaWxsPSIjRkZFMjZFIiBzdHJva2U9ImJsYWNrIi8+CjxsaW5lIHgxPSI3Ni4xOTUzIiB4Mj0iNzYuMTk1MyIgeTI9IjQ0LjI3NDIiIHN0cm9rZT0iYmxhY2siLz4KPHBhdGggZD0iTTgzLjg3NjkgMTkuMjcyN1YyNEg4My4xMTUyTDgwLjg4NzcgMjAuNzhIODAuODQ4NVYyNEg3OS45OTIxVjE5LjI3MjdIODAuNzU4NUw4Mi45ODM2IDIyLjQ5NUg4My4wMjUyVjE5LjI3MjdIODMuODc2OVpNODcuNzkgMTkuMjcyN0g4OC42NDYzVjIyLjM2MTJDODguNjQ2MyAyMi42OTk3IDg4LjU2NjMgMjIuOTk3NSA4OC40MDYyIDIzLjI1NDRDODguMjQ3OCAyMy41MTE0IDg4LjAyNDYgMjMuNzEyMiA4Ny43MzY5IDIzLjg1NjlDODcuNDQ5MSAyNCA4Ny4xMTI5IDI0LjA3MTYgODYuNzI4MiAyNC4wNzE2Qzg2LjM0MTkgMjQuMDcxNiA4Ni4wMDQ5IDI0IDg1LjcxNzIgMjMuODU2OUM4NS40Mjk0IDIzLjcxMjIgODUuMjA2MyAyMy41MTE0IDg1LjA0NzggMjMuMjU0NEM4NC44ODkzIDIyLjk5NzUgODQuODEgMjIuNjk5NyA4NC44MSAyMi4zNjEyVjE5LjI3MjdIODUuNjY2NFYyMi4yODk2Qzg1LjY2NjQgMjIuNDg2NiA4NS43MDk1IDIyLjY2MiA4NS43OTU2IDIyLjgxNTlDODUuODgzMyAyMi45Njk4IDg2LjAwNjUgMjMuMDkwNiA4Ni4xNjUgMjMuMTc4M0M4Ni4zMjM0IDIzLjI2NDQgODYuNTExMiAyMy4zMDc1IDg2LjcyODIgMjMuMzA3NUM4Ni45NDUxIDIzLjMwNzUgODcuMTMyOSAyMy4yNjQ0IDg3LjI5MTQgMjMuMTc4M0M4Ny40NTE0IDIzLjA5MDYgODcuNTc0NSAyMi45Njk4IDg3LjY2MDcgMjIuODE1OUM4Ny43NDY5IDIyLjY2MiA4Ny43OSAyMi40ODY2IDg3Ljc5IDIyLjI4OTZWMTkuMjcyN1pNODkuNTc3MSAyNFYxOS4yNzI3SDkwLjQzMzVWMjMuMjgyMUg5Mi41MTU1VjI0SDg5LjU3NzFaTTkzLjI1ODcgMjRWMTkuMjcyN0g5NC4xMTUxVjIzLjI4MjFIOTYuMTk3MVYyNEg5My4yNTg3WiIgZmlsbD0iYmxhY2siLz4KPC9zdmc+Cg=="),
+            {
+                selector: ".defaultEdge",
+                style: {
+                    "width": 2,
+                    "line-color": "black",
+                    "target-arrow-shape": "triangle",
+                    "target-arrow-color": "black",
+                    "curve-style": "bezier",
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...newStyles]);
+    }
+
+    /**
+     * Resets the hash table to an empty state.
+     * The selected hash function is kept for the next table.
+     */
+    public resetStructure(): void {
+        if (this.animationInProcess) return;
+        super.resetStructure();
+
+        this.chains = [];
+        this.hashedIndex = null;
+        this.comparedNodeId = null;
+    }
+
+    /**
+     * Saves the logical state of the hash table.
+     * Adds the chains to the state of the hash structure.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return {
+            ...super.saveState(),
+            chains: JSON.parse(JSON.stringify(this.chains))
+        };
+    }
+
+    /**
+     * Sets the fields of the hash table from the given state.
+     * The displayed nodes are composed from the buckets, the chains and the temporary nodes.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.chains = state.chains as NodeData[][];
+        this.hashedIndex = null;
+        this.comparedNodeId = null;
+        this.nodes = [...this.structureNodeArray, ...this.chains.flat(), ...this.tempNodeArray];
+    }
+
+    /**
+     * Exports the logical content of the hash table.
+     * @returns The number of buckets, the hash function and the keys of each chain.
+     */
+    public toJSON(): StructureJSON {
+        return this.createJSON({
+            capacity: this.initNumber,
+            hashFunction: this.hashFunction,
+            buckets: this.chains.map(chain => chain.map(node => String(node.value)))
+        });
+    }
+
+    /**
+     * Builds the hash table from its JSON representation.
+     * Every key must be a unique number of at most 3 digits stored in the bucket given by the hash function.
+     * @param json - The JSON representation with the number of buckets, the hash function and the chains.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { capacity, hashFunction, buckets } = json;
+        if (!this.isValidCapacity(capacity) || !hashFunctions.includes(hashFunction as HashFunction) ||
+            !Array.isArray(buckets) || buckets.length !== capacity ||
+            !buckets.every(bucket => this.isListOfValues(bucket))) return false;
+
+        const keys: string[] = (buckets as (string|number)[][]).flat().map(String);
+        if (!keys.every(key => this.isValidKey(key)) || new Set(keys).size !== keys.length) return false;
+
+        this.resetStructure();
+        this.hashFunction = hashFunction as HashFunction;
+        this.initStructure(capacity);
+
+        // Each key has to be found in its own bucket
+        const isHashed: boolean = (buckets as (string|number)[][]).every((bucket, i) =>
+            bucket.every(key => this.hash(String(key)) === i));
+        if (!isHashed) return false;
+
+        keys.forEach(key => this.insertToArray(key));
+
+        this.setAndUpdateGraph();
+        return true;
+    }
+
+    /**
+     * Hashes the key and compares it with the nodes of the chain in its bucket.
+     * The bucket and the compared node are marked in the graph.
+     * @param key - The key to find.
+     * @returns The position of the key in the chain, or -1 if the chain does not contain it.
+     */
+    protected async findKeyWithAnimation(key: string): Promise<number> {
+        // Mark the bucket given by the hash function
+        this.hashedIndex = this.hash(key);
+        this.setAndUpdateGraph();
+        await this.wait();
+
+        // Walk through the chain node by node
+        const chain: NodeData[] = this.chains[this.hashedIndex];
+        for (let i = 0; i < chain.length; i++) {
+            this.comparedNodeId = chain[i].id;
+            this.setAndUpdateGraph();
+            await this.wait();
+
+            if (chain[i].value === key) return i;
+        }
+
+        this.comparedNodeId = null;
+        this.setAndUpdateGraph();
+        return -1;
+    }
+
+    /**
+     * Moves the nodes of the chain to their positions with an animation.
+     * Used to close the gap after a node was removed from the chain.
+     * @param index - The index of the bucket.
+     */
+    protected async moveChainWithAnimation(index: number): Promise<void> {
+        const chain: NodeData[] = this.chains[index];
+        if (chain.every((node, i) => node.x === this.getChainNodePosition(index, i).x)) return;
+
+        chain.forEach((node, i) => {
+            const position = this.getChainNodePosition(index, i);
+            this.findNodeInGraph(node).animate(
+                { position: position },
+                { duration: this.animationSpeed }
+            );
+            node.x = position.x;
+            node.y = position.y;
+        });
+        await this.wait();
+
+        this.setAndUpdateGraph();
+    }
+
+    /**
+     * Inserts the key to the hash table with an animation.
+     * The key is hashed, the chain of its bucket is searched and the key is appended to its end.
+     * If the key is already in the table, nothing is inserted.
+     * @param key - The key to insert.
+     */
+    public async insertKey(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const position: number = await this.findKeyWithAnimation(key);
+        const index: number = this.hashedIndex!;
+
+        // The keys in the table are unique
+        if (position > -1) {
+            this.log("hashTable.insertDuplicate", { key: key, index: index });
+            await this.wait();
+            this.clearHighlight();
+            await this.afterAnimationEnds();
+            return;
+        }
+
+        // Append the new node to the end of the chain
+        const chain: NodeData[] = this.chains[index];
+        const newNode: NodeData = {
+            id: "key " + key,
+            value: key,
+            ...this.getChainNodePosition(index, chain.length),
+            opacity: 0
+        };
+        chain.push(newNode);
+        this.setAndUpdateGraph();
+
+        // Fade in the node together with the edge pointing to it
+        this.animateAddingElement(this.findNodeInGraph(newNode));
+        this.animateAddingElement(this.findEdgeInGraph(this.edges.find(edge => edge.target === newNode.id)!));
+        await this.wait();
+        newNode.opacity = 1;
+
+        this.clearHighlight();
+        this.log("hashTable.insert", { key: key, index: index, loadFactor: this.formatLoadFactor() });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Searches for the key in the hash table with an animation.
+     * Logs whether the chain of its bucket contains the key.
+     * @param key - The key to find.
+     */
+    public async searchKey(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const position: number = await this.findKeyWithAnimation(key);
+        const index: number = this.hashedIndex!;
+
+        if (position > -1)
+            this.log("hashTable.searchFound", { key: key, index: index });
+        else
+            this.log("hashTable.searchNotFound", { key: key, index: index });
+
+        await this.wait(1.5);
+        this.clearHighlight();
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Deletes the key from the hash table with an animation.
+     * The node is removed from the chain and the following nodes move to close the gap.
+     * If the key is not in the table, nothing is deleted.
+     * @param key - The key to delete.
+     */
+    public async deleteKey(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const position: number = await this.findKeyWithAnimation(key);
+        const index: number = this.hashedIndex!;
+
+        if (position === -1) {
+            this.log("hashTable.deleteNotFound", { key: key, index: index });
+            await this.wait();
+            this.clearHighlight();
+            await this.afterAnimationEnds();
+            return;
+        }
+
+        // Fade out the node together with its edges
+        const chain: NodeData[] = this.chains[index];
+        const nodeToDelete: NodeData = chain[position];
+        this.animateDeletingElement(this.findNodeInGraph(nodeToDelete));
+        this.edges
+            .filter(edge => edge.source === nodeToDelete.id || edge.target === nodeToDelete.id)
+            .forEach(edge => this.animateDeletingElement(this.findEdgeInGraph(edge), true));
+        await this.wait();
+
+        // Link the previous node to the next one, the following nodes stay in place for now
+        chain.splice(position, 1);
+        this.comparedNodeId = null;
+        this.setAndUpdateGraph();
+        await this.wait();
+
+        await this.moveChainWithAnimation(index);
+
+        this.clearHighlight();
+        this.log("hashTable.delete", { key: key, index: index, loadFactor: this.formatLoadFactor() });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Selects the hash function and redistributes the keys with an animation.
+     * The chains fade out and the keys appear again in the buckets given by the new function.
+     * @param hashFunction - The hash function to use.
+     */
+    public async setHashFunction(hashFunction: HashFunction): Promise<void> {
+        if (this.animationInProcess || !this.isInit || !hashFunctions.includes(hashFunction)) return;
+
+        await this.beforeAnimationStarts();
+
+        const keys: string[] = this.chains.flat().map(node => String(node.value));
+
+        // Fade out the chains of the previous hash function
+        if (keys.length > 0) {
+            this.chains.flat().forEach(node => this.animateDeletingElement(this.findNodeInGraph(node)));
+            this.edges.forEach(edge => this.animateDeletingElement(this.findEdgeInGraph(edge), true));
+            await this.wait();
+        }
+
+        // Insert the keys bucket by bucket using the new hash function
+        this.hashFunction = hashFunction;
+        this.chains = this.chains.map(() => []);
+        keys.forEach(key => this.insertToArray(key));
+        this.chains.flat().forEach(node => node.opacity = 0);
+        this.setAndUpdateGraph();
+
+        // Fade in the new chains
+        if (keys.length > 0) {
+            this.chains.flat().forEach(node => this.animateAddingElement(this.findNodeInGraph(node)));
+            this.edges.forEach(edge => this.animateAddingElement(this.findEdgeInGraph(edge)));
+            await this.wait();
+        }
+        this.chains.flat().forEach(node => node.opacity = 1);
+        this.setAndUpdateGraph();
+
+        this.log("hashTable.hashFunction", { formula: this.formatHashFunction() });
+        await this.afterAnimationEnds();
+    }
+}
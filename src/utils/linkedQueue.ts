@@ -0,0 +1,409 @@
+import SinglyLinkedList from "@/utils/singlyLinkedList";
+import { NodeData, EdgeData, StructureState, StructureJSON } from "@/utils/base/baseStructure";
+
+// Constants defining the placement of the nodes, the same as in the singly linked list
+const nodeWidth: number = 100
+const firstNodeX: number = 250 + 1.6 * nodeWidth
+
+/**
+ * LinkedQueue - Represents a visualized queue implemented by a singly linked list.
+ * This class inherits from SinglyLinkedList and has two pointers:
+ * the front pointer to the first node and the rear pointer to the last node.
+ * Elements are added after the rear node and removed at the front of the list.
+ * The queue has the same operations and messages as the array queue, so both can be compared.
+ */
+export default class LinkedQueue extends SinglyLinkedList {
+    protected capacity: number;  // Maximum number of elements, so the queue can be full like the array queue
+
+    /**
+     * Constructor to create a new visual linked queue.
+     * @param containerId - The ID of the HTML element where the queue is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.capacity = 0;
+        this.structureType = "linkedQueue";
+    }
+
+    /**
+     * Gets the index of the first data node in the nodes array.
+     * The front pointer has ID 0 and the rear pointer ID 1.
+     * @returns The index of the first data node.
+     */
+    protected firstNodeIndex(): number {
+        return 2;
+    }
+
+    /**
+     * Gets the number of elements in the queue.
+     * @returns The number of nodes after the front and rear pointers.
+     */
+    protected getSize(): number {
+        return this.nodes.length - this.firstNodeIndex();
+    }
+
+    /**
+     * Moves the rear pointer above the given node and links it to the node.
+     * The previous link of the rear pointer is deleted first.
+     * @param targetNode - The new last node, or null if the queue has become empty.
+     */
+    protected async moveRearPointerWithAnimation(targetNode: NodeData | null): Promise<void> {
+        const rearPtr: NodeData = this.nodes[1];
+
+        // Delete the link to the previous last node
+        const edgeToDelete: EdgeData | undefined = this.findEdgeInArray(rearPtr, null);
+        if (edgeToDelete) {
+            await this.deleteNodesAndEdgesWithAnimation([edgeToDelete], [], false);
+        }
+
+        // Move the pointer above the new last node, or back to its initial position
+        const x: number = targetNode ? targetNode.x : firstNodeX;
+        this.findNodeInGraph(rearPtr).animate(
+            { position: { x: x, y: rearPtr.y } },
+            { duration: this.animationSpeed }
+        );
+        await this.wait();
+
+        rearPtr.x = x;
+        this.updateGraph();
+
+        // Link the pointer to the new last node
+        if (targetNode) {
+            const newEdge: EdgeData = {
+                source: rearPtr.id,
+                target: targetNode.id,
+                class: "defaultEdge",
+                opacity: 0
+            };
+            await this.addNewEdgesWithAnimation([newEdge]);
+        }
+    }
+
+    /**
+     * Initializes the queue with the front and rear pointers.
+     * @param initNumber - The maximum number of elements in the queue.
+     */
+    public initStructure(initNumber?: number): void {
+        if (this.isInit) return;
+
+        super.initStructure();
+        this.capacity = initNumber ?? 0;
+
+        // The initial pointer is the front of the queue
+        this.nodes[0].value = "Front";
+
+        // Create the rear pointer above the place of the first node
+        const rearPtr: NodeData = {
+            id: this.nodes.length,
+            value: "Rear",
+            x: firstNodeX,
+            y: 200,
+            class: "pointer"
+        };
+        this.nodes.push(rearPtr);
+
+        this.updateGraph();
+    }
+
+    /**
+     * Resets the queue to an empty state.
+     * Clears all elements and the capacity.
+     */
+    public resetStructure(): void {
+        if (this.animationInProcess) return;
+        super.resetStructure();
+        this.capacity = 0;
+    }
+
+    /**
+     * Saves the logical state of the queue.
+     * Adds the capacity to the state of the linked list.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return { ...super.saveState(), capacity: this.capacity };
+    }
+
+    /**
+     * Sets the fields of the queue from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.capacity = state.capacity as number;
+    }
+
+    /**
+     * Exports the logical content of the queue.
+     * @returns The capacity and the values from the front to the rear of the queue.
+     */
+    public toJSON(): StructureJSON {
+        const values: string[] = this.nodes.slice(this.firstNodeIndex()).map(node => String(node.value));
+
+        return this.createJSON({ capacity: this.capacity, values: values });
+    }
+
+    /**
+     * Builds the queue from its JSON representation.
+     * @param json - The JSON representation with the capacity and the values.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { capacity, values } = json;
+        if (!this.isValidCapacity(capacity) || !this.isListOfValues(values) || values.length > capacity) return false;
+
+        this.resetStructure();
+        this.initStructure(capacity);
+        this.buildList(values.map(value => String(value)));
+        return true;
+    }
+
+    /**
+     * Generates a random queue.
+     * Creates a queue with a random capacity (between 5 and 10) filled with 2 to 5 random elements.
+     */
+    public randomStructure(): void {
+        super.randomStructure();
+        this.capacity = Math.floor(Math.random() * (10 - 5 + 1)) + 5;
+    }
+
+    /**
+     * Builds the queue from the given values without animation.
+     * The first node is linked from the front pointer and the last node from the rear pointer.
+     * @param values - The values of the nodes from the front to the rear.
+     */
+    protected buildList(values: string[]): void {
+        for (let i = 0; i < values.length; i++) {
+            const newNode: NodeData = {
+                id: this.nodes.length,
+                value: values[i],
+                x: firstNodeX + i * 1.8*nodeWidth,
+                y: 300,
+                opacity: 1,
+                class: "defaultNode"
+            };
+            this.nodes.push(newNode);
+
+            // Connect the new node to the front pointer or to the previous node
+            const previousNode: NodeData = i === 0 ? this.nodes[0] : this.nodes[this.nodes.length - 2];
+            this.edges.push({
+                source: previousNode.id,
+                target: newNode.id,
+                class: "edgeToNewNode",
+                opacity: 1
+            });
+        }
+
+        // Place the rear pointer above the last node
+        if (values.length > 0) {
+            const rearPtr: NodeData = this.nodes[1];
+            const lastNode: NodeData = this.nodes[this.nodes.length - 1];
+
+            rearPtr.x = lastNode.x;
+            this.edges.push({
+                source: rearPtr.id,
+                target: lastNode.id,
+                class: "defaultEdge",
+                opacity: 1
+            });
+        }
+
+        this.normalizeGraph();
+        this.updateGraph();
+        this.centerCanvas(true);
+    }
+
+    /**
+     * Adds a new element to the rear of the queue.
+     * Handles two cases:
+     * 1. The queue is empty - both pointers point to the new node.
+     * 2. The new node is linked from the last node and the rear pointer moves to it.
+     * If the queue is full, logs an error and stops.
+     * @param element - The element to be added to the queue.
+     */
+    public async addElement(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the queue is already full
+        if (this.getSize() >= this.capacity) {
+            this.log("queue.addFull");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Case 1: Adding the first node to an empty queue
+        if (this.getSize() === 0) {
+            const newNode: NodeData = {
+                id: this.nodes.length,
+                value: element,
+                x: firstNodeX,
+                y: 300,
+                opacity: 0,
+                class: "defaultNode"
+            };
+            await this.addNewNodeWithAnimation(newNode);
+
+            // Link both pointers to the new node
+            await this.addNewEdgesWithAnimation([
+                { source: this.nodes[0].id, target: newNode.id, class: "edgeToNewNode", opacity: 0 },
+                { source: this.nodes[1].id, target: newNode.id, class: "defaultEdge", opacity: 0 }
+            ]);
+        }
+        else {
+            // Case 2: Adding the new node after the last node
+            const lastNode: NodeData = this.nodes[this.nodes.length - 1];
+            const newNode: NodeData = {
+                id: this.nodes.length,
+                value: element,
+                x: lastNode.x + 1.8*nodeWidth,
+                y: 300,
+                opacity: 0,
+                class: "defaultNode"
+            };
+            await this.addNewNodeWithAnimation(newNode);
+
+            // Link the last node to the new node
+            const newEdge: EdgeData = {
+                source: lastNode.id,
+                target: newNode.id,
+                class: "defaultEdge",
+                opacity: 0
+            };
+            await this.addNewEdgesWithAnimation([newEdge]);
+
+            // The new node becomes the rear of the queue
+            await this.moveRearPointerWithAnimation(newNode);
+        }
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Removes the element at the front of the queue.
+     * Handles two cases:
+     * 1. The queue has a single node - both pointers are cleared.
+     * 2. The front pointer is linked over the first node to the next one and the first node is deleted.
+     * If the queue is empty, logs an error and stops.
+     */
+    public async removeElement(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the queue is empty
+        if (this.getSize() === 0) {
+            this.log("queue.removeEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        const frontPtr: NodeData = this.nodes[0];
+        const firstNode: NodeData = this.nodes[this.firstNodeIndex()];
+
+        // Case 1: Deleting the only node, the rear pointer goes back to its initial position
+        if (this.getSize() === 1) {
+            const edgesToDelete: EdgeData[] = this.edges.filter(edge => edge.target === firstNode.id);
+            await this.deleteNodesAndEdgesWithAnimation(edgesToDelete, [firstNode]);
+            await this.moveRearPointerWithAnimation(null);
+        }
+        else {
+            // Case 2: Deleting the first of multiple nodes
+            await this.addTempPtrNode(firstNode);
+
+            // Get the temporary pointer and the node after the first one
+            const ptrNode: NodeData = this.nodes[this.nodes.length - 1];
+            const nodeToConnect: NodeData = this.nodes[this.firstNodeIndex() + 1];
+
+            // Link the front pointer over the first node to the next one
+            const newEdge: EdgeData = {
+                source: frontPtr.id,
+                target: nodeToConnect.id,
+                class: "edgeOverDeletingFirstNode",
+                opacity: 0
+            };
+
+            let edgeToDelete: EdgeData = this.findEdgeInArray(frontPtr, firstNode)!;
+            await this.deleteNodesAndEdgesWithAnimation([edgeToDelete], [], false);
+            await this.addNewEdgesWithAnimation([newEdge], false);
+
+            // Delete the first node with the temporary pointer
+            edgeToDelete = this.findEdgeInArray(firstNode, null)!;
+            const ptrEdgeToDelete: EdgeData = this.findEdgeInArray(ptrNode, null)!;
+            await this.deleteNodesAndEdgesWithAnimation([edgeToDelete, ptrEdgeToDelete], [firstNode, ptrNode]);
+
+            // Shift the nodes with the rear pointer to the left to fill the gap
+            await this.shiftingNodes(1, this.nodes.length - 1, -1.8*nodeWidth, false);
+
+            // Update the visual style of the new edge
+            this.changeEdgeStyle(newEdge, "edgeToNewNode");
+        }
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Checks if the queue is empty and logs the result.
+     */
+    public async isEmpty(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        if (this.getSize() === 0)
+            this.log("queue.empty");
+        else
+            this.log("queue.notEmpty");
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Checks if the queue is full and logs the result.
+     */
+    public async isFull(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        if (this.getSize() >= this.capacity)
+            this.log("queue.full");
+        else
+            this.log("queue.notFull");
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Shows the front element of the queue by highlighting the node the front pointer points to.
+     * If the queue is empty, logs an error.
+     */
+    public async foremostElement(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Check if the queue is empty
+        if (this.getSize() === 0) {
+            this.log("queue.frontError");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Highlight the front node like the active node of the list
+        this.activeNode = this.firstNodeIndex();
+        this.setClassToNodes();
+        this.updateGraph();
+
+        this.log("queue.front", { value: this.nodes[this.activeNode].value });
+        await this.wait(2);
+
+        // Remove the highlight after a short delay
+        this.activeNode = null;
+        this.setClassToNodes();
+        this.updateGraph();
+
+        await this.afterAnimationEnds();
+    }
+}
@@ -0,0 +1,212 @@
+import SinglyLinkedList from "@/utils/singlyLinkedList";
+import { StructureState, StructureJSON } from "@/utils/base/baseStructure";
+
+/**
+ * LinkedStack - Represents a visualized stack implemented by a singly linked list.
+ * This class inherits from SinglyLinkedList, the initial pointer is the top of the stack
+ * and the elements are pushed and popped at the beginning of the list.
+ * The stack has the same operations and messages as the array stack, so both can be compared.
+ */
+export default class LinkedStack extends SinglyLinkedList {
+    protected capacity: number;  // Maximum number of elements, the same limit as in the array stack
+
+    /**
+     * Constructor to create a new visual linked stack.
+     * @param containerId - The ID of the HTML element where the stack is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.capacity = 0;
+        this.structureType = "linkedStack";
+    }
+
+    /**
+     * Gets the number of elements in the stack.
+     * @returns The number of nodes after the top pointer.
+     */
+    protected getSize(): number {
+        return this.nodes.length - this.firstNodeIndex();
+    }
+
+    /**
+     * Initializes the stack with the top pointer.
+     * @param initNumber - The maximum number of elements in the stack.
+     */
+    public initStructure(initNumber?: number): void {
+        if (this.isInit) return;
+
+        super.initStructure();
+        this.capacity = initNumber ?? 0;
+
+        // The initial pointer is the top of the stack
+        this.nodes[0].value = "Top";
+        this.updateGraph();
+    }
+
+    /**
+     * Resets the stack to an empty state.
+     * Clears all elements and the capacity.
+     */
+    public resetStructure(): void {
+        if (this.animationInProcess) return;
+        super.resetStructure();
+        this.capacity = 0;
+    }
+
+    /**
+     * Saves the logical state of the stack.
+     * Adds the capacity to the state of the linked list.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return { ...super.saveState(), capacity: this.capacity };
+    }
+
+    /**
+     * Sets the fields of the stack from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.capacity = state.capacity as number;
+    }
+
+    /**
+     * Exports the logical content of the stack.
+     * @returns The capacity and the values from the bottom to the top of the stack, like the array stack.
+     */
+    public toJSON(): StructureJSON {
+        const values: string[] = this.nodes.slice(this.firstNodeIndex()).map(node => String(node.value)).reverse();
+
+        return this.createJSON({ capacity: this.capacity, values: values });
+    }
+
+    /**
+     * Builds the stack from its JSON representation.
+     * @param json - The JSON representation with the capacity and the values.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { capacity, values } = json;
+        if (!this.isValidCapacity(capacity) || !this.isListOfValues(values) || values.length > capacity) return false;
+
+        this.resetStructure();
+        this.initStructure(capacity);
+
+        // The top of the stack is the first node of the list
+        this.buildList(values.map(value => String(value)).reverse());
+        return true;
+    }
+
+    /**
+     * Generates a random stack.
+     * Creates a stack with a random capacity (between 5 and 10) filled with 2 to 5 random elements.
+     */
+    public randomStructure(): void {
+        super.randomStructure();
+        this.capacity = Math.floor(Math.random() * (10 - 5 + 1)) + 5;
+    }
+
+    /**
+     * Pushes a new element to the top of the stack.
+     * The new node is inserted at the beginning of the list.
+     * If the stack is full, logs an error and stops.
+     * @param element - The value to add.
+     */
+    public async addElement(element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        // Check if the stack is already full
+        if (this.getSize() >= this.capacity) {
+            await this.beforeAnimationStarts();
+            this.log("stack.addFull");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        await this.insertFirstNode(element);
+    }
+
+    /**
+     * Pops the top element from the stack.
+     * The first node of the list is deleted.
+     * If the stack is empty, logs an error and stops.
+     */
+    public async removeElement(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        // Check if the stack is empty
+        if (this.getSize() === 0) {
+            await this.beforeAnimationStarts();
+            this.log("stack.removeEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        await this.deleteFirstNode();
+    }
+
+    /**
+     * Checks if the stack is empty and logs the result.
+     */
+    public async isEmpty(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        if (this.getSize() === 0)
+            this.log("stack.empty");
+        else
+            this.log("stack.notEmpty");
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Checks if the stack is full and logs the result.
+     */
+    public async isFull(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        if (this.getSize() >= this.capacity)
+            this.log("stack.full");
+        else
+            this.log("stack.notFull");
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Shows the top element of the stack by highlighting the node the top pointer points to.
+     * If the stack is empty, logs an error.
+     */
+    public async foremostElement(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // If the stack is empty, log an error
+        if (this.getSize() === 0) {
+            this.log("stack.topError");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Highlight the top node like the active node of the list
+        this.activeNode = this.firstNodeIndex();
+        this.setClassToNodes();
+        this.updateGraph();
+
+        this.log("stack.top", { value: this.nodes[this.activeNode].value });
+        await this.wait(2);
+
+        // Remove the highlight after a short delay
+        this.activeNode = null;
+        this.setClassToNodes();
+        this.updateGraph();
+
+        await this.afterAnimationEnds();
+    }
+}
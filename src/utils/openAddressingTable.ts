@@ -0,0 +1,587 @@
+import {StylesheetJson} from "cytoscape";
+import HashStructure, {HashFunction, hashFunctions} from "@/utils/base/hashStructure";
+import {NodeData, StructureState, StructureJSON} from "@/utils/base/baseStructure";
+
+// Value of a slot whose key was deleted, the keys are numbers so it can not be mistaken for a key
+const tombstone: string = "DEL"
+
+// Size of the label with the current probe
+const probeLabelWidth: number = 110
+const probeLabelHeight: number = 24
+
+// Probing sequences that can be selected for the table
+export type ProbingMethod = "linear" | "quadratic" | "doubleHashing";
+export const probingMethods: ProbingMethod[] = ["linear", "quadratic", "doubleHashing"];
+
+// Sizes of a random table, all of them prime numbers
+const randomCapacities: number[] = [5, 7, 11]
+
+/**
+ * Checks whether the size of the table is a prime number.
+ * @param size - The number of slots.
+ * @returns True if the size is a prime number.
+ */
+export function isPrime(size: number): boolean {
+    if (!Number.isInteger(size) || size < 2) return false;
+
+    for (let divisor = 2; divisor * divisor <= size; divisor++) {
+        if (size % divisor === 0) return false;
+    }
+    return true;
+}
+
+/**
+ * OpenAddressingTable - Represents a visualized hash table with open addressing using Cytoscape.js.
+ * This class inherits from HashStructure, the keys are stored directly in the slots of the array.
+ * Collisions are resolved by probing the slots in the order given by the selected probing sequence.
+ */
+export default class OpenAddressingTable extends HashStructure {
+    protected probing: ProbingMethod;                // Probing sequence used to resolve the collisions
+    protected probedIndex: number|null;              // Index of the slot probed for the current key
+
+    /**
+     * Constructor to create a new visual hash table with open addressing.
+     * @param containerId - The ID of the HTML element where the hash table is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.probing = "linear";
+        this.probedIndex = null;
+
+        this.structureType = "openAddressingTable";
+    }
+
+    /**
+     * Counts the keys stored in the slots, the tombstones are not counted.
+     * @returns The number of keys.
+     */
+    protected countKeys(): number {
+        return this.getKeys().length;
+    }
+
+    /**
+     * Gets the keys stored in the slots in the order of the slots.
+     * @returns The keys of the table.
+     */
+    protected getKeys(): string[] {
+        return this.structureNodeArray
+            .map(node => String(node.value))
+            .filter(value => value !== "" && value !== tombstone);
+    }
+
+    /**
+     * Computes the step of the double hashing for the key.
+     * The step is never zero, so the probing always moves to another slot.
+     * @param key - The key to hash.
+     * @returns The step between two probes.
+     */
+    protected secondaryHash(key: string): number {
+        const k: number = parseInt(key, 10);
+        const m: number = this.initNumber - 1;
+        if (m === 0) return 1;
+
+        return 1 + ((k % m) + m) % m;
+    }
+
+    /**
+     * Computes the slot of the given probe for the key using the selected probing sequence.
+     * @param key - The key to hash.
+     * @param attempt - The number of the probe, starting from zero.
+     * @returns The index of the probed slot.
+     */
+    protected probe(key: string, attempt: number): number {
+        const start: number = this.hash(key);
+
+        switch (this.probing) {
+            case "quadratic":
+                return (start + attempt * attempt) % this.initNumber;
+            case "doubleHashing":
+                return (start + attempt * this.secondaryHash(key)) % this.initNumber;
+            default:
+                return (start + attempt) % this.initNumber;
+        }
+    }
+
+    /**
+     * Formats the selected probing sequence for the size of the table.
+     * @returns The formula of the probing sequence.
+     */
+    protected formatProbing(): string {
+        const m: number = this.initNumber;
+
+        switch (this.probing) {
+            case "quadratic":
+                return `h(k, i) = (h(k) + i²) mod ${m}`;
+            case "doubleHashing":
+                return `h(k, i) = (h(k) + i · h₂(k)) mod ${m}, h₂(k) = 1 + k mod ${Math.max(m - 1, 1)}`;
+            default:
+                return `h(k, i) = (h(k) + i) mod ${m}`;
+        }
+    }
+
+    /**
+     * Composes the lines of the label above the table.
+     * @returns The hash function, the probing sequence and the load factor on separate lines.
+     */
+    protected formatHashInfo(): string {
+        return `${this.formatHashFunction()}\n${this.formatProbing()}\n${this.formatLoadFactor()}`;
+    }
+
+    /**
+     * Probes the slots for the key without animation.
+     * The probing stops at the slot with the key, at an empty slot, or when the sequence returns to a probed slot.
+     * The tombstones are skipped, but the first of them can be reused for a new key.
+     * @param key - The key to find.
+     * @returns The probed slots, the slot with the key (or -1) and the first slot a new key can be stored in (or -1).
+     */
+    protected findSlot(key: string): { sequence: number[], index: number, free: number } {
+        const sequence: number[] = [];
+        let free: number = -1;
+
+        for (let i = 0; i < this.initNumber; i++) {
+            const slot: number = this.probe(key, i);
+            if (sequence.includes(slot)) break;  // The following probes would repeat the probed slots
+            sequence.push(slot);
+
+            const value: string = String(this.structureNodeArray[slot].value);
+            if (value === key) return { sequence: sequence, index: slot, free: free };
+
+            if (value === tombstone) {
+                if (free === -1) free = slot;
+            } else if (value === "") {
+                if (free === -1) free = slot;
+                break;
+            }
+        }
+
+        return { sequence: sequence, index: -1, free: free };
+    }
+
+    /**
+     * Formats the probed slots for the output.
+     * @param sequence - The indices of the probed slots.
+     * @returns The indices joined by arrows.
+     */
+    protected formatSequence(sequence: number[]): string {
+        return sequence.join(" → ");
+    }
+
+    /**
+     * Updates the graph with the slots and the labels of the table.
+     * The probed slot is highlighted and the tombstones are marked.
+     */
+    protected setAndUpdateGraph(): void {
+        this.structureNodeArray.forEach((slot, i) => {
+            if (i === this.probedIndex)
+                slot.class = "hashedBucket";
+            else
+                slot.class = slot.value === tombstone ? "tombstoneNode" : "arrayNode";
+        });
+
+        this.updateHashInfo();
+        super.setAndUpdateGraph();
+    }
+
+    /**
+     * Shows the probe of the slot with an animation.
+     * The label with the probe moves below the slot and the slot is highlighted.
+     * @param key - The probed key.
+     * @param attempt - The number of the probe.
+     * @param slot - The index of the probed slot.
+     */
+    protected async showProbeWithAnimation(key: string, attempt: number, slot: number): Promise<void> {
+        const { x, y } = this.getIndexPosition(slot);
+        const position = { x: x, y: y + 40 };
+        const value: string = `h(${key}, ${attempt}) = ${slot}`;
+
+        const probeNode: NodeData|undefined = this.tempNodeArray.find(node => node.id === "probe");
+        if (!probeNode) {
+            // The first probe appears below its slot
+            this.probedIndex = slot;
+            await this.addTempNodeWithAnimation({ id: "probe", value: value, ...position, class: "probeLabel", opacity: 0 });
+            return;
+        }
+
+        // The label moves to the next probed slot
+        probeNode.value = value;
+        this.setAndUpdateGraph();
+        this.findNodeInGraph(probeNode).animate(
+            { position: position },
+            { duration: this.animationSpeed }
+        );
+        probeNode.x = position.x;
+        probeNode.y = position.y;
+        await this.wait();
+
+        this.probedIndex = slot;
+        this.setAndUpdateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Shows the probes of the slots one by one with an animation.
+     * @param key - The probed key.
+     * @param sequence - The indices of the probed slots.
+     */
+    protected async probeWithAnimation(key: string, sequence: number[]): Promise<void> {
+        for (let i = 0; i < sequence.length; i++) {
+            await this.showProbeWithAnimation(key, i, sequence[i]);
+        }
+    }
+
+    /**
+     * Removes the highlight of the probed slot and the label with the probe.
+     */
+    protected clearHighlight(): void {
+        this.probedIndex = null;
+        this.tempNodeArray = this.tempNodeArray.filter(node => node.id !== "probe");
+        this.setAndUpdateGraph();
+    }
+
+    /**
+     * Stores the key in the first slot available for it without animation.
+     * Keys that are already in the table or that do not fit in it are skipped.
+     * @param element - The key to insert.
+     */
+    protected insertToArray(element: string): void {
+        const { index, free } = this.findSlot(element);
+        if (index > -1 || free === -1) return;
+
+        this.structureNodeArray[free].value = element;
+    }
+
+    /**
+     * Stores the keys to the empty slots again using the selected hash function and probing sequence.
+     * The tombstones are dropped, if some key does not fit, the slots are left unchanged.
+     * @returns True if all keys were stored, false otherwise.
+     */
+    protected redistributeKeys(): boolean {
+        const values: string[] = this.structureNodeArray.map(node => String(node.value));
+        const keys: string[] = this.getKeys();
+
+        this.structureNodeArray.forEach(node => node.value = "");
+        keys.forEach(key => this.insertToArray(key));
+        if (this.countKeys() === keys.length) return true;
+
+        this.structureNodeArray.forEach((node, i) => node.value = values[i]);
+        return false;
+    }
+
+    /**
+     * Redistributes the keys with an animation, the slots are emptied first and then filled again.
+     * @returns True if all keys were stored, false otherwise.
+     */
+    protected async redistributeKeysWithAnimation(): Promise<boolean> {
+        const previous: string[] = this.structureNodeArray.map(node => String(node.value));
+        if (!this.redistributeKeys()) return false;
+
+        // Show the emptied slots before the keys appear in their new slots
+        const values: string[] = this.structureNodeArray.map(node => String(node.value));
+        if (previous.some(value => value !== "")) {
+            this.structureNodeArray.forEach(node => node.value = "");
+            this.setAndUpdateGraph();
+            await this.wait();
+        }
+
+        this.structureNodeArray.forEach((node, i) => node.value = values[i]);
+        this.setAndUpdateGraph();
+        await this.wait();
+        return true;
+    }
+
+    /**
+     * Initializes the graph with predefined styles and settings.
+     * Adds the styles of the tombstone and the label with the probe to the styles of the hash structure.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const newStyles: StylesheetJson = [
+            {
+                selector: ".tombstoneNode",
+                style: {
+                    "width": 50,
+                    "height": 50,
+                    "shape": "rectangle",
+                    "border-color": "black",
+                    "border-width": 1,
+                    "background-width": "100%",
+                    "background-height": "100%",
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHZpZXdCb3g9IjAgMCA2MCA2MCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3QgeD0iMC41IiB5PSIwLjUiIHdpZHRoPSI1OSIgaGVpZ2h0PSI1OSIgZmlsbD0iI0U4RTdFNyIgc3Ryb2tlPSJibGFjayIvPgo8L3N2Zz4K",
+                    "label": "data(value)",
+                    "text-valign": "center",
+                    "text-halign": "center",
+                    "color": "#7A7A7A",
+                    "font-style": "italic",
+                    "font-size": 14
+                }
+            },
+            {
+                selector: ".probeLabel",
+                style: {
+                    "width": probeLabelWidth,
+                    "height": probeLabelHeight,
+                    "shape": "round-rectangle",
+                    "background-color": "white",
+                    "border-color": "black",
+                    "border-width": 1,
+                    "label": "data(value)",
+                    "text-valign": "center",
+                    "text-halign": "center",
+                    "color": "black",
+                    "font-size": 14
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...newStyles]);
+    }
+
+    /**
+     * Initializes the hash table with the given number of slots.
+     * Only a table of a prime size is created, so the double hashing reaches all slots.
+     * @param init - The number of slots.
+     */
+    public initStructure(init: number): void {
+        if (!isPrime(init)) return;
+        super.initStructure(init);
+    }
+
+    /**
+     * Picks the number of slots of a random table.
+     * @returns A prime number of slots.
+     */
+    protected randomCapacity(): number {
+        return randomCapacities[Math.floor(Math.random() * randomCapacities.length)];
+    }
+
+    /**
+     * Resets the hash table to an empty state.
+     * The selected hash function and probing sequence are kept for the next table.
+     */
+    public resetStructure(): void {
+        if (this.animationInProcess) return;
+        super.resetStructure();
+
+        this.probedIndex = null;
+    }
+
+    /**
+     * Saves the logical state of the hash table.
+     * Adds the probing sequence to the state of the hash structure.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return {
+            ...super.saveState(),
+            probing: this.probing
+        };
+    }
+
+    /**
+     * Sets the fields of the hash table from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.probing = state.probing as ProbingMethod;
+        this.probedIndex = null;
+    }
+
+    /**
+     * Exports the logical content of the hash table.
+     * The empty slots are exported as null, the tombstones as "DEL".
+     * @returns The number of slots, the hash function, the probing sequence and the content of the slots.
+     */
+    public toJSON(): StructureJSON {
+        return this.createJSON({
+            capacity: this.initNumber,
+            hashFunction: this.hashFunction,
+            probing: this.probing,
+            slots: this.structureNodeArray.map(node => node.value === "" ? null : String(node.value))
+        });
+    }
+
+    /**
+     * Builds the hash table from its JSON representation.
+     * The number of slots must be a prime number.
+     * Every key must be a unique number of at most 3 digits that is reached by its probing sequence
+     * without passing an empty slot.
+     * @param json - The JSON representation with the number of slots, the hash function, the probing sequence and the slots.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { capacity, hashFunction, probing, slots } = json;
+        if (!this.isValidCapacity(capacity) || !isPrime(capacity) || !hashFunctions.includes(hashFunction as HashFunction) ||
+            !probingMethods.includes(probing as ProbingMethod) ||
+            !Array.isArray(slots) || slots.length !== capacity) return false;
+
+        const values: string[] = slots.map(slot => slot === null ? "" : String(slot));
+        const keys: string[] = values.filter(value => value !== "" && value !== tombstone);
+        if (!keys.every(key => this.isValidKey(key)) || new Set(keys).size !== keys.length) return false;
+
+        this.resetStructure();
+        this.hashFunction = hashFunction as HashFunction;
+        this.probing = probing as ProbingMethod;
+        this.initStructure(capacity);
+        this.structureNodeArray.forEach((node, i) => node.value = values[i]);
+
+        // Each key has to be found by probing from its hashed slot
+        if (!keys.every(key => this.findSlot(key).index === values.indexOf(key))) return false;
+
+        this.setAndUpdateGraph();
+        return true;
+    }
+
+    /**
+     * Inserts the key to the hash table with an animation.
+     * The slots are probed until the key or an empty slot is found, the key is stored in the first free slot.
+     * If the key is already in the table or no free slot was found, nothing is inserted.
+     * @param key - The key to insert.
+     */
+    public async insertKey(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const { sequence, index, free } = this.findSlot(key);
+        await this.probeWithAnimation(key, sequence);
+        const probes: string = this.formatSequence(sequence);
+
+        if (index > -1) {
+            // The keys in the table are unique
+            this.log("openAddressingTable.insertDuplicate", { key: key, index: index, sequence: probes });
+        } else if (free === -1) {
+            this.log("openAddressingTable.insertFull", { key: key, sequence: probes });
+        } else {
+            // Return to the first free slot, it can be a tombstone passed before
+            if (free !== this.probedIndex)
+                await this.showProbeWithAnimation(key, sequence.indexOf(free), free);
+
+            this.structureNodeArray[free].value = key;
+            this.setAndUpdateGraph();
+            await this.wait();
+
+            this.clearHighlight();
+            this.log("openAddressingTable.insert", {
+                key: key, index: free, sequence: probes, loadFactor: this.formatLoadFactor()
+            });
+            await this.afterAnimationEnds();
+            return;
+        }
+
+        await this.wait();
+        this.clearHighlight();
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Searches for the key in the hash table with an animation.
+     * The slots are probed until the key or an empty slot is found, the tombstones are skipped.
+     * @param key - The key to find.
+     */
+    public async searchKey(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const { sequence, index } = this.findSlot(key);
+        await this.probeWithAnimation(key, sequence);
+        const probes: string = this.formatSequence(sequence);
+
+        if (index > -1)
+            this.log("openAddressingTable.searchFound", { key: key, index: index, sequence: probes });
+        else
+            this.log("openAddressingTable.searchNotFound", { key: key, sequence: probes });
+
+        await this.wait(1.5);
+        this.clearHighlight();
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Deletes the key from the hash table with an animation.
+     * The slot of the key is marked as a tombstone, so the probing of the other keys does not stop at it.
+     * If the key is not in the table, nothing is deleted.
+     * @param key - The key to delete.
+     */
+    public async deleteKey(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const { sequence, index } = this.findSlot(key);
+        await this.probeWithAnimation(key, sequence);
+        const probes: string = this.formatSequence(sequence);
+
+        if (index === -1) {
+            this.log("openAddressingTable.deleteNotFound", { key: key, sequence: probes });
+            await this.wait();
+            this.clearHighlight();
+            await this.afterAnimationEnds();
+            return;
+        }
+
+        // Leave a tombstone in the slot of the key
+        this.structureNodeArray[index].value = tombstone;
+        this.clearHighlight();
+        await this.wait();
+
+        this.log("openAddressingTable.delete", {
+            key: key, index: index, sequence: probes, loadFactor: this.formatLoadFactor()
+        });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Selects the hash function and redistributes the keys with an animation.
+     * If some key does not fit in the table with the new function, the function is not changed.
+     * @param hashFunction - The hash function to use.
+     */
+    public async setHashFunction(hashFunction: HashFunction): Promise<void> {
+        if (this.animationInProcess || !this.isInit || !hashFunctions.includes(hashFunction)) return;
+
+        await this.beforeAnimationStarts();
+
+        const previous: HashFunction = this.hashFunction;
+        this.hashFunction = hashFunction;
+        const formula: string = this.formatHashFunction();
+
+        if (!await this.redistributeKeysWithAnimation()) {
+            // The previous hash function is kept
+            this.hashFunction = previous;
+            this.log("openAddressingTable.hashFunctionFailed", { formula: formula });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        this.log("openAddressingTable.hashFunction", { formula: formula });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Selects the probing sequence and redistributes the keys with an animation.
+     * If some key does not fit in the table with the new sequence, the sequence is not changed.
+     * @param probing - The probing sequence to use.
+     */
+    public async setProbing(probing: ProbingMethod): Promise<void> {
+        if (this.animationInProcess || !this.isInit || !probingMethods.includes(probing)) return;
+
+        await this.beforeAnimationStarts();
+
+        const previous: ProbingMethod = this.probing;
+        this.probing = probing;
+        const formula: string = this.formatProbing();
+
+        if (!await this.redistributeKeysWithAnimation()) {
+            // The previous probing sequence is kept
+            this.probing = previous;
+            this.log("openAddressingTable.probingFailed", { formula: formula });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        this.log("openAddressingTable.probing", { formula: formula });
+        await this.afterAnimationEnds();
+    }
+}
@@ -1,6 +1,6 @@
-import cytoscape, {StylesheetJson} from "cytoscape";
+import {StylesheetJson} from "cytoscape";
 import ArrayStructure from "@/utils/base/arrayStructure";
-import {EdgeData, NodeData} from "@/utils/base/baseStructure";
+import {EdgeData, NodeData, StructureState, StructureJSON} from "@/utils/base/baseStructure";
 
 // Define constants for visual element dimensions
 const nodeHeight: number = 50
@@ -23,12 +23,13 @@ export default class QueueClass extends ArrayStructure {
      * Constructor to create a new visual queue.
      * @param containerId - The ID of the HTML element where the queue is displayed.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         super(containerId);
         this.beginIndex = 0;
         this.endIndex = 0;
 
         this.paddingForCentering = 170;
+        this.structureType = "queue";
     }
 
     /**
@@ -69,6 +70,23 @@ export default class QueueClass extends ArrayStructure {
         this.edges.splice(this.edges.length - 1, 1);
     }
 
+    /**
+     * Checks if there are no elements between the beginning and the end.
+     * @returns True if the beginning and the end point to the same index.
+     */
+    protected isQueueEmpty(): boolean {
+        return this.beginIndex === this.endIndex;
+    }
+
+    /**
+     * Checks if the only free slot is the one right before the beginning.
+     * One slot is always kept free, so a full queue can be told from an empty one.
+     * @returns True if no more elements can be added.
+     */
+    protected isQueueFull(): boolean {
+        return (this.endIndex + 1) % this.initNumber === this.beginIndex;
+    }
+
     /**
      * Updates the graphical pointers for the beginning and end of the queue.
      */
@@ -283,15 +301,7 @@ export default class QueueClass extends ArrayStructure {
         ];
 
 
-        this.graph = cytoscape({
-            container: document.getElementById(this.containerId),
-            style: graphStyles,
-            autolock: true,
-            autounselectify: true,
-            autoungrabify: true,
-            maxZoom: 2,
-            wheelSensitivity: 0.2
-        });
+        this.graph = this.createGraph(graphStyles);
     }
 
     /**
@@ -305,21 +315,97 @@ export default class QueueClass extends ArrayStructure {
         this.endIndex = 0;
     }
 
+    /**
+     * Saves the logical state of the queue.
+     * Adds the begin and end indices to the state of the array structure.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return { ...super.saveState(), beginIndex: this.beginIndex, endIndex: this.endIndex };
+    }
+
+    /**
+     * Sets the fields of the queue from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.beginIndex = state.beginIndex as number;
+        this.endIndex = state.endIndex as number;
+    }
+
+    /**
+     * Exports the logical content of the queue.
+     * @returns The capacity, the begin and end indices and the values from the front of the queue.
+     */
+    public toJSON(): StructureJSON {
+        const values: string[] = [];
+
+        // Walk from the beginning to the end, wrapping around the array
+        for (let i = this.beginIndex; i !== this.endIndex; i = (i + 1) % this.initNumber) {
+            values.push(String(this.structureNodeArray[i].value));
+        }
+
+        return this.createJSON({
+            capacity: this.initNumber,
+            begin: this.beginIndex,
+            end: this.endIndex,
+            values: values
+        });
+    }
+
+    /**
+     * Builds the queue from its JSON representation.
+     * The number of values must match the distance between the begin and end indices.
+     * @param json - The JSON representation with the capacity, indices and values.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { capacity, begin, end, values } = json;
+        if (!this.isValidCapacity(capacity) || !this.isListOfValues(values)) return false;
+
+        const isIndex = (index: unknown): index is number =>
+            Number.isInteger(index) && (index as number) >= 0 && (index as number) < capacity;
+        if (!isIndex(begin) || !isIndex(end) || (end - begin + capacity) % capacity !== values.length) return false;
+
+        this.resetStructure();
+        this.initStructure(capacity);
+
+        // Place the values from the beginning, wrapping around the array
+        values.forEach((value, i) => {
+            const node: NodeData = this.structureNodeArray[(begin + i) % capacity];
+            node.value = String(value);
+            node.class = "arrayColorNode";
+        });
+        this.beginIndex = begin;
+        this.endIndex = end;
+
+        // The end has wrapped around while the beginning has not - add the circular edge
+        if (end < begin) {
+            this.edges.push({
+                source: this.structureNodeArray[capacity - 1].id,
+                target: this.structureNodeArray[0].id,
+                class: "circleEdge",
+                opacity: 1
+            });
+        }
+
+        this.setAndUpdateGraph();
+        return true;
+    }
+
     /**
      * Adds a new element to the queue.
      * @param element - The element to be added to the queue.
      * Handles circular behavior when the queue reaches the end.
      */
     public async addElement(element: string): Promise<void> {
-        const isFull: boolean = (this.beginIndex - 1 === this.endIndex) ||
-            (this.beginIndex === 0 && this.endIndex === this.initNumber-1);
-
         if (this.animationInProcess || !this.isInit) return;
 
         await this.beforeAnimationStarts();
 
         // Check if the queue is full
-        if (isFull) {
+        if (this.isQueueFull()) {
             this.log("queue.addFull");
             this.afterAnimationWithoutChange();
             return;
@@ -359,7 +445,7 @@ export default class QueueClass extends ArrayStructure {
         await this.beforeAnimationStarts();
 
         // Check if the queue is empty
-        if (this.beginIndex === this.endIndex) {
+        if (this.isQueueEmpty()) {
             this.log("queue.removeEmpty");
             this.afterAnimationWithoutChange();
             return;
@@ -393,10 +479,10 @@ export default class QueueClass extends ArrayStructure {
 
         await this.beforeAnimationStarts();
 
-        if (this.beginIndex === this.endIndex)
-            this.log("queue.empty");
+        if (this.isQueueEmpty())
+            this.log(`${this.structureType}.empty`);
         else
-            this.log("queue.notEmpty");
+            this.log(`${this.structureType}.notEmpty`);
 
         await this.afterAnimationEnds();
     }
@@ -409,13 +495,10 @@ export default class QueueClass extends ArrayStructure {
 
         await this.beforeAnimationStarts();
 
-        const isFull: boolean = (this.beginIndex - 1 === this.endIndex) ||
-            (this.beginIndex === 0 && this.endIndex === this.initNumber-1);
-
-        if (isFull)
-            this.log("queue.full");
+        if (this.isQueueFull())
+            this.log(`${this.structureType}.full`);
         else
-            this.log("queue.notFull");
+            this.log(`${this.structureType}.notFull`);
 
         await this.afterAnimationEnds();
     }
@@ -430,7 +513,7 @@ export default class QueueClass extends ArrayStructure {
         await this.beforeAnimationStarts();
 
         // Check if the queue is empty
-        if (this.beginIndex === this.endIndex) {
+        if (this.isQueueEmpty()) {
             this.log(`queue.frontError`);
             this.afterAnimationWithoutChange();
             return;
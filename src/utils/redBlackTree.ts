@@ -0,0 +1,520 @@
+import BinarySearchTree, { TreeNodeData } from "@/utils/binarySearchTree";
+import { StructureState, StructureJSON } from "@/utils/base/baseStructure";
+import { StylesheetJson, StylesheetJsonBlock } from "cytoscape";
+
+// Colors of the nodes, the NIL leaves are always black
+export type NodeColor = "red" | "black";
+
+/**
+ * Describes a deletion before the node is removed, so the fix-up can continue after the removal.
+ */
+interface RedBlackDeletion {
+    key: string;                        // Key of the deleted node
+    successorKey: string | null;        // Key of the successor moved to the place of the deleted node
+    color: NodeColor;                   // Color of the place of the deleted node
+    removedColor: NodeColor;            // Color of the node removed from the tree
+    parent: TreeNodeData | null;        // Parent of the removed node
+    side: "left" | "right";             // Side of the removed node under its parent
+}
+
+/**
+ * RedBlackTree - Represents a visualized red-black tree using Cytoscape.js.
+ * This class inherits from BinarySearchTree and keeps the tree balanced by recoloring and rotating the nodes.
+ * The null children of the binary search tree are shown as the black NIL leaves.
+ */
+export default class RedBlackTree extends BinarySearchTree {
+    protected colors: Record<string, NodeColor>;       // Colors of the nodes keyed by their keys
+    protected focusedNode: TreeNodeData | null;         // Node handled by the current case of the fix-up
+    protected deletion: RedBlackDeletion | null;        // Deletion waiting for its fix-up
+
+    /**
+     * Constructor to create a new red-black tree.
+     * @param containerId - The ID of the HTML element where the tree is displayed.
+     */
+    constructor(containerId: string | null = null) {
+        super(containerId);
+        this.colors = {};
+        this.focusedNode = null;
+        this.deletion = null;
+
+        this.structureType = "redBlackTree";
+    }
+
+    /**
+     * Gets the color of the node.
+     * A node that has no color yet was just inserted, so it is red.
+     * @param node - The node to check.
+     * @returns The color of the node, black for the NIL leaves.
+     */
+    protected getColor(node: TreeNodeData | undefined): NodeColor {
+        if (!node || node.class === "nullNode") return "black";
+        return this.colors[String(node.value)] ?? "red";
+    }
+
+    /**
+     * Formats the node for the output.
+     * @param node - The node to format.
+     * @returns The key of the node, or "NIL" for a leaf.
+     */
+    protected formatKey(node: TreeNodeData | undefined): string {
+        return !node || node.class === "nullNode" ? "NIL" : String(node.value);
+    }
+
+    /**
+     * Finds the node with the key.
+     * @param key - The key to find.
+     * @returns The node with the key, or undefined if the tree does not contain it.
+     */
+    protected findNodeByKey(key: string | number): TreeNodeData | undefined {
+        return this.treeNodes.find(node => node.class !== "nullNode" && String(node.value) === String(key));
+    }
+
+    /**
+     * Checks whether the tree fulfills the properties of a red-black tree.
+     * @returns True if the root is black, no red node has a red child
+     * and every path from a node to its NIL leaves contains the same number of black nodes.
+     */
+    public isRedBlackTree(): boolean {
+        // Black height of the subtree, -1 if the subtree breaks some property
+        const blackHeight = (nodeId: string | number | null): number => {
+            const node: TreeNodeData | undefined = this.findNodeInTreeNodes(nodeId);
+            if (!node || node.class === "nullNode") return 1;
+
+            const left: number = blackHeight(node.left);
+            const right: number = blackHeight(node.right);
+            if (left === -1 || right === -1 || left !== right) return -1;
+
+            const isRed: boolean = this.getColor(node) === "red";
+            if (isRed && (this.getColor(this.findNodeInTreeNodes(node.left)) === "red" ||
+                this.getColor(this.findNodeInTreeNodes(node.right)) === "red")) return -1;
+
+            return left + (isRed ? 0 : 1);
+        };
+
+        const rootNode: TreeNodeData | undefined = this.treeNodes[0];
+        return !rootNode || (this.getColor(rootNode) === "black" && blackHeight(rootNode.id) !== -1);
+    }
+
+    /**
+     * Creates the visual nodes and edges from the current tree without drawing them.
+     * The nodes are drawn by their colors, the null children as the NIL leaves.
+     * The node handled by the fix-up is marked.
+     */
+    protected createGraphFromTree(): void {
+        super.createGraphFromTree();
+
+        this.nodes.forEach(node => {
+            const treeNode: TreeNodeData | undefined = this.findNodeInTreeNodes(node.id);
+            if (!treeNode) return;
+
+            if (treeNode.class === "nullNode") {
+                node.value = "NIL";
+                node.class = "nilNode";
+            } else if (treeNode.class === "defaultNode") {
+                node.class = this.getColor(treeNode) === "red" ? "redNode" : "blackNode";
+            }
+
+            if (treeNode === this.focusedNode) node.class += " focusedNode";
+        });
+    }
+
+    /**
+     * Marks the node handled by the next case of the fix-up.
+     * @param node - The node to mark, or null to remove the mark.
+     */
+    protected async focusNodeWithAnimation(node: TreeNodeData | null): Promise<void> {
+        this.focusedNode = node;
+        this.transferTreeToGraph();
+        await this.wait();
+    }
+
+    /**
+     * Changes the colors of the nodes with an animation.
+     * @param changes - The nodes with their new colors.
+     */
+    protected async recolorWithAnimation(changes: [TreeNodeData, NodeColor][]): Promise<void> {
+        changes.forEach(([node, color]) => {
+            if (node.class !== "nullNode") this.colors[String(node.value)] = color;
+        });
+
+        this.transferTreeToGraph();
+        await this.wait();
+    }
+
+    /**
+     * Restores the properties of the red-black tree after the node was inserted.
+     * @param node - The inserted red node.
+     *
+     * While the parent of the node is red, handles 3 cases:
+     * 1. The uncle is red - the parent and the uncle are recolored black, the grandparent red
+     *    and the fix-up continues from the grandparent.
+     * 2. The uncle is black and the node is an inner grandchild - the parent is rotated,
+     *    so the node becomes the outer one and case 3 follows.
+     * 3. The uncle is black and the node is an outer grandchild - the parent is recolored black,
+     *    the grandparent red and the grandparent is rotated.
+     * Finally, the root is recolored black.
+     */
+    protected async fixInsertionWithAnimation(node: TreeNodeData): Promise<void> {
+        this.colors[String(node.value)] = "red";
+        let current: TreeNodeData = node;
+
+        while (true) {
+            const parent: TreeNodeData | undefined = this.findParentNode(current.id);
+            if (!parent || this.getColor(parent) === "black") break;
+
+            // The root is black, so a red parent always has a parent
+            const grandparent: TreeNodeData = this.findParentNode(parent.id)!;
+            const parentSide: "left" | "right" = grandparent.left === parent.id ? "left" : "right";
+            const uncle: TreeNodeData | undefined = this.findNodeInTreeNodes(parentSide === "left" ? grandparent.right : grandparent.left);
+            const side: "left" | "right" = parent.left === current.id ? "left" : "right";
+
+            await this.focusNodeWithAnimation(current);
+
+            // Case 1: The uncle is red
+            if (this.getColor(uncle) === "red") {
+                this.log("redBlack.insertCase1", {
+                    key: current.value, parent: parent.value, uncle: uncle!.value, grandparent: grandparent.value
+                });
+                await this.recolorWithAnimation([[parent, "black"], [uncle!, "black"], [grandparent, "red"]]);
+                current = grandparent;
+                continue;
+            }
+
+            // Case 2: The node is an inner grandchild
+            if (side !== parentSide) {
+                this.log("redBlack.insertCase2", { key: current.value, parent: parent.value });
+                await this.rotateWithAnimation(parent, parentSide);
+                current = parent;
+                continue;
+            }
+
+            // Case 3: The node is an outer grandchild
+            this.log("redBlack.insertCase3", { key: current.value, parent: parent.value, grandparent: grandparent.value });
+            await this.recolorWithAnimation([[parent, "black"], [grandparent, "red"]]);
+            await this.rotateWithAnimation(grandparent, parentSide === "left" ? "right" : "left");
+            break;
+        }
+
+        const rootNode: TreeNodeData = this.treeNodes[0];
+        if (this.getColor(rootNode) === "red") {
+            await this.focusNodeWithAnimation(rootNode);
+            this.log("redBlack.insertRoot", { key: rootNode.value });
+            await this.recolorWithAnimation([[rootNode, "black"]]);
+        }
+
+        await this.focusNodeWithAnimation(null);
+    }
+
+    /**
+     * Describes the deletion of the key before the node is removed.
+     * A node with two children takes the key of its successor, so the successor is the removed node.
+     * @param key - The key to delete.
+     * @returns The description of the deletion, or null if the tree does not contain the key.
+     */
+    protected prepareDeletion(key: string | number): RedBlackDeletion | null {
+        const node: TreeNodeData | undefined = this.findNodeByKey(key);
+        if (!node) return null;
+
+        // Find the node that is removed from the tree
+        let removed: TreeNodeData = node;
+        if (this.isNodeValid(node.left) && this.isNodeValid(node.right)) {
+            removed = this.findNodeInTreeNodes(node.right)!;
+            while (this.isNodeValid(removed.left)) removed = this.findNodeInTreeNodes(removed.left)!;
+        }
+
+        const parent: TreeNodeData | null = this.findParentNode(removed.id) ?? null;
+        return {
+            key: String(node.value),
+            successorKey: removed === node ? null : String(removed.value),
+            color: this.getColor(node),
+            removedColor: this.getColor(removed),
+            parent: parent,
+            side: parent?.left === removed.id ? "left" : "right"
+        };
+    }
+
+    /**
+     * Restores the properties of the red-black tree after the node was removed.
+     * @param deletion - The description of the deletion.
+     *
+     * Removing a red node keeps the properties. If a black node was removed, the node that took its place
+     * carries an extra black. A red node is recolored black, otherwise 4 cases are handled:
+     * 1. The sibling is red - the sibling is recolored black, the parent red and the parent is rotated,
+     *    so the sibling becomes black.
+     * 2. The sibling and both its children are black - the sibling is recolored red and the extra black
+     *    moves to the parent.
+     * 3. The sibling is black with a red near child and a black far child - the sibling is recolored red,
+     *    the near child black and the sibling is rotated, so case 4 follows.
+     * 4. The sibling is black with a red far child - the sibling takes the color of the parent,
+     *    the parent and the far child are recolored black and the parent is rotated.
+     */
+    protected async fixDeletionWithAnimation(deletion: RedBlackDeletion): Promise<void> {
+        // The successor keeps the color of the place it moved to
+        delete this.colors[deletion.key];
+        if (deletion.successorKey !== null) this.colors[deletion.successorKey] = deletion.color;
+        this.transferTreeToGraph();
+
+        if (deletion.removedColor === "red") return;
+
+        let current: TreeNodeData = deletion.parent
+            ? this.findNodeInTreeNodes(deletion.parent[deletion.side])!
+            : this.treeNodes[0];
+
+        while (current !== this.treeNodes[0] && this.getColor(current) === "black") {
+            const parent: TreeNodeData = this.findParentNode(current.id)!;
+            const side: "left" | "right" = parent.left === current.id ? "left" : "right";
+            const otherSide: "left" | "right" = side === "left" ? "right" : "left";
+
+            // The black heights are equal, so the sibling of a node with an extra black is never a NIL leaf
+            const sibling: TreeNodeData = this.findNodeInTreeNodes(parent[otherSide])!;
+            const nearChild: TreeNodeData = this.findNodeInTreeNodes(sibling[side])!;
+            const farChild: TreeNodeData = this.findNodeInTreeNodes(sibling[otherSide])!;
+            const params = { key: this.formatKey(current), parent: parent.value, sibling: sibling.value };
+
+            await this.focusNodeWithAnimation(current);
+
+            // Case 1: The sibling is red
+            if (this.getColor(sibling) === "red") {
+                this.log("redBlack.deleteCase1", params);
+                await this.recolorWithAnimation([[sibling, "black"], [parent, "red"]]);
+                await this.rotateWithAnimation(parent, side);
+                continue;
+            }
+
+            // Case 2: Both children of the sibling are black
+            if (this.getColor(nearChild) === "black" && this.getColor(farChild) === "black") {
+                this.log("redBlack.deleteCase2", params);
+                await this.recolorWithAnimation([[sibling, "red"]]);
+                current = parent;
+                continue;
+            }
+
+            // Case 3: The far child of the sibling is black
+            if (this.getColor(farChild) === "black") {
+                this.log("redBlack.deleteCase3", { ...params, nephew: nearChild.value });
+                await this.recolorWithAnimation([[nearChild, "black"], [sibling, "red"]]);
+                await this.rotateWithAnimation(sibling, otherSide);
+                continue;
+            }
+
+            // Case 4: The far child of the sibling is red
+            this.log("redBlack.deleteCase4", { ...params, nephew: farChild.value });
+            await this.recolorWithAnimation([[sibling, this.getColor(parent)], [parent, "black"], [farChild, "black"]]);
+            await this.rotateWithAnimation(parent, side);
+            current = this.treeNodes[0];
+        }
+
+        // A red node or the root takes the extra black
+        if (this.getColor(current) === "red") {
+            await this.focusNodeWithAnimation(current);
+            this.log("redBlack.deleteRecolor", { key: current.value });
+            await this.recolorWithAnimation([[current, "black"]]);
+        }
+
+        await this.focusNodeWithAnimation(null);
+    }
+
+    /**
+     * Restores the properties of the red-black tree after a node was inserted or deleted.
+     * @param key - The key of the inserted or deleted node.
+     */
+    protected async balanceTreeWithAnimation(key: string|number): Promise<void> {
+        const deletion: RedBlackDeletion | null = this.deletion;
+        this.deletion = null;
+
+        if (deletion) {
+            await this.fixDeletionWithAnimation(deletion);
+            return;
+        }
+
+        // Only a new node has no color yet
+        const node: TreeNodeData | undefined = this.findNodeByKey(key);
+        if (node && this.colors[String(node.value)] === undefined) {
+            await this.fixInsertionWithAnimation(node);
+        }
+    }
+
+    /**
+     * Deletes a node from the red-black tree.
+     * The deletion is described before the node is removed, the fix-up follows the removal.
+     * @param key - The value of the node to delete.
+     */
+    public async deleteNode(key: string|number): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        this.deletion = this.prepareDeletion(key);
+        await super.deleteNode(key);
+        this.deletion = null;
+    }
+
+    /**
+     * Colors a balanced tree, so it fulfills the properties of a red-black tree.
+     * If the NIL leaves are not all on the same level, the nodes on the lowest level are red, the other nodes are black.
+     */
+    protected colorBalancedTree(): void {
+        const depths = new Map<TreeNodeData, number>();
+        const setDepth = (nodeId: string | number | null, depth: number): void => {
+            const node: TreeNodeData | undefined = this.findNodeInTreeNodes(nodeId);
+            if (!node) return;
+
+            depths.set(node, depth);
+            setDepth(node.left, depth + 1);
+            setDepth(node.right, depth + 1);
+        };
+        setDepth(this.treeNodes[0].id, 0);
+
+        const nilDepths: number[] = [...depths].filter(([node]) => node.class === "nullNode").map(([, depth]) => depth);
+        const lowestLevel: number = Math.max(...nilDepths) - 1;
+        const isPerfect: boolean = Math.min(...nilDepths) === Math.max(...nilDepths);
+
+        this.colors = {};
+        depths.forEach((depth, node) => {
+            if (node.class === "nullNode") return;
+            this.colors[String(node.value)] = !isPerfect && depth === lowestLevel ? "red" : "black";
+        });
+    }
+
+    /**
+     * Initializes the graph with predefined styles and settings.
+     * Adds the styles of the red and black nodes, the NIL leaves and the marked node to the binary search tree styles.
+     */
+    protected initGraph(): void {
+        super.initGraph();
+
+        const createColorNodeStyle = (className: string, image: string): StylesheetJsonBlock =>
+            ({
+                selector: `.${className}`,
+                style: {
+                    "width": 55,
+                    "height": 55,
+                    "shape": "ellipse",
+                    "border-color": "black",
+                    "border-width": 1,
+                    "background-width": "100%",
+                    "background-height": "100%",
+                    "background-image": image,
+                    "label": "data(value)",
+                    "color": "white",
+                    "font-size": 14,
+                    "text-valign": "center",
+                    "text-halign": "center",
+                    "text-justification": "center",
+                }
+            });
+
+        const newNodeStyles: StylesheetJson = [
+            createColorNodeStyle("redNode", "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTUiIGhlaWdodD0iNTUiIHZpZXdCb3g9IjAgMCA1NSA1NSIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMjcuNSIgY3k9IjI3LjUiIHI9IjI3LjUiIGZpbGw9IiNFMjU3NEMiLz4KPC9zdmc+Cg=="),
+            createColorNodeStyle("blackNode", "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTUiIGhlaWdodD0iNTUiIHZpZXdCb3g9IjAgMCA1NSA1NSIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMjcuNSIgY3k9IjI3LjUiIHI9IjI3LjUiIGZpbGw9IiMzQjNCM0IiLz4KPC9zdmc+Cg=="),
+            {
+                selector: ".nilNode",
+                style: {
+                    "width": 30,
+                    "height": 20,
+                    "shape": "rectangle",
+                    "background-width": "100%",
+                    "background-height": "100%",
+                    "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzAiIGhlaWdodD0iMjAiIHZpZXdCb3g9IjAgMCAzMCAyMCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3Qgd2lkdGg9IjMwIiBoZWlnaHQ9IjIwIiBmaWxsPSIjM0IzQjNCIi8+Cjwvc3ZnPgo=",
+                    "label": "data(value)",
+                    "color": "white",
+                    "font-size": 10,
+                    "text-valign": "center",
+                    "text-halign": "center",
+                }
+            },
+            {
+                selector: ".focusedNode",
+                style: {
+                    "border-color": "#FFC933",
+                    "border-width": 4,
+                }
+            }
+        ];
+
+        this.graph.style().fromJson([...this.graph.style().json(), ...newNodeStyles]);
+    }
+
+    /**
+     * Resets the red-black tree to an empty state.
+     */
+    public resetStructure(): void {
+        if (this.animationInProcess) return;
+        super.resetStructure();
+
+        this.colors = {};
+        this.focusedNode = null;
+        this.deletion = null;
+    }
+
+    /**
+     * Saves the logical state of the red-black tree.
+     * Adds the colors of the nodes to the state of the binary search tree.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return { ...super.saveState(), colors: { ...this.colors } };
+    }
+
+    /**
+     * Sets the fields of the red-black tree from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.colors = state.colors as Record<string, NodeColor>;
+        this.focusedNode = null;
+        this.deletion = null;
+    }
+
+    /**
+     * Exports the logical content of the red-black tree.
+     * @returns The shape of the tree with the keys of its nodes and the colors of the nodes keyed by their keys.
+     */
+    public toJSON(): StructureJSON {
+        const colors: Record<string, NodeColor> = {};
+        this.treeNodes
+            .filter(node => node.class !== "nullNode")
+            .forEach(node => colors[String(node.value)] = this.getColor(node));
+
+        return { ...super.toJSON(), colors: colors };
+    }
+
+    /**
+     * Builds the red-black tree from its JSON representation.
+     * @param json - The JSON representation with the shape of the tree and the colors of the nodes.
+     * @returns True if the content was a valid binary search tree with a color for each node
+     * that fulfills the properties of a red-black tree, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { colors } = json;
+        if (typeof colors !== "object" || colors === null || Array.isArray(colors) ||
+            !Object.values(colors).every(color => color === "red" || color === "black")) return false;
+
+        if (!super.loadJSON(json)) return false;
+
+        const keys: string[] = this.treeNodes.filter(node => node.class !== "nullNode").map(node => String(node.value));
+        if (keys.length !== Object.keys(colors).length || !keys.every(key => key in colors)) return false;
+
+        this.colors = { ...colors } as Record<string, NodeColor>;
+        this.transferTreeToGraph();
+        return this.isRedBlackTree();
+    }
+
+    /**
+     * Generates a random red-black tree.
+     * The random keys of the binary search tree are inserted again in the order of a balanced tree and colored.
+     */
+    public randomStructure(): void {
+        super.randomStructure();
+
+        const keys: string[] = this.treeNodes
+            .filter(node => node.class !== "nullNode")
+            .map(node => String(node.value));
+
+        this.resetStructure();
+        this.initStructure();
+        this.buildTree(this.balancedOrder(keys));
+        this.colorBalancedTree();
+        this.transferTreeToGraph();
+        this.centerCanvas(true);
+    }
+}
@@ -1,5 +1,5 @@
-import BaseStructure, { NodeData, EdgeData } from "@/utils/base/baseStructure";
-import cytoscape, { StylesheetJson, StylesheetJsonBlock } from "cytoscape";
+import BaseStructure, { NodeData, EdgeData, StructureState, StructureJSON } from "@/utils/base/baseStructure";
+import { StylesheetJson, StylesheetJsonBlock } from "cytoscape";
 
 // Define constants for visual element dimensions
 const initHeight: number = 50
@@ -7,6 +7,57 @@ const initWidth: number = 50
 const nodeHeight: number = 45
 const nodeWidth: number = 100
 
+// Styles of the edge from the last node back to an earlier one, used by the circular lists and by the loop of a corrupted list
+export const circleEdgeStyles: StylesheetJsonBlock[] = [
+    {
+        selector: ".singleNodeCircleEdge",
+        style: {
+            'width': 2,
+            'line-color': 'black',
+            'target-arrow-shape': 'triangle',
+            'target-arrow-color': 'black',
+
+            'curve-style': 'unbundled-bezier',
+            'loop-direction': '0deg',
+            'loop-sweep': '-60deg',
+        }
+    },
+    {
+        selector: ".circleEdge",
+        style: {
+            'width': 2,
+            'line-color': 'black',
+            'target-arrow-shape': 'triangle',
+            'target-arrow-color': 'black',
+
+            'curve-style': 'unbundled-bezier',
+            'control-point-distances': [125],
+            'control-point-weights': [0.5],
+
+            'source-endpoint': '0deg',
+            'target-endpoint': '0deg'
+        }
+    }
+];
+
+// Vertical distance between the rows of the sublists created by the sorting
+const sortRowGap: number = 2*nodeHeight
+
+// Algorithms that sort the list by re-linking its nodes
+export type SortAlgorithm = "insertion" | "merge";
+export const sortAlgorithms: SortAlgorithm[] = ["insertion", "merge"];
+
+// Style of the nodes that are being compared by the sorting, also used by the doubly linked list
+export const comparedNodeStyles: StylesheetJsonBlock[] = [
+    {
+        selector: ".comparedNode",
+        style: {
+            "border-color": "#E53935",
+            "border-width": 3,
+        }
+    }
+];
+
 /**
  * SinglyLinkedList - Represents a visualized singly linked list using Cytoscape.js.
  * This class inherits from BaseStructure and visualizes linked list operations.
@@ -17,6 +68,8 @@ export default class SinglyLinkedList extends BaseStructure{
      * If null, no node is currently active.
      */
     protected activeNode: number|null;
+    protected comparisonCount: number;     // Number of compared values during the sorting
+    protected pointerChangeCount: number;  // Number of redirected pointers during the sorting
 
     /**
      * Constructor to create a new visual singly linked list.
@@ -24,12 +77,15 @@ export default class SinglyLinkedList extends BaseStructure{
      *
      * Initializes the active node to null.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         super(containerId);
         this.activeNode = null;
+        this.comparisonCount = 0;
+        this.pointerChangeCount = 0;
 
         // Set padding to center the list visualization
         this.paddingForCentering = 200;
+        this.structureType = "singlyLinkedList";
     }
 
     /**
@@ -60,10 +116,55 @@ export default class SinglyLinkedList extends BaseStructure{
             edge.target = idMap.get(edge.target)!;
         });
 
+        // The loop of a corrupted list does not survive changes of its nodes
+        this.removeBrokenLoop();
+
         // Update the class of each node
         this.setClassToNodes();
     }
 
+    /**
+     * Checks if the edge is the loop of a corrupted list.
+     * The loop is rendered as a circular edge and marked with the class "loopEdge".
+     * @param edge - The edge to check.
+     * @returns True if the edge goes from the last node back to an earlier one.
+     */
+    protected isLoopEdge(edge: EdgeData): boolean {
+        return edge.class?.split(" ").includes("loopEdge") ?? false;
+    }
+
+    /**
+     * Removes the loop of a corrupted list if it no longer goes from the last node.
+     * This happens when its source or target node is deleted or its source gets another next node.
+     */
+    protected removeBrokenLoop(): void {
+        const loopEdge: EdgeData | undefined = this.edges.find(edge => this.isLoopEdge(edge));
+        if (!loopEdge) return;
+
+        const isDeleted: boolean = loopEdge.source === undefined || loopEdge.target === undefined;
+        const isLinkedFurther: boolean = this.edges.some(edge => edge.source === loopEdge.source && edge !== loopEdge);
+
+        if (isDeleted || isLinkedFurther) {
+            this.edges = this.edges.filter(edge => edge !== loopEdge);
+        }
+    }
+
+    /**
+     * Finds an edge connecting the given source and target nodes.
+     * Excludes the loop of a corrupted list, so the operations work with the links of the list.
+     * @param sourceNode - The starting node of the edge.
+     * @param targetNode - The ending node of the edge.
+     * @returns The found edge or undefined if no matching edge is found.
+     */
+    protected findEdgeInArray(sourceNode: NodeData|null, targetNode: NodeData|null): EdgeData|undefined {
+        if (sourceNode === null && targetNode === null) return undefined;
+
+        return this.edges.find(edge =>
+            (sourceNode === null || edge.source === sourceNode.id) &&
+            (targetNode === null || edge.target === targetNode.id) &&
+            !this.isLoopEdge(edge));
+    }
+
     /**
      * Sets the visual class for each node based on its connections with other nodes in the list.
      * This method is responsible for visually distinguishing between:
@@ -84,7 +185,7 @@ export default class SinglyLinkedList extends BaseStructure{
 
         // Iterate over all nodes to assign appropriate classes
         this.nodes.forEach((node, index) => {
-            if (index > 0) {  // Skip the pointer node
+            if (index >= this.firstNodeIndex() && node.class !== "pointer") {  // Skip the pointer nodes
                 // Check if the node is the tail (no outgoing link) and is active
                 if (!sourceIds.has(node.id) && index === this.activeNode) {
                     node.class = "activeNodeWithNull";  // Active tail node
@@ -220,18 +321,25 @@ export default class SinglyLinkedList extends BaseStructure{
 
     /**
      * Creates a temporary pointer node above the specified node.
-     * @param nodeToDelete - The node to which the temporary pointer points.
+     * @param targetNode - The node to which the temporary pointer points.
+     * @param value - The label of the pointer (default: "Temp Pointer").
+     * @param id - The ID of the pointer, different pointers can be shown at once (default: "temp").
+     * @param offsetY - The vertical distance from the node, negative above the node (default: -100).
+     * @returns The created pointer node.
      *
-     * Creates a temporary pointer node at a position above the given node,
+     * Creates a temporary pointer node at a position above (or below) the given node,
      * adds it to the graph with an animation, and connects it with an edge.
      */
-    protected async addTempPtrNode(nodeToDelete: NodeData): Promise<void> {
+    protected async addTempPtrNode(
+        targetNode: NodeData, value: string = "Temp Pointer", id: string = "temp",
+        offsetY: number = -100): Promise<NodeData> {
+
         // Define temporary pointer node above the given node
         const tempPtr: NodeData = {
-            id: "temp",
-            value: "Temp Pointer",
-            x: nodeToDelete.x,
-            y: nodeToDelete.y - 100,  // Position above the node
+            id: id,
+            value: value,
+            x: targetNode.x,
+            y: targetNode.y + offsetY,
             class: "pointer",
             opacity: 0
         }
@@ -242,13 +350,48 @@ export default class SinglyLinkedList extends BaseStructure{
         // Create an edge from the temporary pointer to the target node
         const ptrEdge: EdgeData = {
             source: tempPtr.id,
-            target: nodeToDelete.id,
+            target: targetNode.id,
             class: "defaultEdge",
             opacity: 0
         }
 
         // Add the connecting edge with animation
         await this.addNewEdgesWithAnimation([ptrEdge], false);
+        return tempPtr;
+    }
+
+    /**
+     * Moves a temporary pointer node above another node.
+     * @param ptrNode - The temporary pointer to move.
+     * @param targetNode - The node to which the pointer points after the move.
+     *
+     * Animates the movement of the pointer and redirects its edge to the target node.
+     */
+    protected async moveTempPtrNode(ptrNode: NodeData, targetNode: NodeData): Promise<void> {
+        const ptrEdge: EdgeData = this.findEdgeInArray(ptrNode, null)!;
+
+        // Move the pointer above the target node
+        this.findNodeInGraph(ptrNode).animate(
+            { position: { x: targetNode.x, y: ptrNode.y } },
+            { duration: this.animationSpeed }
+        );
+        await this.wait();
+
+        ptrNode.x = targetNode.x;
+        ptrEdge.target = targetNode.id;
+        this.updateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Deletes a temporary pointer node together with its edge.
+     * @param ptrNode - The temporary pointer to delete.
+     * @param normalize - Whether to normalize the graph after deletion,
+     * not possible while other temporary pointers are shown (default: true).
+     */
+    protected async deleteTempPtrNode(ptrNode: NodeData, normalize: boolean = true): Promise<void> {
+        const ptrEdge: EdgeData = this.findEdgeInArray(ptrNode, null)!;
+        await this.deleteNodesAndEdgesWithAnimation([ptrEdge], [ptrNode], normalize);
     }
 
     /**
@@ -422,18 +565,26 @@ export default class SinglyLinkedList extends BaseStructure{
                     "target-arrow-color": "black",
                     "curve-style": "bezier",
                 }
-            }
+            },
+            {
+                selector: ".reversedEdge",
+                style: {
+                    'width': 2,
+                    'line-color': 'black',
+                    'target-arrow-shape': 'triangle',
+                    'target-arrow-color': 'black',
+
+                    'curve-style': 'round-segments' as any,
+                    'segment-distances': [40],
+                    'segment-weights': [0.5],
+                    'segment-radii': [100],
+                }
+            },
+            ...comparedNodeStyles,
+            ...circleEdgeStyles
         ];
 
-        this.graph = cytoscape({
-            container: document.getElementById(this.containerId),
-            style: graphStyles,
-            autolock: true,
-            autounselectify: true,
-            autoungrabify: true,
-            maxZoom: 2,
-            wheelSensitivity: 0.2,
-        });
+        this.graph = this.createGraph(graphStyles);
     }
 
     /**
@@ -446,6 +597,69 @@ export default class SinglyLinkedList extends BaseStructure{
         this.activeNode = null;  // Clear the active node reference
     }
 
+    /**
+     * Saves the logical state of the linked list.
+     * Adds the index of the active node to the base state.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return { ...super.saveState(), activeNode: this.activeNode };
+    }
+
+    /**
+     * Sets the fields of the linked list from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.activeNode = state.activeNode as number|null;
+    }
+
+    /**
+     * Gets the index of the first data node in the nodes array.
+     * The nodes before it are the initial pointers.
+     * @returns The index of the first data node.
+     */
+    protected firstNodeIndex(): number {
+        return 1;  // ID 0 is the initial pointer
+    }
+
+    /**
+     * Exports the logical content of the list.
+     * @returns The values of the nodes in order and the position of the active node.
+     */
+    public toJSON(): StructureJSON {
+        const firstIndex: number = this.firstNodeIndex();
+
+        return this.createJSON({
+            values: this.nodes.slice(firstIndex).map(node => String(node.value)),
+            active: this.activeNode === null ? null : this.activeNode - firstIndex
+        });
+    }
+
+    /**
+     * Builds the list from its JSON representation.
+     * @param json - The JSON representation with the values and the active position.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { values, active } = json;
+
+        // The active position must be null or point to an existing node
+        if (!this.isListOfValues(values)) return false;
+        if (active !== null && !(Number.isInteger(active) && (active as number) >= 0 && (active as number) < values.length)) return false;
+
+        this.resetStructure();
+        this.initStructure();
+        this.buildList(values.map(value => String(value)));
+
+        // Activate the node and redraw the list
+        this.activeNode = active === null ? null : this.firstNodeIndex() + (active as number);
+        this.setClassToNodes();
+        this.updateGraph();
+        return true;
+    }
+
     /**
      * Checks if there is an active node in the list.
      * @returns true if an active node exists, false otherwise.
@@ -457,16 +671,24 @@ export default class SinglyLinkedList extends BaseStructure{
     /**
      * Inserts a new node at the beginning of the singly linked list.
      * @param element - The value to be inserted as the first node.
-     *
-     * Handles two cases:
-     * 1. Adding the very first node when the list is empty.
-     * 2. Inserting a new node at the start when nodes already exist.
      */
     public async insertFirstNode(element: string): Promise<void> {
         if (this.animationInProcess || !this.isInit) return;
 
         await this.beforeAnimationStarts();
+        await this.insertFirstWithAnimation(element);
+        await this.afterAnimationEnds();
+    }
 
+    /**
+     * Animates the insertion of a new node at the beginning of the list.
+     * @param element - The value to be inserted as the first node.
+     *
+     * Handles two cases:
+     * 1. Adding the very first node when the list is empty.
+     * 2. Inserting a new node at the start when nodes already exist.
+     */
+    protected async insertFirstWithAnimation(element: string): Promise<void> {
         // Get the initial node
         const initNode: NodeData = this.nodes[0];
 
@@ -535,8 +757,6 @@ export default class SinglyLinkedList extends BaseStructure{
             // Place the new node in the list as the first element
             this.placeNewNodeToList(1, true);
         }
-
-        await this.afterAnimationEnds();
     }
 
 
@@ -583,30 +803,41 @@ export default class SinglyLinkedList extends BaseStructure{
 
     /**
      * Deletes the first node from the singly linked list.
-     * Handles different cases depending on the list size:
-     * 1. Empty list (only init node) - Logs an error.
-     * 2. List with a single node - Deletes the only node.
-     * 3. List with multiple nodes - Removes the first node and re-links the list.
+     * If the list is empty (only the init node), logs an error.
      */
     public async deleteFirstNode(): Promise<void> {
         if (this.animationInProcess || !this.isInit) return;
 
         await this.beforeAnimationStarts();
 
+        // List contains only the init node
+        if (this.nodes.length <= 1) {
+            this.log("list.deleteFirstEmpty");
+        }
+        else {
+            await this.deleteFirstWithAnimation();
+        }
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Animates the deletion of the first node of a non-empty list.
+     * Handles different cases depending on the list size:
+     * 1. List with a single node - Deletes the only node.
+     * 2. List with multiple nodes - Removes the first node and re-links the list.
+     */
+    protected async deleteFirstWithAnimation(): Promise<void> {
         // Get the initial node and the current first node
         const initNode: NodeData = this.nodes[0];
         const firstNode: NodeData = this.nodes[1];
 
-        // Case 1: List contains only the init node
-        if (this.nodes.length <= 1) {
-            this.log("list.deleteFirstEmpty");
-        }
-        // Case 2: List contains only one data node and the init node
-        else if (this.nodes.length === 2) {
+        // Case 1: List contains only one data node and the init node
+        if (this.nodes.length === 2) {
             const edgeToDelete: EdgeData = this.findEdgeInArray(null, firstNode)!;
             await this.deleteNodesAndEdgesWithAnimation([edgeToDelete], [firstNode]);
         }
-        // Case 3: List contains multiple nodes
+        // Case 2: List contains multiple nodes
         else {
             // Create a temporary pointer node pointing to the first node
             await this.addTempPtrNode(firstNode);
@@ -641,8 +872,6 @@ export default class SinglyLinkedList extends BaseStructure{
             // Update the visual style of the new edge
             this.changeEdgeStyle(newEdge, "edgeToNewNode");
         }
-
-        await this.afterAnimationEnds();
     }
 
     /**
@@ -717,17 +946,26 @@ export default class SinglyLinkedList extends BaseStructure{
     /**
      * Inserts a new node after the currently active node in the singly linked list.
      * @param element - The value of the new node to be inserted.
-     * Handles both cases: adding to the end or between existing nodes.
      */
     public async insertAfterActiveNode(element: string): Promise<void> {
         if (this.animationInProcess || !this.isInit || this.activeNode == null) return;
 
         await this.beforeAnimationStarts();
+        await this.insertAfterWithAnimation(this.activeNode, element);
+        await this.afterAnimationEnds();
+    }
 
-        const activeNode: NodeData = this.nodes[this.activeNode];
+    /**
+     * Animates the insertion of a new node after the node at the given index.
+     * @param index - The index of the node after which the new node is inserted.
+     * @param element - The value of the new node to be inserted.
+     * Handles both cases: adding to the end or between existing nodes.
+     */
+    protected async insertAfterWithAnimation(index: number, element: string): Promise<void> {
+        const activeNode: NodeData = this.nodes[index];
 
         // Case 1: Adding the new node at the end of the list
-        if (this.activeNode === this.nodes.length - 1) {
+        if (index === this.nodes.length - 1) {
             // Create the new node positioned after the current last node
             const newNode: NodeData = {
                 id: this.nodes.length,
@@ -739,6 +977,12 @@ export default class SinglyLinkedList extends BaseStructure{
             };
             await this.addNewNodeWithAnimation(newNode);
 
+            // The loop of a corrupted list is removed, the new node becomes the end of the list
+            const loopEdge: EdgeData | undefined = this.edges.find(edge => this.isLoopEdge(edge));
+            if (loopEdge && loopEdge.source === activeNode.id) {
+                await this.deleteNodesAndEdgesWithAnimation([loopEdge], [], false);
+            }
+
             // Create an edge from the active node to the new node
             const newEdge: EdgeData = {
                 source: activeNode.id,
@@ -750,7 +994,7 @@ export default class SinglyLinkedList extends BaseStructure{
         }
         else {
             // Case 2: Inserting between existing nodes
-            const nodeAfterActiveNode: NodeData = this.nodes[this.activeNode + 1];
+            const nodeAfterActiveNode: NodeData = this.nodes[index + 1];
 
             // Create the new node at the position of the node after the active one
             const newNode: NodeData = {
@@ -764,7 +1008,7 @@ export default class SinglyLinkedList extends BaseStructure{
             await this.addNewNodeWithAnimation(newNode);
 
             // Shift the following nodes to the right to make space
-            await this.shiftingNodes(this.activeNode + 1, this.nodes.length-2, 1.8*nodeWidth);
+            await this.shiftingNodes(index + 1, this.nodes.length-2, 1.8*nodeWidth);
 
             // Create a new edge from the new node to the next node
             let newEdge: EdgeData = {
@@ -789,18 +1033,14 @@ export default class SinglyLinkedList extends BaseStructure{
             await this.addNewEdgesWithAnimation([newEdge]);
 
             // Insert the new node in the correct position within the list
-            this.placeNewNodeToList(this.activeNode + 1);
+            // The active node after the inserted one moves one position further
+            this.placeNewNodeToList(index + 1, this.activeNode !== null && this.activeNode > index);
         }
-
-        await this.afterAnimationEnds();
     }
 
     /**
      * Deletes the node that comes after the active node in the singly linked list.
-     * Handles different cases depending on the list structure:
-     * 1. Active node is the last node - No change, logs an error.
-     * 2. Deleting the last node - Removes the only node after the active node.
-     * 3. Deleting a middle node - Bypasses the node and re-links the list.
+     * If the active node is the last node, logs an error.
      */
     public async deleteAfterActiveNode(): Promise<void> {
         if (this.animationInProcess || !this.isInit
@@ -808,31 +1048,43 @@ export default class SinglyLinkedList extends BaseStructure{
 
         await this.beforeAnimationStarts();
 
-        // Get the active node and the node to delete (the next one)
-        const activeNode: NodeData = this.nodes[this.activeNode];
-        const nodeToDelete: NodeData = this.nodes[this.activeNode + 1];
-
-        // Case 1: Active node is the last in the list - no node to delete after it
+        // Active node is the last in the list - no node to delete after it
         if (this.activeNode === this.nodes.length - 1) {
             this.log("list.deleteAfterEmpty");
             this.afterAnimationWithoutChange();
             return;
         }
 
-        // Case 2: Deleting the last node in the list
-        if (this.activeNode === this.nodes.length - 2) {
+        await this.deleteAfterWithAnimation(this.activeNode);
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Animates the deletion of the node that comes after the node at the given index.
+     * Handles different cases depending on the list structure:
+     * 1. Deleting the last node - Removes the only node after the given node.
+     * 2. Deleting a middle node - Bypasses the node and re-links the list.
+     * @param index - The index of the node before the deleted one.
+     */
+    protected async deleteAfterWithAnimation(index: number): Promise<void> {
+        // Get the node before the deleted one and the node to delete (the next one)
+        const activeNode: NodeData = this.nodes[index];
+        const nodeToDelete: NodeData = this.nodes[index + 1];
+
+        // Case 1: Deleting the last node in the list
+        if (index === this.nodes.length - 2) {
             const edgeToDelete: EdgeData = this.findEdgeInArray(null, nodeToDelete)!;
             await this.deleteNodesAndEdgesWithAnimation([edgeToDelete], [nodeToDelete]);
         }
         else {
-            // Case 3: Deleting a node from the middle of the list
+            // Case 2: Deleting a node from the middle of the list
 
             // Create a temporary pointer node to visualize the transition
             await this.addTempPtrNode(nodeToDelete);
 
             // Get the temporary pointer and the node after the one to delete
             const ptrNode: NodeData = this.nodes[this.nodes.length - 1];
-            const nodeToConnect: NodeData = this.nodes[this.activeNode + 2];
+            const nodeToConnect: NodeData = this.nodes[index + 2];
 
             // Create a new edge to bypass the deleted node
             const newEdge: EdgeData = {
@@ -855,13 +1107,11 @@ export default class SinglyLinkedList extends BaseStructure{
             await this.deleteNodesAndEdgesWithAnimation([edgeToDelete, ptrEdgeToDelete], [nodeToDelete, ptrNode]);
 
             // Shift nodes to the left to fill the gap
-            await this.shiftingNodes(this.activeNode + 1, this.nodes.length - 1, -1.8*nodeWidth, false);
+            await this.shiftingNodes(index + 1, this.nodes.length - 1, -1.8*nodeWidth, false);
 
             // Update the visual style of the new edge
             this.changeEdgeStyle(newEdge, "defaultEdge");
         }
-
-        await this.afterAnimationEnds();
     }
 
     /**
@@ -882,6 +1132,715 @@ export default class SinglyLinkedList extends BaseStructure{
         await this.afterAnimationEnds();
     }
 
+    /**
+     * Gets the number of nodes in the list.
+     * @returns The number of nodes after the initial pointers.
+     */
+    protected getLength(): number {
+        return this.nodes.length - this.firstNodeIndex();
+    }
+
+    /**
+     * Walks a cursor from the first node of the list to the node at the given position.
+     * @param position - The position of the node where the cursor stops (0 is the first node).
+     * @returns The cursor pointer, which has to be deleted by the caller.
+     */
+    protected async walkCursorTo(position: number): Promise<NodeData> {
+        const firstIndex: number = this.firstNodeIndex();
+        const cursor: NodeData = await this.addTempPtrNode(this.nodes[firstIndex], "Cursor", "cursor");
+
+        for (let i = 1; i <= position; i++) {
+            await this.moveTempPtrNode(cursor, this.nodes[firstIndex + i]);
+        }
+
+        return cursor;
+    }
+
+    /**
+     * Searches the list for the first node with the given value.
+     * A cursor walks the list from the first node and compares each value with the key.
+     * Logs the position of the found node or that the key is not in the list.
+     * @param key - The value to search for.
+     */
+    public async searchNode(key: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const firstIndex: number = this.firstNodeIndex();
+        const length: number = this.getLength();
+
+        // Empty list - there is no node to compare
+        if (length === 0) {
+            this.log("list.searchNotFound", { value: key });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        const cursor: NodeData = await this.addTempPtrNode(this.nodes[firstIndex], "Cursor", "cursor");
+        let position: number = 0;
+
+        // Move the cursor until the key is found or the end of the list is reached
+        while (String(this.nodes[firstIndex + position].value) !== key && position < length - 1) {
+            position++;
+            await this.moveTempPtrNode(cursor, this.nodes[firstIndex + position]);
+        }
+
+        if (String(this.nodes[firstIndex + position].value) === key)
+            this.log("list.searchFound", { value: key, index: position });
+        else
+            this.log("list.searchNotFound", { value: key });
+
+        await this.wait();
+        await this.deleteTempPtrNode(cursor);
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Counts the nodes of the list.
+     * A cursor walks the list and shows the number of nodes counted so far.
+     */
+    public async showLength(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const firstIndex: number = this.firstNodeIndex();
+        const length: number = this.getLength();
+
+        if (length > 0) {
+            const cursor: NodeData = await this.addTempPtrNode(this.nodes[firstIndex], "Count: 1", "cursor");
+
+            // Move the cursor to each following node and update the count
+            for (let i = 1; i < length; i++) {
+                await this.moveTempPtrNode(cursor, this.nodes[firstIndex + i]);
+                cursor.value = `Count: ${i + 1}`;
+                this.updateGraph();
+            }
+
+            await this.wait();
+            await this.deleteTempPtrNode(cursor);
+        }
+
+        this.log("list.length", { length: length });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Inserts a new node at the given position of the list.
+     * A cursor walks to the node before the position and the new node is inserted after it.
+     * If the position is greater than the length of the list, logs an error.
+     * @param index - The position of the new node (0 is the beginning of the list).
+     * @param element - The value of the new node.
+     */
+    public async insertAt(index: number, element: string): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const length: number = this.getLength();
+
+        // The new node can be placed at most right after the last node
+        if (index < 0 || index > length) {
+            this.log("list.insertAtError", { index: index, length: length });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        if (index === 0) {
+            await this.insertFirstWithAnimation(element);
+        }
+        else {
+            // Walk to the node before the position and insert the new node after it
+            const cursor: NodeData = await this.walkCursorTo(index - 1);
+            await this.deleteTempPtrNode(cursor);
+            await this.insertAfterWithAnimation(this.firstNodeIndex() + index - 1, element);
+        }
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Deletes the node at the given position of the list.
+     * A cursor walks to the node before the position and the node after it is deleted.
+     * If the list is empty or the position does not exist, logs an error.
+     * @param index - The position of the deleted node (0 is the first node).
+     */
+    public async deleteAt(index: number): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const length: number = this.getLength();
+
+        // Empty list - there is no node to delete
+        if (length === 0) {
+            this.log("list.deleteAtEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // The position has to belong to one of the nodes
+        if (index < 0 || index >= length) {
+            this.log("list.deleteAtError", { index: index, last: length - 1 });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        if (index === 0) {
+            await this.deleteFirstWithAnimation();
+        }
+        else {
+            // Walk to the node before the position and delete the node after it
+            const cursor: NodeData = await this.walkCursorTo(index - 1);
+            await this.deleteTempPtrNode(cursor);
+            await this.deleteAfterWithAnimation(this.firstNodeIndex() + index - 1);
+        }
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Reverses the order of the nodes in the list.
+     * The temporary pointers Prev, Current and Next walk the list like the iterative algorithm
+     * and the edges of the nodes are redirected one node at a time.
+     * At the end the initial pointer points to the former last node
+     * and the nodes are moved to the positions of their new order.
+     * A corrupted list has no end to reverse from, so it is left unchanged.
+     */
+    public async reverseList(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // The loop of a corrupted list would be lost by the reversal
+        if (this.edges.some(edge => this.isLoopEdge(edge))) {
+            this.log("list.reverseLoop");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        const firstIndex: number = this.firstNodeIndex();
+        const length: number = this.getLength();
+
+        // A list with less than two nodes is the same when reversed
+        if (length > 1) {
+            const currentPtr: NodeData = await this.addTempPtrNode(this.nodes[firstIndex], "Current", "current");
+            let prevPtr: NodeData | null = null;
+            let nextPtr: NodeData | null = null;
+
+            for (let i = 0; i < length; i++) {
+                const current: NodeData = this.nodes[firstIndex + i];
+                const prev: NodeData | null = i > 0 ? this.nodes[firstIndex + i - 1] : null;
+                const next: NodeData | null = i < length - 1 ? this.nodes[firstIndex + i + 1] : null;
+
+                // Next = Current.next, the Next pointer disappears after the last node
+                if (next === null) {
+                    await this.deleteTempPtrNode(nextPtr!, false);
+                }
+                else if (nextPtr === null) {
+                    nextPtr = await this.addTempPtrNode(next, "Next", "next", 100);
+                }
+                else {
+                    await this.moveTempPtrNode(nextPtr, next);
+                }
+
+                // Current.next = Prev
+                await this.redirectReversedNode(current, prev, next);
+
+                // Prev = Current
+                if (prevPtr === null) {
+                    prevPtr = await this.addTempPtrNode(current, "Prev", "prev", 100);
+                } else {
+                    await this.moveTempPtrNode(prevPtr, current);
+                }
+
+                // Current = Next, the Current pointer disappears after the last node
+                if (next === null) {
+                    await this.deleteTempPtrNode(currentPtr, false);
+                } else {
+                    await this.moveTempPtrNode(currentPtr, next);
+                }
+            }
+
+            // The initial pointers point to the other end of the list
+            await this.redirectReversedInitPointers(this.nodes[firstIndex], this.nodes[firstIndex + length - 1]);
+            await this.deleteTempPtrNode(prevPtr!, false);
+
+            await this.placeReversedNodes();
+        }
+
+        this.log("list.reverse");
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Redirects the edge of a node to the previous node during the reversal.
+     * The first node loses its edge and points to null, the last node gets a new edge.
+     * @param node - The node whose edge is redirected.
+     * @param prev - The previous node, or null for the first node.
+     * @param next - The next node, or null for the last node.
+     */
+    protected async redirectReversedNode(node: NodeData, prev: NodeData | null, next: NodeData | null): Promise<void> {
+        const edge: EdgeData | undefined = next === null ? undefined : this.findEdgeInArray(node, next);
+
+        // The first node becomes the last one and points to null
+        if (prev === null) {
+            await this.deleteNodesAndEdgesWithAnimation([edge!], [], false);
+            this.setClassToNodes();
+            this.updateGraph();
+        }
+        // The last node has no edge yet, a new one to the previous node is added
+        else if (edge === undefined) {
+            const newEdge: EdgeData = {
+                source: node.id,
+                target: prev.id,
+                class: "reversedEdge",
+                opacity: 0
+            };
+            await this.addNewEdgesWithAnimation([newEdge]);
+        }
+        // The edge to the next node is turned back to the previous node
+        else {
+            edge.target = prev.id;
+            edge.class = "reversedEdge";
+            this.updateGraph();
+            await this.wait();
+        }
+    }
+
+    /**
+     * Redirects the initial pointer from the former first node to the former last node.
+     * @param firstNode - The first node before the reversal.
+     * @param lastNode - The last node before the reversal.
+     */
+    protected async redirectReversedInitPointers(firstNode: NodeData, lastNode: NodeData): Promise<void> {
+        const initEdge: EdgeData = this.findEdgeInArray(this.nodes[0], firstNode)!;
+
+        initEdge.target = lastNode.id;
+        this.updateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Moves the nodes of a reversed list to the positions of their new order.
+     * The last node takes the place of the first one and so on, the active node stays the same.
+     */
+    protected async placeReversedNodes(): Promise<void> {
+        const firstIndex: number = this.firstNodeIndex();
+        const reversedNodes: NodeData[] = this.nodes.slice(firstIndex).reverse();
+        const positions: number[] = this.nodes.slice(firstIndex).map(node => node.x);
+
+        // Move every node to the position of its counterpart from the other end
+        reversedNodes.forEach((node, index) => {
+            this.findNodeInGraph(node).animate(
+                { position: { x: positions[index], y: node.y } },
+                { duration: this.animationSpeed }
+            );
+        });
+        await this.wait();
+
+        reversedNodes.forEach((node, index) => node.x = positions[index]);
+        this.nodes.splice(firstIndex, reversedNodes.length, ...reversedNodes);
+
+        // The active node keeps its value, but its position is mirrored
+        if (this.activeNode !== null) {
+            this.activeNode = firstIndex + this.nodes.length - 1 - this.activeNode;
+        }
+
+        // The redirected edges point forward again
+        this.edges.forEach(edge => {
+            if (edge.class === "reversedEdge") edge.class = "edgeToNewNode";
+        });
+
+        this.normalizeGraph();
+        this.updateGraph();
+    }
+
+    /**
+     * Corrupts the list by linking the last node back to the node at the given position.
+     * The loop replaces a previous loop and is removed again when the last node changes.
+     * If the list is empty or the position does not exist, logs an error.
+     * @param index - The position of the node the last node points to (0 is the first node).
+     */
+    public async corruptList(index: number): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        const firstIndex: number = this.firstNodeIndex();
+        const length: number = this.getLength();
+
+        // Empty list - there is no node to link
+        if (length === 0) {
+            this.log("list.corruptEmpty");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // The position has to belong to one of the nodes
+        if (index < 0 || index >= length) {
+            this.log("list.corruptError", { index: index, last: length - 1 });
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        // Remove the previous loop
+        const oldLoopEdge: EdgeData | undefined = this.edges.find(edge => this.isLoopEdge(edge));
+        if (oldLoopEdge) {
+            await this.deleteNodesAndEdgesWithAnimation([oldLoopEdge], [], false);
+        }
+
+        // Link the last node back to the chosen node
+        const lastNode: NodeData = this.nodes[firstIndex + length - 1];
+        const targetNode: NodeData = this.nodes[firstIndex + index];
+        const loopEdge: EdgeData = {
+            source: lastNode.id,
+            target: targetNode.id,
+            class: `${lastNode === targetNode ? "singleNodeCircleEdge" : "circleEdge"} loopEdge`,
+            opacity: 0
+        };
+        await this.addNewEdgesWithAnimation([loopEdge]);
+
+        this.log("list.corrupt", { value: targetNode.value, index: index });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Finds the node the given node links to, the loop of a corrupted list is followed as well.
+     * @param node - The node to start from.
+     * @returns The next node or null if the node is the end of the list.
+     */
+    protected nextNode(node: NodeData): NodeData | null {
+        const edge: EdgeData | undefined = this.edges.find(edge => edge.source === node.id);
+        return edge === undefined ? null : this.nodes.find(node => node.id === edge.target) ?? null;
+    }
+
+    /**
+     * Detects a loop in the list by Floyd's tortoise and hare algorithm.
+     * The Slow pointer moves by one node and the Fast pointer by two nodes until they meet or Fast reaches the end.
+     * After they meet, Slow starts again from the first node and both move by one node,
+     * the node where they meet again is the start of the loop.
+     */
+    public async detectCycle(): Promise<void> {
+        if (this.animationInProcess || !this.isInit) return;
+
+        await this.beforeAnimationStarts();
+
+        // Empty list - there is no loop
+        if (this.getLength() === 0) {
+            this.log("list.cycleNone");
+            this.afterAnimationWithoutChange();
+            return;
+        }
+
+        const firstNode: NodeData = this.nodes[this.firstNodeIndex()];
+        const slow: NodeData = await this.addTempPtrNode(firstNode, "Slow", "slow");
+        const fast: NodeData = await this.addTempPtrNode(firstNode, "Fast", "fast", 100);
+        let slowNode: NodeData = firstNode;
+        let fastNode: NodeData = firstNode;
+        let hasCycle: boolean = false;
+
+        // Phase 1: Slow moves by one node and Fast by two nodes
+        while (!hasCycle) {
+            const fastNext: NodeData | null = this.nextNode(fastNode);
+            const fastNextNext: NodeData | null = fastNext === null ? null : this.nextNode(fastNext);
+
+            // Fast reached the end of the list
+            if (fastNext === null || fastNextNext === null) {
+                if (fastNext !== null) await this.moveTempPtrNode(fast, fastNext);
+                break;
+            }
+
+            slowNode = this.nextNode(slowNode)!;
+            await this.moveTempPtrNode(slow, slowNode);
+            await this.moveTempPtrNode(fast, fastNext);
+            fastNode = fastNextNext;
+            await this.moveTempPtrNode(fast, fastNode);
+
+            hasCycle = slowNode === fastNode;
+        }
+
+        if (hasCycle) {
+            this.log("list.cycleMeet", { value: slowNode.value });
+
+            // Phase 2: Slow starts again from the first node, both move by one node
+            slowNode = firstNode;
+            await this.moveTempPtrNode(slow, slowNode);
+
+            while (slowNode !== fastNode) {
+                slowNode = this.nextNode(slowNode)!;
+                fastNode = this.nextNode(fastNode)!;
+                await this.moveTempPtrNode(slow, slowNode);
+                await this.moveTempPtrNode(fast, fastNode);
+            }
+
+            this.log("list.cycleFound", {
+                value: slowNode.value,
+                index: this.nodes.indexOf(slowNode) - this.firstNodeIndex()
+            });
+        }
+        else {
+            this.log("list.cycleNone");
+        }
+
+        await this.wait();
+        await this.deleteTempPtrNode(slow, false);
+        await this.deleteTempPtrNode(fast);
+
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Sorts the list in ascending order with the chosen algorithm.
+     * The nodes are re-linked, the values stay in their nodes.
+     * Logs the number of comparisons and redirected pointers at the end.
+     * @param algorithm - The sorting algorithm, insertion sort or merge sort.
+     */
+    public async sortList(algorithm: SortAlgorithm): Promise<void> {
+        if (this.animationInProcess || !this.isInit || !sortAlgorithms.includes(algorithm)) return;
+
+        await this.beforeAnimationStarts();
+
+        this.comparisonCount = 0;
+        this.pointerChangeCount = 0;
+
+        // The sorted nodes take the positions of the current nodes
+        const listNodes: NodeData[] = this.nodes.slice(this.firstNodeIndex());
+        const positions: number[] = listNodes.map(node => node.x);
+
+        if (listNodes.length > 1) {
+            if (algorithm === "insertion") {
+                await this.insertionSortWithAnimation(listNodes, positions);
+            } else {
+                await this.mergeSortWithAnimation(listNodes, [listNodes], positions, 0, 0);
+            }
+        }
+
+        this.log("list.sort", {
+            algorithm: algorithm,
+            comparisons: this.comparisonCount,
+            changes: this.pointerChangeCount
+        });
+        await this.afterAnimationEnds();
+    }
+
+    /**
+     * Sorts the nodes by the insertion sort.
+     * The first unsorted node is taken out of the list to the row below,
+     * compared with the sorted nodes from the first one and linked before the first greater node.
+     * @param listNodes - The nodes of the list in their current order.
+     * @param positions - The x coordinates of the positions in the list.
+     */
+    protected async insertionSortWithAnimation(listNodes: NodeData[], positions: number[]): Promise<void> {
+        const sorted: NodeData[] = listNodes.slice(0, 1);
+        const unsorted: NodeData[] = listNodes.slice(1);
+        const sublists: NodeData[][] = [sorted, unsorted];
+
+        while (unsorted.length > 0) {
+            // Take the first unsorted node out of the list
+            const node: NodeData = unsorted.shift()!;
+            node.y = this.sortRowY(1);
+            sublists.splice(1, 0, [node]);
+            await this.relinkSublists(sublists);
+
+            // Find the first sorted node with a greater value
+            let index: number = 0;
+            while (index < sorted.length && await this.compareWithAnimation(sorted[index], node) <= 0) {
+                index++;
+            }
+
+            // Link the node before the greater node and move the sorted nodes to their positions
+            sorted.splice(index, 0, node);
+            sublists.splice(1, 1);
+            node.y = this.sortRowY(0);
+            sorted.forEach((sortedNode, position) => sortedNode.x = positions[position]);
+            await this.relinkSublists(sublists);
+        }
+    }
+
+    /**
+     * Sorts a sublist by the merge sort.
+     * The sublist is split in the middle to two halves in the row below, both halves are sorted
+     * and then merged back to the row of the sublist by linking the smaller of the first nodes.
+     * @param sublist - The sublist to sort, it is one of the sublists.
+     * @param sublists - All sublists in the order from the left.
+     * @param positions - The x coordinates of the positions in the list.
+     * @param first - The position of the first node of the sublist.
+     * @param row - The row of the sublist, 0 is the row of the list.
+     * @returns The sorted sublist, which replaces the given one in the sublists.
+     */
+    protected async mergeSortWithAnimation(
+        sublist: NodeData[], sublists: NodeData[][], positions: number[], first: number, row: number
+    ): Promise<NodeData[]> {
+
+        if (sublist.length <= 1) return sublist;
+
+        // Split the sublist in the middle and move both halves to the row below
+        const middle: number = Math.ceil(sublist.length / 2);
+        let left: NodeData[] = sublist.slice(0, middle);
+        let right: NodeData[] = sublist.slice(middle);
+
+        sublist.forEach(node => node.y = this.sortRowY(row + 1));
+        sublists.splice(sublists.indexOf(sublist), 1, left, right);
+        await this.relinkSublists(sublists);
+
+        left = await this.mergeSortWithAnimation(left, sublists, positions, first, row + 1);
+        right = await this.mergeSortWithAnimation(right, sublists, positions, first + middle, row + 1);
+
+        // Merge the sorted halves back to the row of the sublist
+        const merged: NodeData[] = [];
+        sublists.splice(sublists.indexOf(left), 0, merged);
+
+        // Link the smaller of the first nodes, the left one if they are equal
+        while (left.length > 0 && right.length > 0) {
+            const smaller: NodeData[] = await this.compareWithAnimation(left[0], right[0]) <= 0 ? left : right;
+            const node: NodeData = smaller.shift()!;
+
+            node.x = positions[first + merged.length];
+            node.y = this.sortRowY(row);
+            merged.push(node);
+            await this.relinkSublists(sublists);
+        }
+
+        // The rest of the other half is linked at once
+        const rest: NodeData[] = left.length > 0 ? left : right;
+        rest.forEach((node, index) => {
+            node.x = positions[first + merged.length + index];
+            node.y = this.sortRowY(row);
+        });
+        merged.push(...rest.splice(0));
+        sublists.splice(sublists.indexOf(merged) + 1, 2);
+        await this.relinkSublists(sublists);
+
+        return merged;
+    }
+
+    /**
+     * Gets the y coordinate of a row used by the sorting.
+     * @param row - The row, 0 is the row of the list.
+     * @returns The y coordinate of the row.
+     */
+    protected sortRowY(row: number): number {
+        return 300 + row * sortRowGap;
+    }
+
+    /**
+     * Compares the values of two nodes and highlights both nodes during the comparison.
+     * Numbers are compared by their value, other values alphabetically.
+     * @param firstNode - The first compared node.
+     * @param secondNode - The second compared node.
+     * @returns A negative number if the first value is smaller, zero if they are equal, a positive number otherwise.
+     */
+    protected async compareWithAnimation(firstNode: NodeData, secondNode: NodeData): Promise<number> {
+        this.comparisonCount++;
+
+        // Highlight the compared nodes
+        firstNode.class += " comparedNode";
+        secondNode.class += " comparedNode";
+        this.updateGraph();
+        await this.wait();
+
+        // Remove the highlight
+        firstNode.class = firstNode.class!.replace(" comparedNode", "");
+        secondNode.class = secondNode.class!.replace(" comparedNode", "");
+        this.updateGraph();
+
+        const first: string = String(firstNode.value);
+        const second: string = String(secondNode.value);
+
+        if (!isNaN(Number(first)) && !isNaN(Number(second)))
+            return Number(first) - Number(second);
+        return first.localeCompare(second);
+    }
+
+    /**
+     * Moves the nodes to their new positions and links the nodes of each sublist.
+     * The order of the nodes follows the sublists and the redirected pointers are counted.
+     * @param sublists - The sublists in the order from the left, empty sublists are skipped.
+     */
+    protected async relinkSublists(sublists: NodeData[][]): Promise<void> {
+        const listNodes: NodeData[] = sublists.flat();
+        const activeNode: NodeData | null = this.activeNode === null ? null : this.nodes[this.activeNode];
+
+        // Move the nodes, the edges follow them
+        listNodes.forEach(node => {
+            this.findNodeInGraph(node).animate(
+                { position: { x: node.x, y: node.y } },
+                { duration: this.animationSpeed }
+            );
+        });
+        await this.wait();
+
+        // Link the nodes of each sublist
+        const newEdges: EdgeData[] = this.linkSublists(sublists.filter(sublist => sublist.length > 0));
+        this.pointerChangeCount += this.countChangedPointers(newEdges);
+        this.edges = newEdges;
+
+        // Reorder the nodes, the active node stays the same
+        this.nodes.splice(this.firstNodeIndex(), listNodes.length, ...listNodes);
+        this.activeNode = activeNode === null ? null : this.nodes.indexOf(activeNode);
+
+        this.normalizeGraph();
+        this.updateGraph();
+        await this.wait();
+    }
+
+    /**
+     * Creates the edges linking the nodes of each sublist.
+     * The initial pointer points to the first node of the first sublist.
+     * @param sublists - The non-empty sublists in the order from the left.
+     * @returns The new edges of the list.
+     */
+    protected linkSublists(sublists: NodeData[][]): EdgeData[] {
+        const edges: EdgeData[] = [this.findOrCreateEdge(this.nodes[0], sublists[0][0], "edgeToNewNode")];
+
+        sublists.forEach(sublist => {
+            for (let i = 1; i < sublist.length; i++) {
+                edges.push(this.findOrCreateEdge(sublist[i - 1], sublist[i], "edgeToNewNode"));
+            }
+        });
+
+        return edges;
+    }
+
+    /**
+     * Finds the edge between two nodes or creates a new one if the nodes are not linked.
+     * @param sourceNode - The starting node of the edge.
+     * @param targetNode - The ending node of the edge.
+     * @param edgeClass - The class of the new edge.
+     * @returns The existing edge with its style or the new edge.
+     */
+    protected findOrCreateEdge(sourceNode: NodeData, targetNode: NodeData, edgeClass: string): EdgeData {
+        const edge: EdgeData | undefined = this.edges.find(edge =>
+            edge.source === sourceNode.id && edge.target === targetNode.id);
+
+        return edge ?? { source: sourceNode.id, target: targetNode.id, class: edgeClass, opacity: 1 };
+    }
+
+    /**
+     * Counts the pointers that point to a different node with the new edges.
+     * A redirected pointer and a pointer set to or from null are counted once.
+     * @param newEdges - The edges that replace the current edges.
+     * @returns The number of changed pointers.
+     */
+    protected countChangedPointers(newEdges: EdgeData[]): number {
+        const sources: Set<string | number> = new Set([...this.edges, ...newEdges].map(edge => edge.source));
+        let changes: number = 0;
+
+        sources.forEach(source => {
+            const oldTargets = this.edges.filter(edge => edge.source === source).map(edge => edge.target);
+            const newTargets = newEdges.filter(edge => edge.source === source).map(edge => edge.target);
+
+            const removed: number = oldTargets.filter(target => !newTargets.includes(target)).length;
+            const added: number = newTargets.filter(target => !oldTargets.includes(target)).length;
+            changes += Math.max(removed, added);
+        });
+
+        return changes;
+    }
+
     /**
      * Generates a random singly linked list structure.
      * Creates a list with a random number of nodes (between 2 and 5) with a random value.
@@ -892,12 +1851,24 @@ export default class SinglyLinkedList extends BaseStructure{
 
         // Generate a random number of elements between 2 and 5
         const numOfElements: number = Math.floor(Math.random() * (5 - 2 + 1)) + 2;
+
+        // Generate a random value for each node
+        const values: string[] = Array.from({ length: numOfElements }, () => String(Math.floor(Math.random() * 100)));
+
+        this.buildList(values);
+    }
+
+    /**
+     * Builds the list from the given values without animation.
+     * Expects an initialized empty list.
+     * @param values - The values of the nodes from the first to the last.
+     */
+    protected buildList(values: string[]): void {
         const startX: number = 250 + 1.6 * nodeWidth;  // Starting x-coordinate
         const y: number = 300;  // Fixed y-coordinate
 
-        for (let i = 0; i < numOfElements; i++) {
-            // Generate a random value for the new node
-            const value: string = String(Math.floor(Math.random() * 100));
+        for (let i = 0; i < values.length; i++) {
+            const value: string = values[i];
             const id: number = this.nodes.length;
 
             // Create a new node with random value and position
@@ -1,26 +1,51 @@
 import {StylesheetJsonBlock} from "cytoscape";
 import ArrayStructure from "@/utils/base/arrayStructure";
-import {NodeData} from "@/utils/base/baseStructure";
+import {NodeData, StructureState, StructureJSON} from "@/utils/base/baseStructure";
 
 // Constants defining the size of the "top" pointer in the stack visualization
 const topNodeHeight: number = 60
 const topNodeWidth: number = 40
 
+// Distance of the newly allocated array below the old one when the stack is resized
+const resizeOffsetY: number = 100
+
+// Smallest capacity the growable array shrinks to, so an empty stack is not resized by every push and pop
+const minGrowableCapacity: number = 2
+
+// Modes of the stack - with a fixed capacity or with an array that grows and shrinks
+export type StackMode = "fixed" | "growable";
+export const stackModes: StackMode[] = ["fixed", "growable"];
+
 /**
  * StackClass - Represents a visualized stack using Cytoscape.js.
  * This class inherits from ArrayStructure and visualizes stack operations.
  */
 export default class StackClass extends ArrayStructure {
     protected topIndex: number|null;
+    protected mode: StackMode;          // Whether the array is resized when it is full
+    protected operationCount: number;   // Number of pushes and pops in the growable mode
+    protected copyCount: number;        // Number of elements copied by the resizing
 
     /**
      * Constructor to create a new visual stack.
      * @param containerId - The ID of the HTML element where the stack is displayed.
      */
-    constructor(containerId: string) {
+    constructor(containerId: string | null = null) {
         super(containerId);
         this.topIndex = null;
+        this.mode = "fixed";
+        this.operationCount = 0;
+        this.copyCount = 0;
         this.paddingForCentering = 170;
+        this.structureType = "stack";
+    }
+
+    /**
+     * Gets the number of elements in the stack.
+     * @returns The number of elements up to the top index.
+     */
+    protected getSize(): number {
+        return this.topIndex === null ? 0 : this.topIndex + 1;
     }
 
     /**
@@ -58,24 +83,184 @@ export default class StackClass extends ArrayStructure {
             }
         };
 
-        // Add the new style to the graph
-        this.graph.style().fromJson([...this.graph.style().json(), newNodeStyle]);
+        // Define the visual style for the element that is being copied to the resized array
+        const copiedNodeStyle: StylesheetJsonBlock = {
+            selector: ".arrayNode.copiedNode",
+            style: {
+                "background-image": "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHZpZXdCb3g9IjAgMCA2MCA2MCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHJlY3QgeD0iMC41IiB5PSIwLjUiIHdpZHRoPSI1OSIgaGVpZ2h0PSI1OSIgZmlsbD0iI0VBQjQ3NiIgc3Ryb2tlPSJibGFjayIvPgo8L3N2Zz4K",
+            }
+        };
+
+        // Add the new styles to the graph
+        this.graph.style().fromJson([...this.graph.style().json(), newNodeStyle, copiedNodeStyle]);
     }
 
 
     /**
      * Resets the stack to an empty state.
-     * Clears all elements and resets the top index.
+     * Clears all elements, resets the top index and the cost counters.
+     * The mode of the stack is kept.
      */
     public resetStructure(): void {
         if (this.animationInProcess) return;
         super.resetStructure();
         this.topIndex = null;
+        this.operationCount = 0;
+        this.copyCount = 0;
+    }
+
+    /**
+     * Saves the logical state of the stack.
+     * Adds the top index, the mode and the cost counters to the state of the array structure.
+     * @returns A deep copy of the current state.
+     */
+    public saveState(): StructureState {
+        return {
+            ...super.saveState(),
+            topIndex: this.topIndex,
+            mode: this.mode,
+            operationCount: this.operationCount,
+            copyCount: this.copyCount
+        };
+    }
+
+    /**
+     * Sets the fields of the stack from the given state.
+     * @param state - The state to apply.
+     */
+    protected applyState(state: StructureState): void {
+        super.applyState(state);
+        this.topIndex = state.topIndex as number|null;
+        this.mode = state.mode as StackMode;
+        this.operationCount = state.operationCount as number;
+        this.copyCount = state.copyCount as number;
+    }
+
+    /**
+     * Exports the logical content of the stack.
+     * @returns The capacity, the mode and the values from the bottom to the top of the stack.
+     */
+    public toJSON(): StructureJSON {
+        const values: string[] = this.topIndex === null ? [] :
+            this.structureNodeArray.slice(0, this.topIndex + 1).map(node => String(node.value));
+
+        return this.createJSON({ capacity: this.initNumber, mode: this.mode, values: values });
+    }
+
+    /**
+     * Builds the stack from its JSON representation.
+     * A missing mode means the fixed mode, so the stacks exported before the growable mode can be loaded.
+     * @param json - The JSON representation with the capacity, the mode and the values.
+     * @returns True if the content was valid and loaded, false otherwise.
+     */
+    protected loadJSON(json: StructureJSON): boolean {
+        const { capacity, values } = json;
+        const mode = json.mode ?? "fixed";
+        if (!this.isValidCapacity(capacity) || !stackModes.includes(mode as StackMode) ||
+            !this.isListOfValues(values) || values.length > capacity) return false;
+
+        this.resetStructure();
+        this.initStructure(capacity);
+        this.mode = mode as StackMode;
+
+        // Push the values from the bottom of the stack
+        values.forEach(value => this.insertToArray(String(value)));
+
+        this.setAndUpdateGraph();
+        return true;
+    }
+
+    /**
+     * Logs the number of operations and copies in the growable mode.
+     * The amortized cost is the number of steps (operations and copies) per operation.
+     */
+    protected logCost(): void {
+        const amortized: number = (this.operationCount + this.copyCount) / this.operationCount;
+
+        this.log("stack.cost", {
+            operations: this.operationCount,
+            copies: this.copyCount,
+            amortized: amortized.toFixed(2)
+        });
+    }
+
+    /**
+     * Replaces the array of the stack by a new array of the given capacity with an animation.
+     * The new array is allocated below the old one, the elements are copied one by one,
+     * the old array is discarded and the new one is moved to its place.
+     * @param capacity - The capacity of the new array.
+     */
+    protected async resizeWithAnimation(capacity: number): Promise<void> {
+        const size: number = this.getSize();
+
+        // Allocate the new array below the old one
+        const newArray: NodeData[] = [];
+        for (let i = 0; i < capacity; i++) {
+            const { x, y } = this.getElementPosition(i);
+            newArray.push({ id: "new " + i, value: "", x: x, y: y + resizeOffsetY, opacity: 0, class: "arrayNode" });
+        }
+        this.tempNodeArray.push(...newArray);
+        this.setAndUpdateGraph();
+
+        newArray.forEach(node => this.animateAddingElement(this.findNodeInGraph(node)));
+        await this.wait();
+        newArray.forEach(node => node.opacity = 1);
+
+        // Copy the elements one by one from the bottom of the stack
+        for (let i = 0; i < size; i++) {
+            newArray[i].value = this.structureNodeArray[i].value;
+            this.structureNodeArray[i].class = "arrayNode copiedNode";
+            newArray[i].class = "arrayNode copiedNode";
+            this.copyCount++;
+
+            this.setAndUpdateGraph();
+            await this.wait();
+
+            this.structureNodeArray[i].class = "arrayNode";
+            newArray[i].class = "arrayNode";
+        }
+        this.setAndUpdateGraph();
+
+        // Discard the old array together with its indices
+        const oldNodes: NodeData[] = [...this.structureNodeArray, ...this.tempNodeArray.filter(node => !newArray.includes(node))];
+        oldNodes.forEach(node => this.animateDeletingElement(this.findNodeInGraph(node)));
+        await this.wait();
+
+        this.structureNodeArray = [];
+        this.tempNodeArray = newArray;
+        this.setAndUpdateGraph();
+
+        // Move the new array to the place of the old one
+        newArray.forEach((node, i) => {
+            this.findNodeInGraph(node).animate(
+                { position: this.getElementPosition(i) },
+                { duration: this.animationSpeed }
+            );
+        });
+        await this.wait();
+
+        // The new array becomes the array of the stack with its indices
+        this.initNumber = capacity;
+        this.structureNodeArray = newArray.map((node, i) => ({
+            id: "node " + i,
+            value: node.value,
+            ...this.getElementPosition(i),
+            class: "arrayNode"
+        }));
+        this.tempNodeArray = newArray.map((_, i) => ({
+            id: "index " + i,
+            value: i,
+            ...this.getIndexPosition(i),
+            class: "indexNode"
+        }));
+        this.setAndUpdateGraph();
     }
 
     /**
      * Adds a new element to the stack with an animation.
-     * If the stack is full, logs an error and stops.
+     * If the stack is full, logs an error and stops in the fixed mode.
+     * In the growable mode, the array is resized to double capacity first
+     * and the cost of the operations is logged after the push.
      * @param element - The value to add.
      */
     public async addElement(element: string): Promise<void> {
@@ -84,10 +269,18 @@ export default class StackClass extends ArrayStructure {
         await this.beforeAnimationStarts();
 
         // Check if the stack is already full
-        if (this.topIndex! >= this.initNumber-1) {
-            this.log("stack.addFull");
-            this.afterAnimationWithoutChange();
-            return;
+        if (this.getSize() >= this.initNumber) {
+            const capacity: number = this.initNumber * 2;
+
+            // A fixed stack and a stack that cannot grow anymore stay unchanged
+            if (this.mode === "fixed" || !this.isValidCapacity(capacity)) {
+                this.log("stack.addFull");
+                this.afterAnimationWithoutChange();
+                return;
+            }
+
+            this.log("stack.grow", { from: this.initNumber, to: capacity });
+            await this.resizeWithAnimation(capacity);
         }
 
         // Insert the element into the array
@@ -95,6 +288,12 @@ export default class StackClass extends ArrayStructure {
 
         // Update the graph with the new element
         this.setAndUpdateGraph();
+
+        if (this.mode === "growable") {
+            this.operationCount++;
+            this.logCost();
+        }
+
         await this.afterAnimationEnds();
     }
 
@@ -102,6 +301,9 @@ export default class StackClass extends ArrayStructure {
     /**
      * Removes the top element from the stack with an animation.
      * If the stack is empty, logs an error and stops.
+     * In the growable mode, the array is resized to half capacity
+     * when less than a quarter of it is used and the cost of the operations is logged.
+     * The array does not shrink below the capacity of two elements.
      */
     public async removeElement(): Promise<void> {
         if (this.animationInProcess || !this.isInit) return;
@@ -127,6 +329,20 @@ export default class StackClass extends ArrayStructure {
 
         // Update the graph after removing the element
         this.setAndUpdateGraph();
+
+        if (this.mode === "growable") {
+            this.operationCount++;
+
+            // Shrink the array when less than a quarter of it is used, but not below the minimum capacity
+            const capacity: number = Math.floor(this.initNumber / 2);
+            if (capacity >= minGrowableCapacity && this.getSize() < this.initNumber / 4) {
+                this.log("stack.shrink", { from: this.initNumber, to: capacity });
+                await this.resizeWithAnimation(capacity);
+            }
+
+            this.logCost();
+        }
+
         await this.afterAnimationEnds();
     }
 
@@ -154,7 +370,7 @@ export default class StackClass extends ArrayStructure {
 
         await this.beforeAnimationStarts();
 
-        if (this.topIndex === this.initNumber-1)
+        if (this.getSize() >= this.initNumber)
             this.log("stack.full");
         else
             this.log("stack.notFull");
@@ -209,4 +425,22 @@ export default class StackClass extends ArrayStructure {
         this.setAndUpdateGraph();
         await this.afterAnimationEnds();
     }
+
+    /**
+     * Changes the mode of the stack.
+     * The cost counters start again from zero.
+     * @param mode - The new mode of the stack.
+     */
+    public async setMode(mode: StackMode): Promise<void> {
+        if (this.animationInProcess || !this.isInit || !stackModes.includes(mode)) return;
+
+        await this.beforeAnimationStarts();
+
+        this.mode = mode;
+        this.operationCount = 0;
+        this.copyCount = 0;
+
+        this.log("stack.mode", { mode: mode });
+        await this.afterAnimationEnds();
+    }
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+import BaseStructure, { EdgeData, StructureState } from "@/utils/base/baseStructure";
+import BinarySearchTree from "@/utils/binarySearchTree";
+import SinglyLinkedList from "@/utils/singlyLinkedList";
+import DoublyLinkedList from "@/utils/doublyLinkedList";
+
+export type LogMessage = { key: string, params?: Record<string, unknown> };
+
+export type TreeJSON = { key: string, left: TreeJSON | null, right: TreeJSON | null };
+
+/**
+ * Collects the messages logged by the structure.
+ * @param structure - The structure to listen to.
+ * @returns The array that is filled with the logged messages.
+ */
+export function collectLogs(structure: BaseStructure): LogMessage[] {
+    const messages: LogMessage[] = [];
+    structure.setLogger(message => messages.push(message));
+    return messages;
+}
+
+/**
+ * Gets the keys of the logged messages.
+ * @param messages - The collected messages.
+ * @returns The keys in the order they were logged.
+ */
+export function logKeys(messages: LogMessage[]): string[] {
+    return messages.map(message => message.key);
+}
+
+/**
+ * Follows the edges of a linked structure from the given node.
+ * The edge back to the previous node is skipped, so both directions of a doubly linked list can be walked.
+ * Stops at a node without a next edge or when a node is reached for the second time.
+ * @param state - The saved state of the structure.
+ * @param startId - The ID of the pointer node to start from.
+ * @returns The values of the reached nodes in order.
+ */
+export function linkedValues(state: StructureState, startId: string | number): (string | number | undefined)[] {
+    const values: (string | number | undefined)[] = [];
+    const visited = new Set<string | number>([startId]);
+    let previousId: string | number | null = null;
+    let currentId: string | number = startId;
+
+    while (true) {
+        const edge: EdgeData | undefined = state.edges.find(e => e.source === currentId && e.target !== previousId);
+        if (!edge || visited.has(edge.target)) break;
+
+        visited.add(edge.target);
+        values.push(state.nodes.find(node => node.id === edge.target)?.value);
+        previousId = currentId;
+        currentId = edge.target;
+    }
+
+    return values;
+}
+
+/**
+ * Creates the expected JSON representation of a subtree.
+ * @param key - The key of the root of the subtree.
+ * @param left - The left subtree.
+ * @param right - The right subtree.
+ * @returns The subtree in the exported format.
+ */
+export function tree(key: string, left: TreeJSON | null = null, right: TreeJSON | null = null): TreeJSON {
+    return { key, left, right };
+}
+
+/**
+ * Inserts the keys to the tree in the given order.
+ * @param bst - The tree to fill, a binary search tree or a balanced tree based on it.
+ * @param keys - The keys to insert.
+ */
+export async function fillTree(bst: BinarySearchTree, keys: string[]): Promise<void> {
+    for (const key of keys) await bst.insertNode(key);
+}
+
+/**
+ * Fills the list by inserting the values to the beginning in reverse order.
+ * @param list - The list to fill.
+ * @param values - The values from the first to the last node.
+ */
+export async function fillList(list: SinglyLinkedList, values: string[]): Promise<void> {
+    for (const value of [...values].reverse()) await list.insertFirstNode(value);
+}
+
+/**
+ * Fills the doubly linked list by inserting the values to the end.
+ * @param list - The list to fill.
+ * @param values - The values from the first to the last node.
+ */
+export async function appendToList(list: DoublyLinkedList, values: string[]): Promise<void> {
+    for (const value of values) await list.insertLastNode(value);
+}
+
+/**
+ * Activates the node at the given position.
+ * @param list - The list with the node.
+ * @param position - The position of the node from the first one.
+ */
+export async function activate(list: SinglyLinkedList, position: number): Promise<void> {
+    await list.activateFirstNode();
+    for (let i = 0; i < position; i++) await list.activateNextNode();
+}
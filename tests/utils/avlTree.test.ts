@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import AVLTree from "@/utils/avlTree";
+import { collectLogs, fillTree, LogMessage, tree, TreeJSON } from "../helpers";
+
+describe("AVLTree", () => {
+    let avl: AVLTree;
+    let logs: LogMessage[];
+
+    /**
+     * Gets the balance factors shown next to the nodes.
+     * @returns The shown balance factors keyed by the node.
+     */
+    function shownBalanceFactors(): Record<string, unknown> {
+        return Object.fromEntries(avl.saveState().nodes
+            .filter(node => String(node.id).startsWith("balance-"))
+            .map(node => [String(node.id).replace("balance-", ""), node.value]));
+    }
+
+    /**
+     * Checks that the null children are named after their parent, as expected by the deletion.
+     */
+    function expectNullNodesNamedAfterParents(): void {
+        const treeNodes = avl.saveState().treeNodes as { id: string, left: string | null, right: string | null, class: string }[];
+        treeNodes.filter(node => node.class !== "nullNode").forEach(node => {
+            for (const side of ["left", "right"] as const) {
+                const child = treeNodes.find(n => n.id === node[side]);
+                if (child?.class === "nullNode") expect(child.id).toBe(`null-${node.id}-${side}`);
+            }
+        });
+    }
+
+    beforeEach(() => {
+        avl = new AVLTree();
+        logs = collectLogs(avl);
+        avl.initStructure();
+    });
+
+    it("shows the balance factor of every node", async () => {
+        await fillTree(avl, ["50", "30", "70", "20"]);
+        expect(shownBalanceFactors()).toEqual({ "50": "+1", "30": "+1", "70": "0", "20": "0" });
+    });
+
+    it("rotates right in the LL case", async () => {
+        await fillTree(avl, ["30", "20", "10"]);
+
+        expect(avl.toJSON().root).toEqual(tree("20", tree("10"), tree("30")));
+        expect(logs).toEqual([{ key: "avl.rotation", params: { rotation: "LL", key: "30", balance: "+2" } }]);
+        expect(shownBalanceFactors()).toEqual({ "20": "0", "10": "0", "30": "0" });
+        expectNullNodesNamedAfterParents();
+    });
+
+    it("rotates left in the RR case", async () => {
+        await fillTree(avl, ["10", "20", "30"]);
+
+        expect(avl.toJSON().root).toEqual(tree("20", tree("10"), tree("30")));
+        expect(logs).toEqual([{ key: "avl.rotation", params: { rotation: "RR", key: "10", balance: "-2" } }]);
+    });
+
+    it("rotates left and right in the LR case", async () => {
+        await fillTree(avl, ["30", "10", "20"]);
+
+        expect(avl.toJSON().root).toEqual(tree("20", tree("10"), tree("30")));
+        expect(logs).toEqual([{ key: "avl.rotation", params: { rotation: "LR", key: "30", balance: "+2" } }]);
+        expectNullNodesNamedAfterParents();
+    });
+
+    it("rotates right and left in the RL case", async () => {
+        await fillTree(avl, ["10", "30", "20"]);
+
+        expect(avl.toJSON().root).toEqual(tree("20", tree("10"), tree("30")));
+        expect(logs).toEqual([{ key: "avl.rotation", params: { rotation: "RL", key: "10", balance: "-2" } }]);
+    });
+
+    it("rotates a subtree below the root and moves the inner subtree", async () => {
+        await fillTree(avl, ["50", "30", "70", "20", "40", "10"]);
+
+        // 30 becomes the root, 40 moves from 30 to 50
+        expect(avl.toJSON().root).toEqual(
+            tree("30", tree("20", tree("10")), tree("50", tree("40"), tree("70")))
+        );
+        expect(avl.isBalanced()).toBe(true);
+        expectNullNodesNamedAfterParents();
+    });
+
+    it("keeps the tree balanced during a sequence of insertions", async () => {
+        await fillTree(avl, ["1", "2", "3", "4", "5", "6", "7"]);
+
+        expect(avl.toJSON().root).toEqual(
+            tree("4", tree("2", tree("1"), tree("3")), tree("6", tree("5"), tree("7")))
+        );
+    });
+
+    it("rebalances the tree after a deletion", async () => {
+        await fillTree(avl, ["50", "30", "70", "80"]);
+        logs.length = 0;
+
+        await avl.deleteNode("30");
+
+        expect(avl.toJSON().root).toEqual(tree("70", tree("50"), tree("80")));
+        expect(logs).toEqual([{ key: "avl.rotation", params: { rotation: "RR", key: "50", balance: "-2" } }]);
+        expectNullNodesNamedAfterParents();
+    });
+
+    it("deletes nodes after the tree was rotated", async () => {
+        await fillTree(avl, ["30", "20", "10"]);
+        await avl.deleteNode("10");
+        await avl.deleteNode("20");
+
+        expect(avl.toJSON().root).toEqual(tree("30"));
+    });
+
+    it("imports only balanced trees", () => {
+        const balanced: TreeJSON = tree("50", tree("30", null, tree("40")), tree("70"));
+        expect(avl.fromJSON({ ...avl.toJSON(), root: balanced })).toBe(true);
+        expect(avl.toJSON().root).toEqual(balanced);
+
+        const imbalanced: TreeJSON = tree("50", tree("30", tree("20")));
+        expect(avl.fromJSON({ ...avl.toJSON(), root: imbalanced })).toBe(false);
+        expect(avl.toJSON().root).toEqual(balanced);
+    });
+
+    it("generates a balanced random tree", () => {
+        avl.randomStructure();
+        expect(avl.isInitialized()).toBe(true);
+        expect(avl.isBalanced()).toBe(true);
+    });
+});
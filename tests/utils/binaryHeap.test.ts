@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import BinaryHeap from "@/utils/binaryHeap";
+import { collectLogs, logKeys, LogMessage } from "../helpers";
+
+describe("BinaryHeap", () => {
+    let heap: BinaryHeap;
+    let logs: LogMessage[];
+
+    beforeEach(() => {
+        heap = new BinaryHeap();
+        logs = collectLogs(heap);
+        heap.initStructure(7);
+    });
+
+    /**
+     * Inserts the keys one by one.
+     */
+    async function fill(keys: string[]): Promise<void> {
+        for (const key of keys) await heap.insertKey(key);
+    }
+
+    /**
+     * Gets the exported keys in the order of the array.
+     */
+    function values(): string[] {
+        return heap.toJSON().values as string[];
+    }
+
+    it("runs headless", () => {
+        expect(heap.isHeadless()).toBe(true);
+        expect(heap.toJSON()).toMatchObject({ structure: "binaryHeap", capacity: 7, heapType: "min", values: [] });
+    });
+
+    it("sifts an inserted key up to its place", async () => {
+        await fill(["5", "8", "3"]);
+
+        expect(values()).toEqual(["3", "8", "5"]);
+        expect(logs[2]).toEqual({ key: "binaryHeap.insert", params: { key: "3", index: 0 } });
+        expect(heap.isHeap()).toBe(true);
+    });
+
+    it("shows the same keys in the tree and connects each node to its parent", async () => {
+        await fill(["5", "8", "3", "9"]);
+        const state = heap.saveState();
+
+        const treeValues = state.nodes.filter(node => String(node.id).startsWith("tree ")).map(node => node.value);
+        expect(treeValues).toEqual(["3", "8", "5", "9"]);
+        expect(state.edges.map(edge => [edge.source, edge.target])).toEqual([
+            ["tree 0", "tree 1"], ["tree 0", "tree 2"], ["tree 1", "tree 3"]
+        ]);
+    });
+
+    it("clears the highlight of both views after an operation", async () => {
+        await fill(["5", "3"]);
+
+        const classes = heap.saveState().nodes.map(node => node.class);
+        expect(classes.filter(c => c?.includes("comparedNode") || c?.includes("swappedNode"))).toEqual([]);
+    });
+
+    it("refuses to insert into a full heap", async () => {
+        await fill(["1", "2", "3", "4", "5", "6", "7", "8"]);
+
+        expect(values()).toHaveLength(7);
+        expect(logs[7]).toEqual({ key: "binaryHeap.insertFull", params: { key: "8" } });
+    });
+
+    it("extracts the minimum and sifts the last key down", async () => {
+        await fill(["3", "5", "4", "9", "6"]);
+        logs.length = 0;
+
+        await heap.extractTop();
+
+        expect(values()).toEqual(["4", "5", "6", "9"]);
+        expect(logs).toEqual([{ key: "binaryHeap.extractMin", params: { key: "3" } }]);
+    });
+
+    it("reports an empty heap", async () => {
+        await heap.extractTop();
+        expect(logKeys(logs)).toEqual(["binaryHeap.extractEmpty"]);
+    });
+
+    it("extracts the keys in sorted order", async () => {
+        await fill(["7", "2", "9", "4", "1", "8"]);
+        logs.length = 0;
+
+        for (let i = 0; i < 6; i++) await heap.extractTop();
+
+        expect(logs.map(log => log.params?.key)).toEqual(["1", "2", "4", "7", "8", "9"]);
+        expect(values()).toEqual([]);
+    });
+
+    it("builds a heap from a list of values", async () => {
+        await heap.buildHeap("9, 4 7,1  8");
+
+        expect(values()).toEqual(["1", "4", "7", "9", "8"]);
+        expect(logs).toEqual([{ key: "binaryHeap.build", params: { values: "1, 4, 7, 9, 8" } }]);
+    });
+
+    it("refuses to build a heap from more values than its capacity", async () => {
+        await fill(["1"]);
+        await heap.buildHeap("1, 2, 3, 4, 5, 6, 7, 8");
+
+        expect(values()).toEqual(["1"]);
+        expect(logs[1]).toEqual({ key: "binaryHeap.buildFull", params: { count: 8, capacity: 7 } });
+    });
+
+    it("rebuilds the heap for a new order", async () => {
+        await fill(["1", "2", "3", "4"]);
+        await heap.setHeapType("max");
+
+        expect(heap.isHeap()).toBe(true);
+        expect(values()[0]).toBe("4");
+
+        logs.length = 0;
+        await heap.extractTop();
+        expect(logs).toEqual([{ key: "binaryHeap.extractMax", params: { key: "4" } }]);
+    });
+
+    it("keeps the order of the heap after a reset", async () => {
+        await heap.setHeapType("max");
+        heap.resetStructure();
+        heap.initStructure(3);
+
+        expect(heap.toJSON()).toMatchObject({ capacity: 3, heapType: "max" });
+    });
+
+    it("imports only arrays that fulfill the heap property", () => {
+        const json = { version: 1, structure: "binaryHeap", capacity: 5, heapType: "max", values: ["9", "4", "7"] };
+        expect(heap.fromJSON(json)).toBe(true);
+        expect(heap.toJSON()).toEqual(json);
+
+        expect(heap.fromJSON({ ...json, heapType: "min" })).toBe(false);
+        expect(heap.fromJSON({ ...json, values: ["9", "4", "7", "1", "2", "3"] })).toBe(false);
+        expect(heap.fromJSON({ ...json, values: ["9", "x"] })).toBe(false);
+        expect(heap.toJSON()).toEqual(json);
+    });
+
+    it("generates a random heap", () => {
+        heap.resetStructure();
+        heap.randomStructure();
+
+        expect(heap.isInitialized()).toBe(true);
+        expect(heap.isHeap()).toBe(true);
+    });
+
+    it("restores a saved state", async () => {
+        await fill(["3", "5"]);
+        const state = heap.saveState();
+
+        await heap.extractTop();
+        heap.restoreState(state);
+
+        expect(values()).toEqual(["3", "5"]);
+        expect(heap.saveState()).toEqual(state);
+    });
+});
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import BinarySearchTree from "@/utils/binarySearchTree";
+import { collectLogs, fillTree, logKeys, LogMessage, tree, TreeJSON } from "../helpers";
+
+describe("BinarySearchTree", () => {
+    let bst: BinarySearchTree;
+    let logs: LogMessage[];
+
+    beforeEach(() => {
+        bst = new BinarySearchTree();
+        logs = collectLogs(bst);
+        bst.initStructure();
+    });
+
+    it("inserts keys to their place", async () => {
+        await fillTree(bst, ["50", "30", "70", "20", "40"]);
+        expect(bst.toJSON().root).toEqual(
+            tree("50", tree("30", tree("20"), tree("40")), tree("70"))
+        );
+    });
+
+    it("searches for keys", async () => {
+        await fillTree(bst, ["50", "30", "70"]);
+        await bst.searchNode("30");
+        await bst.searchNode("60");
+
+        expect(logs).toEqual([
+            { key: "tree.searchFound", params: { key: "30" } },
+            { key: "tree.searchNotFound", params: { key: "60" } }
+        ]);
+    });
+
+    it("keeps the saved state when searching or inserting a duplicate key", async () => {
+        await fillTree(bst, ["50", "30", "70"]);
+        const state = JSON.stringify(bst.saveState());
+
+        // The history stores only the operations that change the saved state, so these add no undo entry
+        await bst.searchNode("30");
+        await bst.searchNode("60");
+        await bst.insertNode("70");
+        expect(JSON.stringify(bst.saveState())).toBe(state);
+    });
+
+    it("refuses to delete from an empty tree", async () => {
+        await bst.deleteNode("50");
+        expect(logKeys(logs)).toEqual(["tree.deleteEmpty"]);
+    });
+
+    it("deletes a leaf", async () => {
+        await fillTree(bst, ["50", "30", "70"]);
+        await bst.deleteNode("30");
+        expect(bst.toJSON().root).toEqual(tree("50", null, tree("70")));
+    });
+
+    it("replaces a node with its only child", async () => {
+        await fillTree(bst, ["50", "30", "20", "70", "80"]);
+
+        // Only the left child
+        await bst.deleteNode("30");
+        expect(bst.toJSON().root).toEqual(tree("50", tree("20"), tree("70", null, tree("80"))));
+
+        // Only the right child
+        await bst.deleteNode("70");
+        expect(bst.toJSON().root).toEqual(tree("50", tree("20"), tree("80")));
+    });
+
+    it("replaces a node with two children by its inorder successor", async () => {
+        await fillTree(bst, ["50", "30", "70", "20", "40", "35"]);
+        await bst.deleteNode("30");
+        expect(bst.toJSON().root).toEqual(
+            tree("50", tree("35", tree("20"), tree("40")), tree("70"))
+        );
+    });
+
+    it("deletes the root with two children", async () => {
+        await fillTree(bst, ["50", "30", "70", "60", "80"]);
+        await bst.deleteNode("50");
+        expect(bst.toJSON().root).toEqual(tree("60", tree("30"), tree("70", null, tree("80"))));
+    });
+
+    it("deletes the last node", async () => {
+        await fillTree(bst, ["50"]);
+        await bst.deleteNode("50");
+        expect(bst.toJSON().root).toBeNull();
+    });
+
+    it("keeps the tree when the deleted key does not exist", async () => {
+        await fillTree(bst, ["50", "30"]);
+        await bst.deleteNode("40");
+        expect(bst.toJSON().root).toEqual(tree("50", tree("30")));
+    });
+
+    it("traverses the tree in all orders", async () => {
+        await fillTree(bst, ["50", "30", "70", "20", "40"]);
+
+        const traversals: [() => Promise<void>, string][] = [
+            [() => bst.preOrderTraversal(), "PreOrder: 50 30 20 40 70"],
+            [() => bst.inOrderTraversal(), "InOrder: 20 30 40 50 70"],
+            [() => bst.postOrderTraversal(), "PostOrder: 20 40 30 70 50"],
+            [() => bst.levelOrderTraversal(), "LevelOrder: 50 30 70 20 40"]
+        ];
+
+        // The traversal output updates the last log entry
+        for (const [traverse, output] of traversals) {
+            await traverse();
+            expect(logKeys(logs).at(-1)).toBe("__UPDATE_LAST__" + output);
+        }
+    });
+
+    it("shows the height of the tree as the number of levels", async () => {
+        await bst.showHeight();
+        await fillTree(bst, ["50", "30", "20"]);
+        await bst.showHeight();
+
+        expect(logs).toEqual([
+            { key: "tree.height", params: { height: 0 } },
+            { key: "tree.height", params: { height: 3 } }
+        ]);
+    });
+
+    it("imports and exports its content", () => {
+        const root: TreeJSON = tree("50", tree("30", null, tree("40")), tree("70"));
+
+        expect(bst.fromJSON({ ...bst.toJSON(), root })).toBe(true);
+        expect(bst.toJSON().root).toEqual(root);
+
+        // Keys that are not in the order of a binary search tree keep the previous content
+        expect(bst.fromJSON({ ...bst.toJSON(), root: tree("50", tree("70")) })).toBe(false);
+        expect(bst.toJSON().root).toEqual(root);
+    });
+});
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import CircularDoublyLinkedList from "@/utils/circularDoublyLinkedList";
+import { EdgeData } from "@/utils/base/baseStructure";
+import { activate, appendToList, collectLogs, linkedValues, logKeys, LogMessage } from "../helpers";
+
+const circleClasses: string[] = ["circleEdge", "singleNodeCircleEdge", "reverseCircleEdge", "singleNodeReverseCircleEdge"];
+
+describe("CircularDoublyLinkedList", () => {
+    let list: CircularDoublyLinkedList;
+    let logs: LogMessage[];
+
+    /**
+     * Checks the order of the values in both directions and that the end nodes are linked to each other.
+     * @param values - The expected values from the first to the last node.
+     */
+    function expectList(values: string[]): void {
+        const state = list.saveState();
+        const circularEdges: EdgeData[] = state.edges.filter(edge => circleClasses.includes(edge.class ?? ""));
+        const listState = { ...state, edges: state.edges.filter(edge => !circleClasses.includes(edge.class ?? "")) };
+
+        expect(list.toJSON().values).toEqual(values);
+        expect(linkedValues(listState, 0)).toEqual(values);
+        expect(linkedValues(listState, 1)).toEqual([...values].reverse());
+        expect(circularEdges).toHaveLength(values.length === 0 ? 0 : 2);
+        if (values.length > 0) {
+            const first = state.nodes[2].id;
+            const last = state.nodes[values.length + 1].id;
+            expect(circularEdges.map(edge => [edge.source, edge.target])).toEqual([[last, first], [first, last]]);
+        }
+    }
+
+    beforeEach(() => {
+        list = new CircularDoublyLinkedList();
+        logs = collectLogs(list);
+        list.initStructure();
+    });
+
+    it("links a single node to itself in both directions", async () => {
+        await list.insertFirstNode("a");
+        expectList(["a"]);
+        expect(list.saveState().edges.map(edge => edge.class)).toEqual(
+            expect.arrayContaining(["singleNodeCircleEdge", "singleNodeReverseCircleEdge"]));
+    });
+
+    it("keeps both circular edges when inserting to both ends", async () => {
+        await list.insertFirstNode("b");
+        await list.insertLastNode("c");
+        await list.insertFirstNode("a");
+        expectList(["a", "b", "c"]);
+        expect(list.saveState().edges.map(edge => edge.class)).toEqual(
+            expect.arrayContaining(["circleEdge", "reverseCircleEdge"]));
+    });
+
+    it("inserts nodes around the active node", async () => {
+        await appendToList(list, ["b"]);
+        await activate(list, 0);
+        await list.insertAfterActiveNode("c");
+        await list.insertBeforeActiveNode("a");
+        expectList(["a", "b", "c"]);
+    });
+
+    it("removes the circular edges after deleting the last node", async () => {
+        await appendToList(list, ["a", "b", "c"]);
+        await list.deleteFirstNode();
+        expectList(["b", "c"]);
+
+        await list.deleteLastNode();
+        expectList(["b"]);
+
+        await list.deleteFirstNode();
+        expectList([]);
+    });
+
+    it("moves the activity around the ring in both directions", async () => {
+        await appendToList(list, ["a", "b", "c"]);
+        await activate(list, 2);
+        await list.activateNextNode();
+        expect(list.toJSON().active).toBe(0);
+
+        await list.activatePreviousNode();
+        expect(list.toJSON().active).toBe(2);
+    });
+
+    it("deletes the first node after the active last node", async () => {
+        await appendToList(list, ["a", "b", "c"]);
+        await activate(list, 2);
+
+        await list.deleteAfterActiveNode();
+        expectList(["b", "c"]);
+        expect(list.toJSON().active).toBe(1);
+    });
+
+    it("deletes the last node before the active first node", async () => {
+        await appendToList(list, ["a", "b", "c"]);
+        await activate(list, 0);
+
+        await list.deleteBeforeActiveNode();
+        expectList(["a", "b"]);
+        expect(list.toJSON().active).toBe(0);
+    });
+
+    it("does not delete the only node through its own circular edges", async () => {
+        await appendToList(list, ["a"]);
+        await activate(list, 0);
+
+        await list.deleteAfterActiveNode();
+        await list.deleteBeforeActiveNode();
+        expectList(["a"]);
+        expect(logKeys(logs)).toEqual(["list.deleteAfterEmpty", "list.deleteBeforeEmpty"]);
+    });
+
+    it("imports a list with its circular edges", () => {
+        expect(list.fromJSON({ ...list.toJSON(), values: ["a", "b"], active: 1 })).toBe(true);
+        expectList(["a", "b"]);
+        expect(list.toJSON().active).toBe(1);
+    });
+
+    it("restores a saved state", async () => {
+        await appendToList(list, ["a", "b"]);
+        const state = list.saveState();
+
+        await list.insertFirstNode("c");
+        list.restoreState(state);
+
+        expectList(["a", "b"]);
+        await list.insertLastNode("d");
+        expectList(["a", "b", "d"]);
+    });
+});
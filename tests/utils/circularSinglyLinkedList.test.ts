@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import CircularSinglyLinkedList from "@/utils/circularSinglyLinkedList";
+import { EdgeData } from "@/utils/base/baseStructure";
+import { collectLogs, fillList, linkedValues, logKeys, LogMessage } from "../helpers";
+
+describe("CircularSinglyLinkedList", () => {
+    let list: CircularSinglyLinkedList;
+    let logs: LogMessage[];
+
+    /**
+     * Checks the order of the values and that the last node links back to the first one.
+     * @param values - The expected values from the first to the last node.
+     */
+    function expectList(values: string[]): void {
+        const state = list.saveState();
+        const circularEdges: EdgeData[] = state.edges.filter(edge =>
+            edge.class === "circleEdge" || edge.class === "singleNodeCircleEdge");
+
+        expect(list.toJSON().values).toEqual(values);
+        expect(linkedValues(state, 0)).toEqual(values);
+        expect(circularEdges).toHaveLength(values.length === 0 ? 0 : 1);
+        if (values.length > 0) {
+            expect(circularEdges[0]).toMatchObject({ source: state.nodes[values.length].id, target: state.nodes[1].id });
+        }
+    }
+
+    beforeEach(() => {
+        list = new CircularSinglyLinkedList();
+        logs = collectLogs(list);
+        list.initStructure();
+    });
+
+    it("links a single node to itself", async () => {
+        await list.insertFirstNode("a");
+        expectList(["a"]);
+    });
+
+    it("keeps the circular edge when inserting to the beginning", async () => {
+        await fillList(list, ["a", "b", "c"]);
+        expectList(["a", "b", "c"]);
+    });
+
+    it("keeps the circular edge when deleting the first node", async () => {
+        await fillList(list, ["a", "b", "c"]);
+        await list.deleteFirstNode();
+        expectList(["b", "c"]);
+
+        await list.deleteFirstNode();
+        expectList(["c"]);
+
+        await list.deleteFirstNode();
+        expectList([]);
+
+        await list.deleteFirstNode();
+        expect(logKeys(logs)).toEqual(["list.deleteFirstEmpty"]);
+    });
+
+    it("moves the activity from the last node back to the first one", async () => {
+        await fillList(list, ["a", "b"]);
+        await list.activateFirstNode();
+        await list.activateNextNode();
+        expect(list.toJSON().active).toBe(1);
+
+        await list.activateNextNode();
+        expect(list.toJSON().active).toBe(0);
+    });
+
+    it("inserts nodes after the active node", async () => {
+        await fillList(list, ["a"]);
+        await list.activateFirstNode();
+        await list.insertAfterActiveNode("c");
+        await list.insertAfterActiveNode("b");
+        expectList(["a", "b", "c"]);
+        expect(list.toJSON().active).toBe(0);
+    });
+
+    it("deletes nodes after the active node", async () => {
+        await fillList(list, ["a", "b", "c"]);
+        await list.activateFirstNode();
+        await list.deleteAfterActiveNode();
+        expectList(["a", "c"]);
+        expect(list.toJSON().active).toBe(0);
+    });
+
+    it("deletes the first node after the active last node", async () => {
+        await fillList(list, ["a", "b", "c"]);
+        await list.activateFirstNode();
+        await list.activateNextNode();
+        await list.activateNextNode();
+
+        await list.deleteAfterActiveNode();
+        expectList(["b", "c"]);
+        expect(list.toJSON().active).toBe(1);
+    });
+
+    it("eliminates the nodes in the order of the Josephus problem", async () => {
+        await fillList(list, ["1", "2", "3", "4", "5", "6", "7"]);
+        await list.activateFirstNode();
+        await list.josephus(3);
+
+        // Every third node is eliminated around the ring until one survives
+        expectList(["4"]);
+        expect(list.isActive()).toBe(false);
+        expect(logs.filter(log => log.key === "list.josephusStep").map(log => log.params!.value))
+            .toEqual(["3", "6", "2", "7", "5", "1"]);
+        expect(logs[logs.length - 1]).toEqual({
+            key: "list.josephus",
+            params: { order: "3, 6, 2, 7, 5, 1", survivor: "4" }
+        });
+    });
+
+    it("refuses the Josephus problem without nodes or steps", async () => {
+        await list.josephus(2);
+        await fillList(list, ["a", "b"]);
+        await list.josephus(0);
+
+        expectList(["a", "b"]);
+        expect(logs).toEqual([
+            { key: "list.josephusEmpty", params: {} },
+            { key: "list.josephusError", params: { step: 0 } },
+        ]);
+    });
+
+    it("rotates the list and keeps the active node", async () => {
+        await list.rotateList(1);
+        await fillList(list, ["a", "b", "c", "d"]);
+        await list.activateFirstNode();
+        await list.rotateList(6);
+
+        // Whole rounds are skipped, the former first node follows the former last one
+        expectList(["c", "d", "a", "b"]);
+        expect(list.toJSON().active).toBe(2);
+        expect(logs).toEqual([
+            { key: "list.rotateEmpty", params: {} },
+            { key: "list.rotate", params: { steps: 6, value: "c" } },
+        ]);
+    });
+
+    it("imports a list with its circular edge", () => {
+        expect(list.fromJSON({ ...list.toJSON(), values: ["a", "b"], active: 0 })).toBe(true);
+        expectList(["a", "b"]);
+        expect(list.toJSON().active).toBe(0);
+    });
+});
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import Deque from "@/utils/deque";
+import { EdgeData } from "@/utils/base/baseStructure";
+import { collectLogs, logKeys, LogMessage } from "../helpers";
+
+/**
+ * Gets the circular edges from the last node of the array to the first one.
+ * @param deque - The deque to inspect.
+ * @returns The circular edges of the deque.
+ */
+function circleEdges(deque: Deque): EdgeData[] {
+    return deque.saveState().edges.filter(edge => edge.class === "circleEdge");
+}
+
+describe("Deque", () => {
+    let deque: Deque;
+    let logs: LogMessage[];
+
+    /**
+     * Gets the drawn pointers that are visible.
+     */
+    function visiblePointers(): Record<string, number | undefined> {
+        return Object.fromEntries(deque.saveState().nodes
+            .filter(node => ["begin", "end", "begAndEnd"].includes(String(node.id)) && node.opacity === 1)
+            .map(node => [String(node.id), node.x]));
+    }
+
+    /**
+     * Gets the x coordinate of the array slot.
+     */
+    function slotX(index: number): number | undefined {
+        return deque.saveState().nodes.find(node => node.id === `node ${index}`)?.x;
+    }
+
+    beforeEach(() => {
+        deque = new Deque();
+        logs = collectLogs(deque);
+        deque.initStructure(4);
+    });
+
+    it("starts empty with the begin and end at the first index", () => {
+        expect(deque.toJSON()).toMatchObject({ structure: "deque", capacity: 4, begin: 0, end: 0, values: [] });
+        expect(visiblePointers()).toEqual({ begAndEnd: slotX(0) });
+    });
+
+    it("adds elements to the end and moves the end pointer", async () => {
+        await deque.addRear("1");
+        await deque.addRear("2");
+
+        expect(deque.toJSON()).toMatchObject({ begin: 0, end: 2, values: ["1", "2"] });
+        expect(visiblePointers()).toEqual({ begin: slotX(0), end: slotX(2) });
+    });
+
+    it("adds an element to the front by wrapping the beginning around", async () => {
+        await deque.addRear("1");
+        await deque.addFront("0");
+
+        expect(deque.toJSON()).toMatchObject({ begin: 3, end: 1, values: ["0", "1"] });
+        expect(visiblePointers()).toEqual({ begin: slotX(3), end: slotX(1) });
+        expect(circleEdges(deque)).toEqual([
+            { source: "node 3", target: "node 0", class: "circleEdge", opacity: 1 }
+        ]);
+    });
+
+    it("keeps one slot free at both ends", async () => {
+        await deque.addFront("3");
+        await deque.addFront("2");
+        await deque.addRear("4");
+        await deque.isFull();
+        await deque.addFront("1");
+        await deque.addRear("5");
+
+        expect(deque.toJSON().values).toEqual(["2", "3", "4"]);
+        expect(logKeys(logs)).toEqual(["deque.full", "deque.addFrontFull", "deque.addRearFull"]);
+    });
+
+    it("removes elements from both ends", async () => {
+        for (const value of ["1", "2", "3"]) await deque.addRear(value);
+
+        await deque.removeFront();
+        expect(deque.toJSON()).toMatchObject({ begin: 1, end: 3, values: ["2", "3"] });
+
+        await deque.removeRear();
+        expect(deque.toJSON()).toMatchObject({ begin: 1, end: 2, values: ["2"] });
+        expect(deque.saveState().nodes.find(node => node.id === "node 2")).toMatchObject({ value: "", class: "arrayNode" });
+    });
+
+    it("removes the circular edge when the end moves back before the wrap", async () => {
+        await deque.addRear("1");
+        await deque.addFront("0");
+
+        await deque.removeRear();
+        expect(deque.toJSON()).toMatchObject({ begin: 3, end: 0, values: ["0"] });
+        expect(circleEdges(deque)).toHaveLength(1);
+
+        await deque.removeRear();
+        expect(deque.toJSON()).toMatchObject({ begin: 3, end: 3, values: [] });
+        expect(circleEdges(deque)).toHaveLength(0);
+        expect(visiblePointers()).toEqual({ begAndEnd: slotX(3) });
+    });
+
+    it("refuses to remove from an empty deque", async () => {
+        await deque.removeFront();
+        await deque.removeRear();
+        expect(logKeys(logs)).toEqual(["deque.removeFrontEmpty", "deque.removeRearEmpty"]);
+    });
+
+    it("shows the elements at both ends", async () => {
+        await deque.peekFront();
+        await deque.peekRear();
+        await deque.addRear("2");
+        await deque.addFront("1");
+        await deque.peekFront();
+        await deque.peekRear();
+
+        expect(logs.slice(2)).toEqual([
+            { key: "deque.peekFront", params: { value: "1" } },
+            { key: "deque.peekRear", params: { value: "2" } }
+        ]);
+        expect(logKeys(logs.slice(0, 2))).toEqual(["deque.peekFrontError", "deque.peekRearError"]);
+        expect(deque.saveState().nodes.some(node => node.class?.includes("peekedNode"))).toBe(false);
+    });
+
+    it("reports whether it is empty or full", async () => {
+        await deque.isEmpty();
+        await deque.addFront("1");
+        await deque.isEmpty();
+        await deque.isFull();
+        expect(logKeys(logs)).toEqual(["deque.empty", "deque.notEmpty", "deque.notFull"]);
+    });
+
+    it("imports a wrapped deque with its circular edge", () => {
+        const json = { ...deque.toJSON(), begin: 2, end: 1, values: ["a", "b", "c"] };
+
+        expect(deque.fromJSON(json)).toBe(true);
+        expect(deque.toJSON()).toEqual(json);
+        expect(circleEdges(deque)).toHaveLength(1);
+    });
+
+    it("restores a saved state", async () => {
+        await deque.addRear("1");
+        const state = deque.saveState();
+
+        await deque.addFront("0");
+        deque.restoreState(state);
+
+        expect(deque.toJSON()).toMatchObject({ begin: 0, end: 1, values: ["1"] });
+        expect(circleEdges(deque)).toHaveLength(0);
+        expect(deque.saveState()).toEqual(state);
+    });
+});
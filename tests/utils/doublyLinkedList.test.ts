@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import DoublyLinkedList from "@/utils/doublyLinkedList";
+import { activate, appendToList, collectLogs, linkedValues, logKeys, LogMessage } from "../helpers";
+
+describe("DoublyLinkedList", () => {
+    let list: DoublyLinkedList;
+    let logs: LogMessage[];
+
+    /**
+     * Checks the order of the values and that the edges link the nodes in the same order in both directions.
+     * @param values - The expected values from the first to the last node.
+     */
+    function expectList(values: string[]): void {
+        const state = list.saveState();
+
+        expect(list.toJSON().values).toEqual(values);
+        expect(linkedValues(state, 0)).toEqual(values);
+        expect(linkedValues(state, 1)).toEqual([...values].reverse());
+    }
+
+    beforeEach(() => {
+        list = new DoublyLinkedList();
+        logs = collectLogs(list);
+        list.initStructure();
+    });
+
+    it("inserts nodes to both ends", async () => {
+        await list.insertFirstNode("b");
+        await list.insertLastNode("c");
+        await list.insertFirstNode("a");
+        expectList(["a", "b", "c"]);
+    });
+
+    it("reads both ends", async () => {
+        await list.getFirstNodeValue();
+        await list.getLastNodeValue();
+        await appendToList(list, ["a", "b"]);
+        await list.getFirstNodeValue();
+        await list.getLastNodeValue();
+
+        expect(logs).toEqual([
+            { key: "list.getFirstError", params: {} },
+            { key: "list.getLastError", params: {} },
+            { key: "list.getFirstValue", params: { value: "a" } },
+            { key: "list.getLastValue", params: { value: "b" } }
+        ]);
+    });
+
+    it("deletes nodes from both ends", async () => {
+        await list.deleteFirstNode();
+        await list.deleteLastNode();
+        expect(logKeys(logs)).toEqual(["list.deleteFirstEmpty", "list.deleteLastEmpty"]);
+
+        await appendToList(list, ["a", "b", "c", "d"]);
+        await list.deleteFirstNode();
+        expectList(["b", "c", "d"]);
+
+        await list.deleteLastNode();
+        expectList(["b", "c"]);
+
+        await list.deleteLastNode();
+        await list.deleteFirstNode();
+        expectList([]);
+    });
+
+    it("moves the activity in both directions", async () => {
+        await list.activateLastNode();
+        expect(logKeys(logs)).toEqual(["list.lastEmpty"]);
+
+        await appendToList(list, ["a", "b", "c"]);
+        await list.activateLastNode();
+        expect(list.toJSON().active).toBe(2);
+
+        await list.activatePreviousNode();
+        expect(list.toJSON().active).toBe(1);
+
+        await list.activateNextNode();
+        expect(list.toJSON().active).toBe(2);
+
+        // The activity is lost before the first node
+        await activate(list, 0);
+        await list.activatePreviousNode();
+        expect(list.toJSON().active).toBeNull();
+    });
+
+    it("inserts nodes after the active node", async () => {
+        await appendToList(list, ["a", "c"]);
+        await activate(list, 0);
+
+        // Between two nodes
+        await list.insertAfterActiveNode("b");
+        expectList(["a", "b", "c"]);
+        expect(list.toJSON().active).toBe(0);
+
+        // After the last node
+        await activate(list, 2);
+        await list.insertAfterActiveNode("d");
+        expectList(["a", "b", "c", "d"]);
+        expect(list.toJSON().active).toBe(2);
+    });
+
+    it("inserts nodes before the active node", async () => {
+        await appendToList(list, ["b", "d"]);
+        await activate(list, 0);
+
+        // Before the first node
+        await list.insertBeforeActiveNode("a");
+        expectList(["a", "b", "d"]);
+        expect(list.toJSON().active).toBe(1);
+
+        // Between two nodes
+        await activate(list, 2);
+        await list.insertBeforeActiveNode("c");
+        expectList(["a", "b", "c", "d"]);
+        expect(list.toJSON().active).toBe(3);
+    });
+
+    it("deletes nodes after the active node", async () => {
+        await appendToList(list, ["a", "b", "c"]);
+        await activate(list, 0);
+
+        // From the middle of the list
+        await list.deleteAfterActiveNode();
+        expectList(["a", "c"]);
+
+        // The last node
+        await list.deleteAfterActiveNode();
+        expectList(["a"]);
+
+        // Nothing after the active node
+        await list.deleteAfterActiveNode();
+        expect(logKeys(logs)).toEqual(["list.deleteAfterEmpty"]);
+        expect(list.toJSON().active).toBe(0);
+    });
+
+    it("keeps the active node when deleting the node before it", async () => {
+        await appendToList(list, ["a", "b", "c", "d"]);
+        await activate(list, 3);
+
+        // From the middle of the list
+        await list.deleteBeforeActiveNode();
+        expectList(["a", "b", "d"]);
+        expect(list.toJSON().active).toBe(2);
+
+        // The first node
+        await activate(list, 1);
+        await list.deleteBeforeActiveNode();
+        expectList(["b", "d"]);
+        expect(list.toJSON().active).toBe(0);
+
+        // Nothing before the active node
+        await list.deleteBeforeActiveNode();
+        expectList(["b", "d"]);
+        expect(logKeys(logs)).toEqual(["list.deleteBeforeEmpty"]);
+        expect(list.toJSON().active).toBe(0);
+    });
+
+    it("deactivates the list when the active node is deleted", async () => {
+        await appendToList(list, ["a", "b"]);
+        await activate(list, 1);
+        await list.deleteLastNode();
+
+        expect(list.toJSON().active).toBeNull();
+        expectList(["a"]);
+    });
+
+    it("reverses the list in both directions", async () => {
+        await appendToList(list, ["a", "b", "c"]);
+        await activate(list, 0);
+        await list.reverseList();
+
+        expectList(["c", "b", "a"]);
+        expect(list.toJSON().active).toBe(2);
+        expect(list.saveState().nodes.map(node => node.class)).toEqual(
+            ["pointer", "pointer", "nullDefaultNode", "defaultNode", "activeNodeNull"]
+        );
+    });
+
+    it("sorts the list in both directions", async () => {
+        await appendToList(list, ["c", "a", "d", "b"]);
+        await list.sortList("merge");
+        expectList(["a", "b", "c", "d"]);
+
+        await list.insertFirstNode("e");
+        await list.sortList("insertion");
+        expectList(["a", "b", "c", "d", "e"]);
+        expect(logKeys(logs)).toEqual(["list.sort", "list.sort"]);
+    });
+
+    it("imports and exports its content", () => {
+        expect(list.fromJSON({ ...list.toJSON(), values: ["a", "b", "c"], active: 2 })).toBe(true);
+        expect(list.toJSON()).toMatchObject({ values: ["a", "b", "c"], active: 2 });
+        expectList(["a", "b", "c"]);
+    });
+});
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import HashTable from "@/utils/hashTable";
+import { collectLogs, linkedValues, logKeys, LogMessage } from "../helpers";
+
+describe("HashTable", () => {
+    let table: HashTable;
+    let logs: LogMessage[];
+
+    beforeEach(() => {
+        table = new HashTable();
+        logs = collectLogs(table);
+        table.initStructure(5);
+    });
+
+    /**
+     * Inserts the keys one by one.
+     */
+    async function fill(keys: string[]): Promise<void> {
+        for (const key of keys) await table.insertKey(key);
+    }
+
+    /**
+     * Gets the exported keys of each bucket.
+     */
+    function buckets(): string[][] {
+        return table.toJSON().buckets as string[][];
+    }
+
+    /**
+     * Gets the label with the hash function and the load factor.
+     */
+    function hashInfo(): string {
+        return String(table.saveState().nodes.find(node => node.id === "hashInfo")?.value);
+    }
+
+    it("runs headless", () => {
+        expect(table.isHeadless()).toBe(true);
+        expect(table.toJSON()).toMatchObject({
+            structure: "hashTable",
+            capacity: 5,
+            hashFunction: "division",
+            buckets: [[], [], [], [], []]
+        });
+    });
+
+    it("ignores operations before initialization", async () => {
+        const uninitialized = new HashTable();
+        await uninitialized.insertKey("1");
+        expect(uninitialized.isInitialized()).toBe(false);
+        expect(uninitialized.saveState().nodes).toEqual([]);
+    });
+
+    it("chains the keys with the same hash", async () => {
+        await fill(["7", "12", "3", "-3", "17"]);
+
+        expect(buckets()).toEqual([[], [], ["7", "12", "-3", "17"], ["3"], []]);
+        expect(linkedValues(table.saveState(), "node 2")).toEqual(["7", "12", "-3", "17"]);
+        expect(logs[0]).toEqual({ key: "hashTable.insert", params: { key: "7", index: 2, loadFactor: "α = 1 / 5 = 0.20" } });
+    });
+
+    it("refuses to insert a key twice", async () => {
+        await fill(["4", "4"]);
+
+        expect(buckets()).toEqual([[], [], [], [], ["4"]]);
+        expect(logs[1]).toEqual({ key: "hashTable.insertDuplicate", params: { key: "4", index: 4 } });
+    });
+
+    it("searches the chain of the hashed bucket", async () => {
+        await fill(["1", "6", "11"]);
+        logs.length = 0;
+
+        await table.searchKey("11");
+        await table.searchKey("16");
+
+        expect(logs).toEqual([
+            { key: "hashTable.searchFound", params: { key: "11", index: 1 } },
+            { key: "hashTable.searchNotFound", params: { key: "16", index: 1 } },
+        ]);
+        expect(buckets()[1]).toEqual(["1", "6", "11"]);
+    });
+
+    it("deletes a key from the middle of a chain", async () => {
+        await fill(["1", "6", "11"]);
+        await table.deleteKey("6");
+
+        expect(buckets()[1]).toEqual(["1", "11"]);
+        expect(linkedValues(table.saveState(), "node 1")).toEqual(["1", "11"]);
+
+        // The following node has moved to close the gap
+        const [first, second] = table.saveState().chains as { x: number }[][];
+        expect(first).toEqual([]);
+        expect(second[1].x - second[0].x).toBe(140);
+        expect(logKeys(logs)).toContain("hashTable.delete");
+    });
+
+    it("refuses to delete a missing key", async () => {
+        await fill(["2"]);
+        await table.deleteKey("7");
+
+        expect(buckets()[2]).toEqual(["2"]);
+        expect(logs[1]).toEqual({ key: "hashTable.deleteNotFound", params: { key: "7", index: 2 } });
+    });
+
+    it("shows the hash function and the load factor", async () => {
+        expect(hashInfo()).toBe("h(k) = k mod 5\nα = 0 / 5 = 0.00");
+
+        await fill(["1", "2"]);
+        expect(hashInfo()).toBe("h(k) = k mod 5\nα = 2 / 5 = 0.40");
+    });
+
+    it("redistributes the keys for a new hash function", async () => {
+        await fill(["19", "28", "37", "5"]);
+
+        await table.setHashFunction("digitSum");
+        expect(table.toJSON()).toMatchObject({
+            hashFunction: "digitSum",
+            buckets: [["5", "37", "28", "19"], [], [], [], []]
+        });
+        expect(hashInfo()).toBe("h(k) = Σkᵢ mod 5\nα = 4 / 5 = 0.80");
+
+        await table.setHashFunction("multiplication");
+        expect(buckets().flat().sort()).toEqual(["19", "28", "37", "5"]);
+        expect(logKeys(logs).slice(-2)).toEqual(["hashTable.hashFunction", "hashTable.hashFunction"]);
+    });
+
+    it("keeps the selected hash function after a reset", async () => {
+        await table.setHashFunction("digitSum");
+        table.resetStructure();
+        table.initStructure(7);
+
+        expect(table.toJSON()).toMatchObject({ capacity: 7, hashFunction: "digitSum" });
+    });
+
+    it("imports only keys stored in their own buckets", () => {
+        const json = { version: 1, structure: "hashTable", capacity: 3, hashFunction: "division", buckets: [["3"], [], ["5", "8"]] };
+        expect(table.fromJSON(json)).toBe(true);
+        expect(table.toJSON()).toEqual(json);
+
+        expect(table.fromJSON({ ...json, buckets: [["4"], [], []] })).toBe(false);
+        expect(table.fromJSON({ ...json, buckets: [["3", "3"], [], []] })).toBe(false);
+        expect(table.fromJSON({ ...json, hashFunction: "unknown" })).toBe(false);
+        expect(table.toJSON()).toEqual(json);
+    });
+
+    it("generates a random table with unique keys in their buckets", () => {
+        table.randomStructure();
+        const capacity = table.toJSON().capacity as number;
+        const keys = buckets().flat();
+
+        expect(buckets().length).toBe(capacity);
+        expect(new Set(keys).size).toBe(keys.length);
+        buckets().forEach((bucket, i) => bucket.forEach(key => expect(Number(key) % capacity).toBe(i)));
+    });
+
+    it("restores a saved state", async () => {
+        await fill(["1", "6"]);
+        const state = table.saveState();
+
+        await table.deleteKey("1");
+        table.restoreState(state);
+
+        expect(buckets()[1]).toEqual(["1", "6"]);
+        expect(table.saveState()).toEqual(state);
+    });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import LinkedQueue from "@/utils/linkedQueue";
+import { NodeData } from "@/utils/base/baseStructure";
+import { collectLogs, linkedValues, logKeys, LogMessage } from "../helpers";
+
+describe("LinkedQueue", () => {
+    let queue: LinkedQueue;
+    let logs: LogMessage[];
+
+    /**
+     * Checks the values from the front to the rear and that the rear pointer points to the last node.
+     * @param values - The expected values from the front to the rear of the queue.
+     */
+    function expectQueue(values: string[]): void {
+        const state = queue.saveState();
+        const rearPtr: NodeData = state.nodes[1];
+        const lastNode: NodeData = state.nodes[state.nodes.length - 1];
+
+        expect(queue.toJSON().values).toEqual(values);
+        expect(linkedValues(state, 0)).toEqual(values);
+        expect(linkedValues(state, 1)).toEqual(values.slice(-1));
+        if (values.length > 0) expect(rearPtr.x).toBe(lastNode.x);
+    }
+
+    beforeEach(() => {
+        queue = new LinkedQueue();
+        logs = collectLogs(queue);
+        queue.initStructure(3);
+    });
+
+    it("starts with the front and rear pointers", () => {
+        expect(queue.toJSON()).toMatchObject({ structure: "linkedQueue", capacity: 3, values: [] });
+        expect(queue.saveState().nodes).toMatchObject([
+            { id: 0, value: "Front", class: "pointer" },
+            { id: 1, value: "Rear", class: "pointer" }
+        ]);
+    });
+
+    it("adds elements after the rear node", async () => {
+        await queue.addElement("1");
+        expectQueue(["1"]);
+
+        await queue.addElement("2");
+        await queue.addElement("3");
+        expectQueue(["1", "2", "3"]);
+    });
+
+    it("refuses to add to a full queue", async () => {
+        for (const value of ["1", "2", "3", "4"]) await queue.addElement(value);
+
+        expectQueue(["1", "2", "3"]);
+        expect(logKeys(logs)).toEqual(["queue.addFull"]);
+    });
+
+    it("removes elements from the front", async () => {
+        for (const value of ["1", "2", "3"]) await queue.addElement(value);
+        await queue.removeElement();
+        expectQueue(["2", "3"]);
+
+        await queue.removeElement();
+        expectQueue(["3"]);
+
+        await queue.removeElement();
+        expectQueue([]);
+        expect(queue.saveState().edges).toEqual([]);
+
+        await queue.removeElement();
+        expect(logKeys(logs)).toEqual(["queue.removeEmpty"]);
+    });
+
+    it("moves the rear pointer back when the queue becomes empty", async () => {
+        const initialRear: NodeData = queue.saveState().nodes[1];
+
+        await queue.addElement("1");
+        await queue.addElement("2");
+        await queue.removeElement();
+        await queue.removeElement();
+
+        expect(queue.saveState().nodes).toEqual([expect.anything(), initialRear]);
+    });
+
+    it("reports whether it is empty or full", async () => {
+        await queue.isEmpty();
+        await queue.isFull();
+        for (const value of ["1", "2", "3"]) await queue.addElement(value);
+        await queue.isEmpty();
+        await queue.isFull();
+
+        expect(logKeys(logs)).toEqual(["queue.empty", "queue.notFull", "queue.notEmpty", "queue.full"]);
+    });
+
+    it("shows the front element and clears the highlight", async () => {
+        await queue.foremostElement();
+        await queue.addElement("1");
+        await queue.addElement("2");
+        await queue.foremostElement();
+
+        expect(logs).toEqual([
+            { key: "queue.frontError", params: {} },
+            { key: "queue.front", params: { value: "1" } }
+        ]);
+        expect(queue.isActive()).toBe(false);
+    });
+
+    it("imports a queue with both pointers", () => {
+        const json = { version: 1, structure: "linkedQueue", capacity: 5, values: ["a", "b"] };
+
+        expect(queue.fromJSON(json)).toBe(true);
+        expect(queue.toJSON()).toEqual(json);
+        expectQueue(["a", "b"]);
+
+        expect(queue.fromJSON({ ...json, values: ["1", "2", "3", "4", "5", "6"] })).toBe(false);
+        expect(queue.toJSON()).toEqual(json);
+    });
+
+    it("generates a random queue within its capacity", () => {
+        queue.resetStructure();
+        queue.randomStructure();
+
+        const capacity = queue.toJSON().capacity as number;
+        const values = queue.toJSON().values as string[];
+        expect(values.length).toBeLessThanOrEqual(capacity);
+        expectQueue(values);
+    });
+
+    it("restores a saved state", async () => {
+        await queue.addElement("1");
+        const state = queue.saveState();
+
+        await queue.addElement("2");
+        queue.restoreState(state);
+
+        expectQueue(["1"]);
+        expect(queue.saveState()).toEqual(state);
+    });
+});
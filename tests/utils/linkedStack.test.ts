@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import LinkedStack from "@/utils/linkedStack";
+import { collectLogs, linkedValues, logKeys, LogMessage } from "../helpers";
+
+describe("LinkedStack", () => {
+    let stack: LinkedStack;
+    let logs: LogMessage[];
+
+    /**
+     * Checks the values from the bottom to the top and that the top pointer links them from the top.
+     * @param values - The expected values from the bottom to the top of the stack.
+     */
+    function expectStack(values: string[]): void {
+        expect(stack.toJSON().values).toEqual(values);
+        expect(linkedValues(stack.saveState(), 0)).toEqual([...values].reverse());
+    }
+
+    beforeEach(() => {
+        stack = new LinkedStack();
+        logs = collectLogs(stack);
+        stack.initStructure(3);
+    });
+
+    it("starts with the top pointer only", () => {
+        expect(stack.toJSON()).toMatchObject({ structure: "linkedStack", capacity: 3, values: [] });
+        expect(stack.saveState().nodes).toMatchObject([{ id: 0, value: "Top", class: "pointer" }]);
+    });
+
+    it("pushes elements to the beginning of the list", async () => {
+        await stack.addElement("1");
+        await stack.addElement("2");
+        expectStack(["1", "2"]);
+    });
+
+    it("refuses to push to a full stack", async () => {
+        for (const value of ["1", "2", "3", "4"]) await stack.addElement(value);
+
+        expectStack(["1", "2", "3"]);
+        expect(logKeys(logs)).toEqual(["stack.addFull"]);
+    });
+
+    it("pops the top element", async () => {
+        for (const value of ["1", "2", "3"]) await stack.addElement(value);
+        await stack.removeElement();
+        expectStack(["1", "2"]);
+
+        await stack.removeElement();
+        await stack.removeElement();
+        expectStack([]);
+
+        await stack.removeElement();
+        expect(logKeys(logs)).toEqual(["stack.removeEmpty"]);
+    });
+
+    it("reports whether it is empty or full", async () => {
+        await stack.isEmpty();
+        await stack.isFull();
+        for (const value of ["1", "2", "3"]) await stack.addElement(value);
+        await stack.isEmpty();
+        await stack.isFull();
+
+        expect(logKeys(logs)).toEqual(["stack.empty", "stack.notFull", "stack.notEmpty", "stack.full"]);
+    });
+
+    it("shows the top element and clears the highlight", async () => {
+        await stack.foremostElement();
+        await stack.addElement("1");
+        await stack.addElement("2");
+        await stack.foremostElement();
+
+        expect(logs).toEqual([
+            { key: "stack.topError", params: {} },
+            { key: "stack.top", params: { value: "2" } }
+        ]);
+        expect(stack.isActive()).toBe(false);
+    });
+
+    it("imports the values in the order of the array stack", () => {
+        const json = { version: 1, structure: "linkedStack", capacity: 5, values: ["1", "2", "3"] };
+
+        expect(stack.fromJSON(json)).toBe(true);
+        expect(stack.toJSON()).toEqual(json);
+        expectStack(["1", "2", "3"]);
+
+        expect(stack.fromJSON({ ...json, capacity: 2 })).toBe(false);
+        expect(stack.toJSON()).toEqual(json);
+    });
+
+    it("generates a random stack within its capacity", () => {
+        stack.resetStructure();
+        stack.randomStructure();
+
+        const capacity = stack.toJSON().capacity as number;
+        const values = stack.toJSON().values as string[];
+        expect(stack.saveState().nodes[0].value).toBe("Top");
+        expect(values.length).toBeLessThanOrEqual(capacity);
+    });
+
+    it("restores a saved state", async () => {
+        await stack.addElement("1");
+        const state = stack.saveState();
+
+        await stack.addElement("2");
+        stack.restoreState(state);
+
+        expectStack(["1"]);
+        expect(stack.saveState()).toEqual(state);
+    });
+});
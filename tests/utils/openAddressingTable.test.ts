@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import OpenAddressingTable from "@/utils/openAddressingTable";
+import { collectLogs, logKeys, LogMessage } from "../helpers";
+
+describe("OpenAddressingTable", () => {
+    let table: OpenAddressingTable;
+    let logs: LogMessage[];
+
+    beforeEach(() => {
+        table = new OpenAddressingTable();
+        logs = collectLogs(table);
+        table.initStructure(7);
+    });
+
+    /**
+     * Inserts the keys one by one.
+     */
+    async function fill(keys: string[]): Promise<void> {
+        for (const key of keys) await table.insertKey(key);
+    }
+
+    /**
+     * Gets the exported content of the slots.
+     */
+    function slots(): (string | null)[] {
+        return table.toJSON().slots as (string | null)[];
+    }
+
+    /**
+     * Gets the label with the hash function, the probing sequence and the load factor.
+     */
+    function hashInfo(): string {
+        return String(table.saveState().nodes.find(node => node.id === "hashInfo")?.value);
+    }
+
+    it("runs headless", () => {
+        expect(table.isHeadless()).toBe(true);
+        expect(table.toJSON()).toMatchObject({
+            structure: "openAddressingTable",
+            capacity: 7,
+            hashFunction: "division",
+            probing: "linear",
+            slots: [null, null, null, null, null, null, null]
+        });
+    });
+
+    it("probes the following slots with linear probing", async () => {
+        await fill(["3", "10", "17"]);
+
+        expect(slots()).toEqual([null, null, null, "3", "10", "17", null]);
+        expect(logs[2]).toEqual({
+            key: "openAddressingTable.insert",
+            params: { key: "17", index: 5, sequence: "3 → 4 → 5", loadFactor: "α = 3 / 7 = 0.43" }
+        });
+    });
+
+    it("probes the squared offsets with quadratic probing", async () => {
+        await table.setProbing("quadratic");
+        await fill(["3", "10", "17", "24"]);
+
+        expect(slots()).toEqual(["17", null, null, "3", "10", "24", null]);
+        expect(logs[logs.length - 1].params).toMatchObject({ key: "24", index: 5, sequence: "3 → 4 → 0 → 5" });
+    });
+
+    it("stops the quadratic probing when it returns to a probed slot", async () => {
+        await table.setProbing("quadratic");
+        await fill(["3", "10", "17", "24", "31"]);
+
+        // The squares modulo 7 reach only the slots 3, 4, 0 and 5 from the slot 3
+        expect(logs[logs.length - 1]).toEqual({
+            key: "openAddressingTable.insertFull",
+            params: { key: "31", sequence: "3 → 4 → 0 → 5" }
+        });
+        expect(slots()).toEqual(["17", null, null, "3", "10", "24", null]);
+    });
+
+    it("steps by the second hash with double hashing", async () => {
+        await table.setProbing("doubleHashing");
+        await fill(["3", "10", "17"]);
+
+        expect(slots()).toEqual([null, "10", "17", "3", null, null, null]);
+        expect(logs[logs.length - 1].params).toMatchObject({ key: "17", index: 2, sequence: "3 → 2" });
+    });
+
+    it("refuses to insert a key twice", async () => {
+        await fill(["3", "3"]);
+
+        expect(slots().filter(slot => slot !== null)).toEqual(["3"]);
+        expect(logs[1]).toEqual({ key: "openAddressingTable.insertDuplicate", params: { key: "3", index: 3, sequence: "3" } });
+    });
+
+    it("leaves a tombstone that is skipped by search and reused by insert", async () => {
+        await fill(["3", "10", "17"]);
+        await table.deleteKey("10");
+
+        expect(slots()).toEqual([null, null, null, "3", "DEL", "17", null]);
+        expect(hashInfo()).toContain("α = 2 / 7 = 0.29");
+
+        logs.length = 0;
+        await table.searchKey("17");
+        await table.insertKey("24");
+
+        expect(logs).toEqual([
+            { key: "openAddressingTable.searchFound", params: { key: "17", index: 5, sequence: "3 → 4 → 5" } },
+            {
+                key: "openAddressingTable.insert",
+                params: { key: "24", index: 4, sequence: "3 → 4 → 5 → 6", loadFactor: "α = 3 / 7 = 0.43" }
+            },
+        ]);
+        expect(slots()).toEqual([null, null, null, "3", "24", "17", null]);
+    });
+
+    it("stops the search at an empty slot", async () => {
+        await fill(["3"]);
+        logs.length = 0;
+
+        await table.searchKey("10");
+        await table.deleteKey("5");
+
+        expect(logs).toEqual([
+            { key: "openAddressingTable.searchNotFound", params: { key: "10", sequence: "3 → 4" } },
+            { key: "openAddressingTable.deleteNotFound", params: { key: "5", sequence: "5" } },
+        ]);
+    });
+
+    it("reports a key that does not fit in the full table", async () => {
+        await fill(["0", "1", "2", "3", "4", "5", "6"]);
+        await table.insertKey("7");
+
+        expect(logs[7]).toEqual({
+            key: "openAddressingTable.insertFull",
+            params: { key: "7", sequence: "0 → 1 → 2 → 3 → 4 → 5 → 6" }
+        });
+        expect(slots()).toEqual(["0", "1", "2", "3", "4", "5", "6"]);
+    });
+
+    it("shows the hash function, the probing sequence and the load factor", async () => {
+        expect(hashInfo()).toBe("h(k) = k mod 7\nh(k, i) = (h(k) + i) mod 7\nα = 0 / 7 = 0.00");
+
+        await table.setProbing("doubleHashing");
+        expect(hashInfo().split("\n")[1]).toBe("h(k, i) = (h(k) + i · h₂(k)) mod 7, h₂(k) = 1 + k mod 6");
+    });
+
+    it("redistributes the keys for a new probing sequence", async () => {
+        await fill(["3", "10", "17", "24"]);
+        await table.deleteKey("24");
+
+        await table.setProbing("quadratic");
+        expect(slots()).toEqual(["17", null, null, "3", "10", null, null]);
+        expect(logs[logs.length - 1]).toEqual({
+            key: "openAddressingTable.probing",
+            params: { formula: "h(k, i) = (h(k) + i²) mod 7" }
+        });
+    });
+
+    it("keeps the probing sequence if the keys do not fit", async () => {
+        await fill(["3", "10", "17", "24", "31"]);
+
+        await table.setProbing("quadratic");
+        expect(table.toJSON()).toMatchObject({ probing: "linear", slots: ["31", null, null, "3", "10", "17", "24"] });
+        expect(logKeys(logs).pop()).toBe("openAddressingTable.probingFailed");
+    });
+
+    it("redistributes the keys for a new hash function", async () => {
+        await fill(["19", "28"]);
+
+        // The keys are stored again in the order of their previous slots
+        await table.setHashFunction("digitSum");
+        expect(table.toJSON()).toMatchObject({ hashFunction: "digitSum", slots: [null, null, null, "28", "19", null, null] });
+        expect(logKeys(logs).pop()).toBe("openAddressingTable.hashFunction");
+    });
+
+    it("creates only a table of a prime size", async () => {
+        table.resetStructure();
+        table.initStructure(8);
+        expect(table.isInitialized()).toBe(false);
+
+        // Every slot of a table of a prime size is reached by the double hashing
+        table.initStructure(11);
+        await table.setProbing("doubleHashing");
+        await fill(["0", "11", "22", "33", "44", "55", "66", "77", "88", "99", "110"]);
+        expect(slots().every(slot => slot !== null)).toBe(true);
+    });
+
+    it("keeps the selected probing sequence after a reset", async () => {
+        await table.setProbing("doubleHashing");
+        table.resetStructure();
+        table.initStructure(5);
+
+        expect(table.toJSON()).toMatchObject({ capacity: 5, probing: "doubleHashing" });
+    });
+
+    it("imports only keys reachable by their probing sequence", () => {
+        const json = {
+            version: 1, structure: "openAddressingTable", capacity: 5, hashFunction: "division", probing: "linear",
+            slots: ["5", "DEL", "6", null, null]
+        };
+        expect(table.fromJSON(json)).toBe(true);
+        expect(table.toJSON()).toEqual(json);
+
+        expect(table.fromJSON({ ...json, slots: ["5", null, "6", null, null] })).toBe(false);
+        expect(table.fromJSON({ ...json, slots: ["5", "5", null, null, null] })).toBe(false);
+        expect(table.fromJSON({ ...json, probing: "cubic" })).toBe(false);
+        expect(table.fromJSON({ ...json, capacity: 4, slots: ["5", "DEL", "6", null] })).toBe(false);
+        expect(table.toJSON()).toEqual(json);
+    });
+
+    it("generates a random table with keys that can be found", async () => {
+        table.randomStructure();
+        const keys = slots().filter((slot): slot is string => slot !== null);
+        logs.length = 0;
+
+        for (const key of keys) await table.searchKey(key);
+
+        expect(new Set(keys).size).toBe(keys.length);
+        expect(logKeys(logs).every(key => key === "openAddressingTable.searchFound")).toBe(true);
+    });
+
+    it("restores a saved state", async () => {
+        await fill(["3", "10"]);
+        const state = table.saveState();
+
+        await table.deleteKey("3");
+        table.restoreState(state);
+
+        expect(slots()).toEqual([null, null, null, "3", "10", null, null]);
+        expect(table.saveState()).toEqual(state);
+    });
+});
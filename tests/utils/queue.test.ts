@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import QueueClass from "@/utils/queue";
+import { EdgeData } from "@/utils/base/baseStructure";
+import { collectLogs, logKeys, LogMessage } from "../helpers";
+
+/**
+ * Gets the circular edges from the last node of the array to the first one.
+ * @param queue - The queue to inspect.
+ * @returns The circular edges of the queue.
+ */
+function circleEdges(queue: QueueClass): EdgeData[] {
+    return queue.saveState().edges.filter(edge => edge.class === "circleEdge");
+}
+
+describe("QueueClass", () => {
+    let queue: QueueClass;
+    let logs: LogMessage[];
+
+    beforeEach(() => {
+        queue = new QueueClass();
+        logs = collectLogs(queue);
+        queue.initStructure(4);
+    });
+
+    it("starts empty with the begin and end at the first index", () => {
+        expect(queue.toJSON()).toMatchObject({ structure: "queue", capacity: 4, begin: 0, end: 0, values: [] });
+    });
+
+    it("adds elements to the end", async () => {
+        await queue.addElement("1");
+        await queue.addElement("2");
+        expect(queue.toJSON()).toMatchObject({ begin: 0, end: 2, values: ["1", "2"] });
+    });
+
+    it("keeps one slot free to tell a full queue from an empty one", async () => {
+        for (const value of ["1", "2", "3"]) await queue.addElement(value);
+        await queue.isFull();
+        await queue.addElement("4");
+
+        expect(queue.toJSON().values).toEqual(["1", "2", "3"]);
+        expect(logKeys(logs)).toEqual(["queue.full", "queue.addFull"]);
+    });
+
+    it("removes elements from the front", async () => {
+        await queue.addElement("1");
+        await queue.addElement("2");
+        await queue.removeElement();
+        expect(queue.toJSON()).toMatchObject({ begin: 1, end: 2, values: ["2"] });
+    });
+
+    it("refuses to remove from an empty queue", async () => {
+        await queue.removeElement();
+        expect(logKeys(logs)).toEqual(["queue.removeEmpty"]);
+    });
+
+    it("wraps the end around and adds the circular edge", async () => {
+        for (const value of ["1", "2", "3"]) await queue.addElement(value);
+        await queue.removeElement();
+        expect(circleEdges(queue)).toHaveLength(0);
+
+        await queue.addElement("4");
+
+        expect(queue.toJSON()).toMatchObject({ begin: 1, end: 0, values: ["2", "3", "4"] });
+        expect(circleEdges(queue)).toEqual([
+            { source: "node 3", target: "node 0", class: "circleEdge", opacity: 1 }
+        ]);
+
+        // The end is right before the beginning - the queue is full again
+        await queue.addElement("5");
+        expect(logKeys(logs)).toEqual(["queue.addFull"]);
+    });
+
+    it("wraps the beginning around and removes the circular edge", async () => {
+        for (const value of ["1", "2", "3"]) await queue.addElement(value);
+        await queue.removeElement();
+        await queue.addElement("4");
+        await queue.addElement("5");    // Full, not added
+
+        await queue.removeElement();
+        await queue.removeElement();
+        expect(queue.toJSON()).toMatchObject({ begin: 3, end: 0, values: ["4"] });
+        expect(circleEdges(queue)).toHaveLength(1);
+
+        await queue.removeElement();
+        expect(queue.toJSON()).toMatchObject({ begin: 0, end: 0, values: [] });
+        expect(circleEdges(queue)).toHaveLength(0);
+    });
+
+    it("reports whether it is empty or full", async () => {
+        await queue.isEmpty();
+        await queue.isFull();
+        await queue.addElement("1");
+        await queue.isEmpty();
+        expect(logKeys(logs)).toEqual(["queue.empty", "queue.notFull", "queue.notEmpty"]);
+    });
+
+    it("shows the front element", async () => {
+        await queue.foremostElement();
+        await queue.addElement("1");
+        await queue.addElement("2");
+        await queue.foremostElement();
+
+        expect(logs).toEqual([
+            { key: "queue.frontError", params: {} },
+            { key: "queue.front", params: { value: "1" } }
+        ]);
+    });
+
+    it("imports a wrapped queue with its circular edge", () => {
+        const json = { ...queue.toJSON(), begin: 2, end: 1, values: ["a", "b", "c"] };
+
+        expect(queue.fromJSON(json)).toBe(true);
+        expect(queue.toJSON()).toMatchObject({ begin: 2, end: 1, values: ["a", "b", "c"] });
+        expect(circleEdges(queue)).toHaveLength(1);
+
+        // The number of values must match the distance between the indices
+        expect(queue.fromJSON({ ...json, values: ["a"] })).toBe(false);
+        expect(queue.toJSON().values).toEqual(["a", "b", "c"]);
+    });
+});
@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import RedBlackTree from "@/utils/redBlackTree";
+import { collectLogs, fillTree, logKeys, LogMessage, tree } from "../helpers";
+
+describe("RedBlackTree", () => {
+    let rb: RedBlackTree;
+    let logs: LogMessage[];
+
+    /**
+     * Gets the exported colors of the nodes.
+     */
+    function colors(): Record<string, string> {
+        return rb.toJSON().colors as Record<string, string>;
+    }
+
+    /**
+     * Gets the classes of the drawn tree nodes keyed by their values.
+     */
+    function drawnClasses(): Record<string, string> {
+        return Object.fromEntries(rb.saveState().nodes
+            .filter(node => node.id !== "nodeCursor" && node.class !== "pointer")
+            .map(node => [String(node.value), String(node.class)]));
+    }
+
+    beforeEach(() => {
+        rb = new RedBlackTree();
+        logs = collectLogs(rb);
+        rb.initStructure();
+    });
+
+    it("colors the root black and draws the null children as NIL leaves", async () => {
+        await fillTree(rb, ["50"]);
+
+        expect(colors()).toEqual({ "50": "black" });
+        expect(logs).toEqual([{ key: "redBlack.insertRoot", params: { key: "50" } }]);
+        expect(drawnClasses()).toEqual({ "50": "blackNode", "NIL": "nilNode" });
+    });
+
+    it("inserts a red node under a black parent without a fix-up", async () => {
+        await fillTree(rb, ["50", "30"]);
+
+        expect(colors()).toEqual({ "50": "black", "30": "red" });
+        expect(logs).toHaveLength(1);
+        expect(drawnClasses()["30"]).toBe("redNode");
+    });
+
+    it("recolors the parent, the uncle and the grandparent when the uncle is red", async () => {
+        await fillTree(rb, ["50", "30", "70"]);
+        logs.length = 0;
+
+        await rb.insertNode("20");
+
+        expect(logs).toEqual([
+            { key: "redBlack.insertCase1", params: { key: "20", parent: "30", uncle: "70", grandparent: "50" } },
+            { key: "redBlack.insertRoot", params: { key: "50" } },
+        ]);
+        expect(colors()).toEqual({ "50": "black", "30": "black", "70": "black", "20": "red" });
+    });
+
+    it("rotates the grandparent when the node is an outer grandchild", async () => {
+        await fillTree(rb, ["30", "20"]);
+        logs.length = 0;
+
+        await rb.insertNode("10");
+
+        expect(rb.toJSON().root).toEqual(tree("20", tree("10"), tree("30")));
+        expect(colors()).toEqual({ "20": "black", "10": "red", "30": "red" });
+        expect(logs).toEqual([
+            { key: "redBlack.insertCase3", params: { key: "10", parent: "20", grandparent: "30" } },
+        ]);
+    });
+
+    it("rotates the parent first when the node is an inner grandchild", async () => {
+        await fillTree(rb, ["30", "10"]);
+        logs.length = 0;
+
+        await rb.insertNode("20");
+
+        expect(rb.toJSON().root).toEqual(tree("20", tree("10"), tree("30")));
+        expect(logs).toEqual([
+            { key: "redBlack.insertCase2", params: { key: "20", parent: "10" } },
+            { key: "redBlack.insertCase3", params: { key: "10", parent: "20", grandparent: "30" } },
+        ]);
+        expect(rb.isRedBlackTree()).toBe(true);
+    });
+
+    it("keeps the properties during a sequence of insertions", async () => {
+        await fillTree(rb, ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"]);
+
+        expect(rb.isRedBlackTree()).toBe(true);
+        expect(logKeys(logs)).toContain("redBlack.insertCase1");
+    });
+
+    it("removes a red node without a fix-up", async () => {
+        await fillTree(rb, ["50", "30", "70"]);
+        logs.length = 0;
+
+        await rb.deleteNode("30");
+
+        expect(logs).toEqual([]);
+        expect(colors()).toEqual({ "50": "black", "70": "red" });
+    });
+
+    it("recolors a red child that replaces a black node", async () => {
+        await fillTree(rb, ["50", "30", "70", "20"]);
+        logs.length = 0;
+
+        await rb.deleteNode("30");
+
+        expect(rb.toJSON().root).toEqual(tree("50", tree("20"), tree("70")));
+        expect(logs).toEqual([{ key: "redBlack.deleteRecolor", params: { key: "20" } }]);
+        expect(rb.isRedBlackTree()).toBe(true);
+    });
+
+    it("moves the extra black to the parent when the sibling has black children", async () => {
+        await fillTree(rb, ["50", "30", "70", "20"]);
+        await rb.deleteNode("20");
+        logs.length = 0;
+
+        await rb.deleteNode("30");
+
+        expect(logs).toEqual([
+            { key: "redBlack.deleteCase2", params: { key: "NIL", parent: "50", sibling: "70" } },
+        ]);
+        expect(colors()).toEqual({ "50": "black", "70": "red" });
+    });
+
+    it("rotates the parent when the far child of the sibling is red", async () => {
+        await fillTree(rb, ["50", "30", "70", "80"]);
+        logs.length = 0;
+
+        await rb.deleteNode("30");
+
+        expect(rb.toJSON().root).toEqual(tree("70", tree("50"), tree("80")));
+        expect(logs).toEqual([
+            { key: "redBlack.deleteCase4", params: { key: "NIL", parent: "50", sibling: "70", nephew: "80" } },
+        ]);
+        expect(colors()).toEqual({ "70": "black", "50": "black", "80": "black" });
+    });
+
+    it("rotates the sibling first when only its near child is red", async () => {
+        await fillTree(rb, ["50", "30", "70", "60"]);
+        logs.length = 0;
+
+        await rb.deleteNode("30");
+
+        expect(rb.toJSON().root).toEqual(tree("60", tree("50"), tree("70")));
+        expect(logKeys(logs)).toEqual(["redBlack.deleteCase3", "redBlack.deleteCase4"]);
+        expect(rb.isRedBlackTree()).toBe(true);
+    });
+
+    it("rotates the parent when the sibling is red", async () => {
+        await fillTree(rb, ["20", "10", "40", "30", "50", "60"]);
+        // 10 is black, 40 is red with black children 30 and 50
+        await rb.deleteNode("60");
+        logs.length = 0;
+
+        await rb.deleteNode("10");
+
+        expect(logKeys(logs)[0]).toBe("redBlack.deleteCase1");
+        expect(rb.toJSON().root).toEqual(tree("40", tree("20", null, tree("30")), tree("50")));
+        expect(rb.isRedBlackTree()).toBe(true);
+    });
+
+    it("keeps the color of the place when a node is replaced by its successor", async () => {
+        await fillTree(rb, ["50", "30", "70", "60", "80"]);
+        await rb.deleteNode("50");
+
+        expect(rb.toJSON().root).toEqual(tree("60", tree("30"), tree("70", null, tree("80"))));
+        expect(colors()["60"]).toBe("black");
+        expect(rb.isRedBlackTree()).toBe(true);
+    });
+
+    it("keeps the properties while the tree is emptied", async () => {
+        const keys = ["41", "38", "31", "12", "19", "8", "45", "50", "3", "27"];
+        await fillTree(rb, keys);
+
+        for (const key of keys) {
+            await rb.deleteNode(key);
+            expect(rb.isRedBlackTree()).toBe(true);
+        }
+        expect(rb.toJSON()).toMatchObject({ root: null, colors: {} });
+    });
+
+    it("imports only trees with valid colors", () => {
+        const json = {
+            ...rb.toJSON(),
+            root: tree("50", tree("30", null, tree("40")), tree("70")),
+            colors: { "50": "black", "30": "black", "40": "red", "70": "black" }
+        };
+        expect(rb.fromJSON(json)).toBe(true);
+        expect(rb.toJSON()).toEqual(json);
+
+        expect(rb.fromJSON({ ...json, colors: { ...json.colors, "30": "red" } })).toBe(false);
+        expect(rb.fromJSON({ ...json, colors: { ...json.colors, "70": "red" } })).toBe(false);
+        expect(rb.fromJSON({ ...json, colors: { "50": "black" } })).toBe(false);
+        expect(rb.fromJSON({ ...json, colors: { ...json.colors, "50": "blue" } })).toBe(false);
+        expect(rb.toJSON()).toEqual(json);
+    });
+
+    it("generates a random red-black tree", () => {
+        rb.randomStructure();
+        expect(rb.isInitialized()).toBe(true);
+        expect(rb.isRedBlackTree()).toBe(true);
+    });
+
+    it("restores a saved state", async () => {
+        await fillTree(rb, ["50", "30"]);
+        const state = rb.saveState();
+
+        await rb.insertNode("20");
+        rb.restoreState(state);
+
+        expect(colors()).toEqual({ "50": "black", "30": "red" });
+        expect(rb.saveState()).toEqual(state);
+    });
+});
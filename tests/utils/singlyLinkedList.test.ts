@@ -0,0 +1,360 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import SinglyLinkedList, { SortAlgorithm } from "@/utils/singlyLinkedList";
+import { collectLogs, fillList, linkedValues, logKeys, LogMessage } from "../helpers";
+
+describe("SinglyLinkedList", () => {
+    let list: SinglyLinkedList;
+    let logs: LogMessage[];
+
+    /**
+     * Checks the order of the values and that the edges link the nodes in the same order.
+     * @param values - The expected values from the first to the last node.
+     */
+    function expectList(values: string[]): void {
+        expect(list.toJSON().values).toEqual(values);
+        expect(linkedValues(list.saveState(), 0)).toEqual(values);
+    }
+
+    beforeEach(() => {
+        list = new SinglyLinkedList();
+        logs = collectLogs(list);
+        list.initStructure();
+    });
+
+    it("inserts nodes to the beginning", async () => {
+        await list.insertFirstNode("b");
+        await list.insertFirstNode("a");
+        expectList(["a", "b"]);
+        expect(list.toJSON().active).toBeNull();
+    });
+
+    it("reads the first node", async () => {
+        await list.getFirstNodeValue();
+        await fillList(list, ["a", "b"]);
+        await list.getFirstNodeValue();
+
+        expect(logs).toEqual([
+            { key: "list.getFirstError", params: {} },
+            { key: "list.getFirstValue", params: { value: "a" } }
+        ]);
+    });
+
+    it("deletes the first node", async () => {
+        await list.deleteFirstNode();
+        expect(logKeys(logs)).toEqual(["list.deleteFirstEmpty"]);
+
+        await fillList(list, ["a", "b", "c"]);
+        await list.deleteFirstNode();
+        expectList(["b", "c"]);
+
+        await list.deleteFirstNode();
+        await list.deleteFirstNode();
+        expectList([]);
+    });
+
+    it("deactivates the list when the active first node is deleted", async () => {
+        await fillList(list, ["a", "b"]);
+        await list.activateFirstNode();
+        await list.deleteFirstNode();
+
+        expect(list.toJSON().active).toBeNull();
+        expect(list.isActive()).toBe(false);
+    });
+
+    it("moves the activity along the list", async () => {
+        await list.activateFirstNode();
+        expect(logKeys(logs)).toEqual(["list.firstEmpty"]);
+
+        await fillList(list, ["a", "b"]);
+        await list.activateFirstNode();
+        expect(list.toJSON().active).toBe(0);
+
+        await list.activateNextNode();
+        expect(list.toJSON().active).toBe(1);
+
+        // The activity is lost after the last node
+        await list.activateNextNode();
+        expect(list.toJSON().active).toBeNull();
+    });
+
+    it("reads and writes the active node", async () => {
+        await list.getActiveNodeValue();
+        await fillList(list, ["a", "b"]);
+        await list.activateFirstNode();
+        await list.activateNextNode();
+        await list.setActiveNodeValue("x");
+        await list.getActiveNodeValue();
+
+        expectList(["a", "x"]);
+        expect(logs).toEqual([
+            { key: "list.getActiveError", params: {} },
+            { key: "list.setActiveValue", params: { value: "x" } },
+            { key: "list.getActiveValue", params: { value: "x" } }
+        ]);
+    });
+
+    it("ignores operations with the active node when the list is not active", async () => {
+        await fillList(list, ["a"]);
+        await list.insertAfterActiveNode("b");
+        await list.setActiveNodeValue("x");
+        await list.deleteAfterActiveNode();
+
+        expectList(["a"]);
+        expect(logs).toEqual([]);
+    });
+
+    it("inserts nodes after the active node", async () => {
+        await fillList(list, ["a", "c"]);
+        await list.activateFirstNode();
+
+        // Between two nodes
+        await list.insertAfterActiveNode("b");
+        expectList(["a", "b", "c"]);
+        expect(list.toJSON().active).toBe(0);
+
+        // After the last node
+        await list.activateNextNode();
+        await list.activateNextNode();
+        await list.insertAfterActiveNode("d");
+        expectList(["a", "b", "c", "d"]);
+        expect(list.toJSON().active).toBe(2);
+    });
+
+    it("deletes nodes after the active node", async () => {
+        await fillList(list, ["a", "b", "c"]);
+        await list.activateFirstNode();
+
+        // From the middle of the list
+        await list.deleteAfterActiveNode();
+        expectList(["a", "c"]);
+
+        // The last node
+        await list.deleteAfterActiveNode();
+        expectList(["a"]);
+
+        // Nothing after the active node
+        await list.deleteAfterActiveNode();
+        expectList(["a"]);
+        expect(logKeys(logs)).toEqual(["list.deleteAfterEmpty"]);
+        expect(list.toJSON().active).toBe(0);
+    });
+
+    it("reports whether the list is active", async () => {
+        await fillList(list, ["a"]);
+        await list.isListActive();
+        await list.activateFirstNode();
+        await list.isListActive();
+        expect(logKeys(logs)).toEqual(["list.notActive", "list.active"]);
+    });
+
+    it("searches the list with a cursor", async () => {
+        await list.searchNode("a");
+        await fillList(list, ["a", "b", "b"]);
+        await list.searchNode("b");
+        await list.searchNode("c");
+
+        expect(logs).toEqual([
+            { key: "list.searchNotFound", params: { value: "a" } },
+            { key: "list.searchFound", params: { value: "b", index: 1 } },
+            { key: "list.searchNotFound", params: { value: "c" } }
+        ]);
+        expect(list.saveState().nodes.some(node => node.id === "cursor")).toBe(false);
+    });
+
+    it("counts the nodes of the list", async () => {
+        await list.showLength();
+        await fillList(list, ["a", "b", "c"]);
+        await list.showLength();
+
+        expect(logs).toEqual([
+            { key: "list.length", params: { length: 0 } },
+            { key: "list.length", params: { length: 3 } }
+        ]);
+        expectList(["a", "b", "c"]);
+    });
+
+    it("inserts nodes at a position", async () => {
+        await list.insertAt(0, "b");
+        await list.insertAt(1, "d");
+        await list.insertAt(0, "a");
+        await list.insertAt(2, "c");
+        expectList(["a", "b", "c", "d"]);
+
+        await list.insertAt(5, "x");
+        expect(logs).toEqual([{ key: "list.insertAtError", params: { index: 5, length: 4 } }]);
+        expect(list.saveState().nodes.some(node => node.id === "cursor")).toBe(false);
+    });
+
+    it("keeps the active node when a node is inserted before it", async () => {
+        await fillList(list, ["a", "c"]);
+        await list.activateFirstNode();
+        await list.activateNextNode();
+        await list.insertAt(1, "b");
+
+        expectList(["a", "b", "c"]);
+        expect(list.toJSON().active).toBe(2);
+    });
+
+    it("deletes nodes at a position", async () => {
+        await list.deleteAt(0);
+        await fillList(list, ["a", "b", "c", "d"]);
+        await list.deleteAt(2);
+        await list.deleteAt(2);
+        await list.deleteAt(0);
+        expectList(["b"]);
+
+        await list.deleteAt(1);
+        expect(logs).toEqual([
+            { key: "list.deleteAtEmpty", params: {} },
+            { key: "list.deleteAtError", params: { index: 1, last: 0 } }
+        ]);
+    });
+
+    it("reverses the list and keeps the active node", async () => {
+        await fillList(list, ["a", "b", "c", "d"]);
+        await list.activateFirstNode();
+        await list.activateNextNode();
+        await list.reverseList();
+
+        expectList(["d", "c", "b", "a"]);
+        expect(list.toJSON().active).toBe(2);
+        expect(logKeys(logs)).toEqual(["list.reverse"]);
+
+        // The temporary pointers are gone and the nodes are placed from left to right
+        const nodes = list.saveState().nodes;
+        expect(nodes.filter(node => node.class === "pointer")).toHaveLength(1);
+        expect(nodes.slice(1).map(node => node.x)).toEqual([...nodes.slice(1).map(node => node.x)].sort((a, b) => a! - b!));
+        expect(nodes[4].class).toBe("nodeWithNull");
+    });
+
+    it("reverses a list with a single node", async () => {
+        await list.reverseList();
+        await fillList(list, ["a"]);
+        await list.reverseList();
+
+        expectList(["a"]);
+        expect(logKeys(logs)).toEqual(["list.reverse", "list.reverse"]);
+    });
+
+    it("refuses to reverse a corrupted list", async () => {
+        await fillList(list, ["b", "c", "d"]);
+        await list.corruptList(1);
+        await list.reverseList();
+
+        expectList(["b", "c", "d"]);
+        expect(logKeys(logs)).toEqual(["list.corrupt", "list.reverseLoop"]);
+
+        // The loop stays and every edge is visible
+        const edges = list.saveState().edges;
+        expect(edges.filter(edge => edge.class?.includes("loopEdge"))).toHaveLength(1);
+        expect(edges.every(edge => edge.opacity !== 0)).toBe(true);
+    });
+
+    it("sorts the list by the insertion sort", async () => {
+        await fillList(list, ["3", "10", "b", "1", "a"]);
+        await list.activateFirstNode();
+        await list.sortList("insertion");
+
+        // Numbers are compared by their value, the active node moves with its value
+        expectList(["1", "3", "10", "a", "b"]);
+        expect(list.toJSON().active).toBe(1);
+        expect(logs).toEqual([{ key: "list.sort", params: { algorithm: "insertion", comparisons: 8, changes: 10 } }]);
+
+        // The nodes are placed back to the row of the list
+        const nodes = list.saveState().nodes;
+        expect(nodes.slice(1).every(node => node.y === 300)).toBe(true);
+        expect(nodes.slice(1).map(node => node.class).join(" ")).not.toContain("comparedNode");
+    });
+
+    it("sorts the list by the merge sort", async () => {
+        await fillList(list, ["d", "b", "a", "c", "b"]);
+        await list.sortList("merge");
+
+        expectList(["a", "b", "b", "c", "d"]);
+        expect(logKeys(logs)).toEqual(["list.sort"]);
+        expect(logs[0].params).toMatchObject({ algorithm: "merge", comparisons: 7 });
+        expect(list.saveState().nodes.slice(1).every(node => node.y === 300)).toBe(true);
+
+        // An unknown algorithm is ignored
+        await list.sortList("bubble" as SortAlgorithm);
+        expect(logKeys(logs)).toEqual(["list.sort"]);
+    });
+
+    it("finds the start of a loop by Floyd's algorithm", async () => {
+        await fillList(list, ["a", "b", "c", "d", "e"]);
+        await list.corruptList(2);
+
+        // The last node points back to the third node
+        const loopEdges = list.saveState().edges.filter(edge => edge.class === "circleEdge loopEdge");
+        expect(loopEdges).toMatchObject([{ source: 5, target: 3 }]);
+        expect(list.saveState().nodes[5].class).toBe("defaultNode");
+
+        await list.detectCycle();
+        expect(logs).toEqual([
+            { key: "list.corrupt", params: { value: "c", index: 2 } },
+            { key: "list.cycleMeet", params: { value: "d" } },
+            { key: "list.cycleFound", params: { value: "c", index: 2 } },
+        ]);
+
+        // The Slow and Fast pointers are removed, the loop stays
+        expect(list.saveState().nodes).toHaveLength(6);
+        expect(list.saveState().edges).toHaveLength(6);
+    });
+
+    it("detects no cycle and removes a broken loop", async () => {
+        await list.corruptList(0);
+        await list.detectCycle();
+        await fillList(list, ["a", "b", "c"]);
+        await list.corruptList(3);
+        await list.detectCycle();
+
+        expect(logKeys(logs)).toEqual(["list.corruptEmpty", "list.cycleNone", "list.corruptError", "list.cycleNone"]);
+
+        // Deleting the target of the loop repairs the list
+        await list.corruptList(0);
+        await list.deleteFirstNode();
+        expectList(["b", "c"]);
+        expect(list.saveState().edges).toHaveLength(2);
+        expect(list.saveState().nodes[2].class).toBe("nodeWithNull");
+    });
+
+    it("removes the loop when a node is appended to a corrupted list", async () => {
+        await fillList(list, ["a", "b", "c"]);
+        await list.corruptList(0);
+        await list.activateFirstNode();
+        await list.activateNextNode();
+        await list.activateNextNode();
+        await list.insertAfterActiveNode("d");
+        await list.insertAt(4, "e");
+        await list.detectCycle();
+
+        expectList(["a", "b", "c", "d", "e"]);
+        expect(list.saveState().edges.filter(edge => edge.class?.includes("loopEdge"))).toHaveLength(0);
+        expect(logKeys(logs)).toEqual(["list.corrupt", "list.cycleNone"]);
+
+        // A loop from the new last node is removed by the next insertion at the end as well
+        await list.corruptList(1);
+        await list.insertAt(5, "f");
+        expectList(["a", "b", "c", "d", "e", "f"]);
+        expect(list.saveState().edges).toHaveLength(6);
+    });
+
+    it("imports and exports its content", () => {
+        expect(list.fromJSON({ ...list.toJSON(), values: ["a", "b", "c"], active: 1 })).toBe(true);
+        expect(list.toJSON()).toMatchObject({ values: ["a", "b", "c"], active: 1 });
+        expectList(["a", "b", "c"]);
+
+        // The active position must point to an existing node
+        expect(list.fromJSON({ ...list.toJSON(), active: 3 })).toBe(false);
+        expect(list.toJSON()).toMatchObject({ values: ["a", "b", "c"], active: 1 });
+    });
+
+    it("restores a saved state", async () => {
+        await fillList(list, ["a", "b"]);
+        const state = list.saveState();
+
+        await list.deleteFirstNode();
+        expect(list.restoreState(state)).toBe(true);
+        expectList(["a", "b"]);
+    });
+});
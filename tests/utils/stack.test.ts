@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import StackClass from "@/utils/stack";
+import { collectLogs, logKeys, LogMessage } from "../helpers";
+
+describe("StackClass", () => {
+    let stack: StackClass;
+    let logs: LogMessage[];
+
+    beforeEach(() => {
+        stack = new StackClass();
+        logs = collectLogs(stack);
+        stack.initStructure(3);
+    });
+
+    it("runs headless", () => {
+        expect(stack.isHeadless()).toBe(true);
+        expect(stack.isInitialized()).toBe(true);
+        expect(stack.toJSON()).toMatchObject({ structure: "stack", capacity: 3, values: [] });
+    });
+
+    it("ignores operations before initialization", async () => {
+        const uninitialized = new StackClass();
+        await uninitialized.addElement("1");
+        expect(uninitialized.isInitialized()).toBe(false);
+        expect(uninitialized.saveState().nodes).toEqual([]);
+    });
+
+    it("pushes elements to the top", async () => {
+        await stack.addElement("1");
+        await stack.addElement("2");
+        expect(stack.toJSON().values).toEqual(["1", "2"]);
+    });
+
+    it("refuses to push to a full stack", async () => {
+        for (const value of ["1", "2", "3"]) await stack.addElement(value);
+        await stack.addElement("4");
+
+        expect(stack.toJSON().values).toEqual(["1", "2", "3"]);
+        expect(logKeys(logs)).toContain("stack.addFull");
+    });
+
+    it("pops the top element", async () => {
+        await stack.addElement("1");
+        await stack.addElement("2");
+        await stack.removeElement();
+        expect(stack.toJSON().values).toEqual(["1"]);
+
+        await stack.removeElement();
+        expect(stack.toJSON().values).toEqual([]);
+    });
+
+    it("refuses to pop from an empty stack", async () => {
+        await stack.removeElement();
+        expect(logKeys(logs)).toEqual(["stack.removeEmpty"]);
+    });
+
+    it("reports whether it is empty", async () => {
+        await stack.isEmpty();
+        await stack.addElement("1");
+        await stack.isEmpty();
+        expect(logKeys(logs)).toEqual(["stack.empty", "stack.notEmpty"]);
+    });
+
+    it("reports whether it is full", async () => {
+        await stack.isFull();
+        for (const value of ["1", "2", "3"]) await stack.addElement(value);
+        await stack.isFull();
+        expect(logKeys(logs)).toEqual(["stack.notFull", "stack.full"]);
+    });
+
+    it("shows the top element", async () => {
+        await stack.foremostElement();
+        await stack.addElement("1");
+        await stack.addElement("2");
+        await stack.foremostElement();
+
+        expect(logs).toEqual([
+            { key: "stack.topError", params: {} },
+            { key: "stack.top", params: { value: "2" } }
+        ]);
+        // The temporary top pointer is removed after the animation
+        expect(stack.saveState().nodes.some(node => node.id === "top")).toBe(false);
+    });
+
+    it("imports and exports its content", () => {
+        expect(stack.fromJSON({ ...stack.toJSON(), capacity: 4, values: ["a", "b"] })).toBe(true);
+        expect(stack.toJSON()).toMatchObject({ capacity: 4, values: ["a", "b"] });
+
+        // Too many values for the capacity keep the previous content
+        expect(stack.fromJSON({ ...stack.toJSON(), capacity: 1 })).toBe(false);
+        expect(stack.toJSON()).toMatchObject({ capacity: 4, values: ["a", "b"] });
+    });
+
+    it("grows to double capacity when pushing to a full growable stack", async () => {
+        await stack.setMode("growable");
+        for (const value of ["1", "2", "3", "4"]) await stack.addElement(value);
+
+        expect(stack.toJSON()).toMatchObject({ capacity: 6, mode: "growable", values: ["1", "2", "3", "4"] });
+        expect(logs).toContainEqual({ key: "stack.grow", params: { from: 3, to: 6 } });
+        expect(logs[logs.length - 1]).toEqual({ key: "stack.cost", params: { operations: 4, copies: 3, amortized: "1.75" } });
+
+        // The new array replaces the old one with its indices
+        const ids: string[] = stack.saveState().nodes.map(node => String(node.id));
+        expect(ids.filter(id => id.startsWith("node"))).toHaveLength(6);
+        expect(ids.filter(id => id.startsWith("index"))).toHaveLength(6);
+        expect(ids.some(id => id.startsWith("new"))).toBe(false);
+    });
+
+    it("shrinks to half capacity when less than a quarter is used", async () => {
+        expect(stack.fromJSON({ ...stack.toJSON(), capacity: 8, mode: "growable", values: ["1", "2", "3"] })).toBe(true);
+
+        await stack.removeElement();
+        expect(stack.toJSON()).toMatchObject({ capacity: 8, values: ["1", "2"] });
+
+        await stack.removeElement();
+        expect(stack.toJSON()).toMatchObject({ capacity: 4, values: ["1"] });
+        expect(logKeys(logs)).toEqual(["stack.cost", "stack.shrink", "stack.cost"]);
+    });
+
+    it("does not shrink below the minimum capacity", async () => {
+        expect(stack.fromJSON({ ...stack.toJSON(), capacity: 8, mode: "growable", values: ["1", "2"] })).toBe(true);
+
+        await stack.removeElement();
+        await stack.removeElement();
+        expect(stack.toJSON()).toMatchObject({ capacity: 2, values: [] });
+
+        // Pushing to and popping from the empty stack does not resize it anymore
+        await stack.addElement("a");
+        await stack.removeElement();
+        expect(stack.toJSON()).toMatchObject({ capacity: 2, values: [] });
+        expect(logKeys(logs)).toEqual([
+            "stack.shrink", "stack.cost", "stack.shrink", "stack.cost", "stack.cost", "stack.cost"
+        ]);
+
+        // The empty stack is not full in the fixed mode either
+        await stack.setMode("fixed");
+        await stack.isFull();
+        await stack.addElement("b");
+        expect(stack.toJSON()).toMatchObject({ capacity: 2, values: ["b"] });
+        expect(logKeys(logs).slice(-2)).toEqual(["stack.mode", "stack.notFull"]);
+    });
+
+    it("treats an empty stack with a single slot as not full", async () => {
+        stack.resetStructure();
+        stack.initStructure(1);
+        await stack.isFull();
+        await stack.addElement("a");
+        await stack.isFull();
+
+        expect(stack.toJSON()).toMatchObject({ capacity: 1, values: ["a"] });
+        expect(logKeys(logs)).toEqual(["stack.notFull", "stack.full"]);
+    });
+
+    it("keeps the fixed capacity until the mode is changed", async () => {
+        for (const value of ["1", "2", "3", "4"]) await stack.addElement(value);
+        await stack.setMode("growable");
+        await stack.addElement("4");
+
+        expect(stack.toJSON()).toMatchObject({ capacity: 6, values: ["1", "2", "3", "4"] });
+        expect(logKeys(logs)).toEqual(["stack.addFull", "stack.mode", "stack.grow", "stack.cost"]);
+    });
+
+    it("loads a stack without the mode as a fixed one", () => {
+        const { mode, ...json } = stack.toJSON();
+
+        expect(mode).toBe("fixed");
+        expect(stack.fromJSON({ ...json, values: ["a"] })).toBe(true);
+        expect(stack.toJSON()).toMatchObject({ mode: "fixed", values: ["a"] });
+        expect(stack.fromJSON({ ...json, mode: "unknown" })).toBe(false);
+    });
+
+    it("restores a saved state of a growable stack", async () => {
+        await stack.setMode("growable");
+        await stack.addElement("1");
+        const state = stack.saveState();
+
+        for (const value of ["2", "3", "4"]) await stack.addElement(value);
+        stack.restoreState(state);
+
+        expect(stack.toJSON()).toMatchObject({ capacity: 3, mode: "growable", values: ["1"] });
+        expect(stack.saveState()).toEqual(state);
+    });
+
+    it("resets the structure", async () => {
+        await stack.addElement("1");
+        stack.resetStructure();
+        expect(stack.isInitialized()).toBe(false);
+        expect(stack.saveState().nodes).toEqual([]);
+    });
+});